@@ -1,93 +1,680 @@
 import express, { Express, Request, Response } from 'express';
-import { RssModule } from './src/classes/RssModule.js';
+import { KeywordQuery, RssModule, SearchQuery, StoryQuery } from './src/classes/RssModule.js';
+import { Feed, FeedAttributes } from './src/classes/FeedRegistry.js';
+import { Scheduler } from './src/classes/Scheduler.js';
+import { ImportQuery } from './src/classes/ImportHistory.js';
+import { ArticleExporter } from './src/classes/ArticleExporter.js';
+import config, { maxPollInterval, minPollInterval } from './src/config/config.js';
+import { ApiKeyRegistry, Role, roles } from './src/classes/ApiKeyRegistry.js';
+import { authorize } from './src/middleware/authorize.js';
+import { checkUrl } from './src/utils/urls.js';
+import { Conflict, NotFound, NotReady } from './src/classes/HttpError.js';
+import { asyncHandler, errorHandler, notFoundHandler, sendProblem } from './src/middleware/errors.js';
+import { Field, RequestSchema } from './src/utils/schema.js';
+import { ApiRouter, RouteResponse } from './src/classes/ApiRouter.js';
+import { apiSchemas } from './src/utils/apiSchemas.js';
+import { logger } from './src/utils/logger.js';
+import { httpRequestDuration, metrics } from './src/utils/metrics.js';
+import { requestContext } from './src/middleware/requestContext.js';
+import { HealthCheck } from './src/classes/HealthCheck.js';
 
 // Create the Express app
 const app: Express = express();
 
-// The port the server will listen on for requests. This could be set in an environment variable, but for the sake of this example, we'll just hardcode it.
-const port = 3001;
+// The maximum number of articles that can be requested in one page. Without a maximum, the pagination could be bypassed by requesting a huge page.
+const maxArticlesPerPage = 500;
+
+// The maximum number of search results that can be requested at once
+const maxSearchResults = 100;
+
+// The maximum number of trending keywords that can be requested at once
+const maxKeywords = 100;
+
+// The maximum number of stories that can be requested at once. Each story comes with its articles.
+const maxStories = 100;
+
+// The time window of the trending keywords when none is given, in days
+const defaultKeywordWindow = 7;
 
 // Set up the RssModule class
 const rssModule = new RssModule();
 
-// Send the available endpoints. Normally you'd find this info in the documentation, but for the sake of this example, we'll send it here. Some APIs include such an endpoint, and some don't.
-app.get('/', (req: Request, res: Response) => {
-    res.send({
-        endpoints: [
-            {
-                endpoint: "/api/articles",
-                description: "Get the articles from the RSS feed",
-                method: "GET",
-            },
-            {
-                endpoint: "/api/articles/import",
-                description: "Import the RSS feed",
-                method: "POST",
-                parameters: [
-                    {
-                        name: "siteRssUrl",
-                        description: "The URL of the RSS feed to import",
-                        required: true,
-                    },
-                ],
-            },
-        ],
-    });
+// Set up the exports of the articles as feeds and CSV
+const articleExporter = new ArticleExporter();
+
+// Set up the scheduler that imports the feeds in the background. A failed import is thrown as an error, so that the scheduler can record it and back off.
+const scheduler = new Scheduler({
+    ...config.polling,
+    registry: rssModule.feedRegistry,
+    importFeed: (feed) => rssModule.import(feed.url, true, logger.child({ feedId: feed.id, trigger: "scheduler" })),
 });
 
-app.get('/api/articles', async (req: Request, res: Response) => {
-    // Get the articles
-    const articles = await rssModule.get();
+// Set up the readiness checks, which look at the same migrations as npm run migrate
+const healthCheck = new HealthCheck("./migrations");
 
-    // Send the articles back to the user
-    res.send(articles);
+// Set up the API keys. Importing and managing the feeds and keys needs an admin key; reading needs a reader key, unless the reads are configured to be public.
+const apiKeys = new ApiKeyRegistry();
+const readers = authorize(apiKeys, () => config.auth.publicReads ? null : "reader");
+const admins = authorize(apiKeys, () => "admin");
+
+// Give every request an ID and a logger, and log and time it. The probes and the metrics are requested every few seconds, so they are only logged when debugging.
+app.use(requestContext(logger, httpRequestDuration, ["/healthz", "/readyz", "/metrics"]));
+
+// The feed management endpoints accept JSON bodies
+app.use(express.json());
+
+/*
+* The schemas of the request parameters. The validate middleware checks the requests against them before they reach the routes, and the descriptions document the parameters.
+*/
+
+/*
+* Check that the server may fetch a URL, which means resolving its host. Registered feeds were checked when they were registered, but where a host points to can change since.
+*
+* @param {string} name The name of the parameter, for the message
+*/
+const fetchable = (name: string) => async (url: string): Promise<true | string> => {
+    const unsafe = await checkUrl(url, rssModule.fetcher.limits);
+
+    return unsafe === true || `The ${name} parameter can't be fetched. ${unsafe}`;
+}
+
+const articleSchema: RequestSchema = {
+    query: {
+        feed: { type: "string", description: "Only return the articles of the feed with this ID or URL" },
+        from: { type: "date", description: "Only return the articles published on or after this date (ISO 8601)" },
+        to: { type: "date", description: "Only return the articles published on or before this date (ISO 8601)" },
+        sort: { type: "string", enum: ["publicationDate", "importDate"], default: "publicationDate", description: "Sort by publication date or import date" },
+        order: { type: "string", enum: ["asc", "desc"], default: "desc", description: "The sort order" },
+        limit: { type: "integer", min: 1, max: maxArticlesPerPage, default: 50, description: "The number of articles per page" },
+        cursor: {
+            type: "string",
+            parse: rssModule.decodeCursor,
+            message: "The cursor parameter is invalid or does not match the sort and order parameters",
+            description: "The nextCursor of the previous page, to get the next page",
+        },
+        collapse: { type: "boolean", default: false, description: "Only return the first article of each story, with the ID of the story in storyid and its number of matching articles in storysize" },
+    },
+    // A cursor only makes sense with the sorting it was created with
+    check: ({ query }) => {
+        if (query.cursor && (query.cursor.sort !== (query.sort ?? "publicationDate") || query.cursor.order !== (query.order ?? "desc"))) {
+            return "The cursor parameter is invalid or does not match the sort and order parameters";
+        }
+
+        return true;
+    },
+};
+
+const searchSchema: RequestSchema = {
+    query: {
+        q: {
+            type: "string",
+            required: true,
+            max: 500,
+            message: "The q parameter is required and must be a string of at most 500 characters",
+            description: "The search terms. Supports \"quoted phrases\", or, and -excluded words",
+        },
+        feed: { type: "string", description: "Only search the articles of the feed with this ID or URL" },
+        limit: { type: "integer", min: 1, max: maxSearchResults, default: 20, description: "The number of results" },
+        offset: { type: "integer", min: 0, default: 0, description: "The number of results to skip" },
+    },
+};
+
+// The URL can be sent in the query string or in the JSON body
+const siteRssUrl: Field = { type: "url", description: "The URL of the RSS feed to import", check: fetchable("siteRssUrl") };
+
+const importSchema: RequestSchema = {
+    query: { siteRssUrl },
+    body: { siteRssUrl },
+    check: ({ query, body }) => query.siteRssUrl !== undefined || body.siteRssUrl !== undefined || "The siteRssUrl parameter is required and must be a valid http or https URL",
+};
+
+const storySchema: RequestSchema = {
+    query: {
+        feed: { type: "string", description: "Only return the stories with an article of the feed with this ID or URL" },
+        from: { type: "date", description: "Only return the stories with an article published on or after this date (ISO 8601)" },
+        to: { type: "date", description: "Only return the stories with an article published on or before this date (ISO 8601)" },
+        limit: { type: "integer", min: 1, max: maxStories, default: 20, description: "The number of stories" },
+        offset: { type: "integer", min: 0, default: 0, description: "The number of stories to skip" },
+    },
+};
+
+const importHistorySchema: RequestSchema = {
+    query: {
+        feed: { type: "string", description: "Only return the imports of the feed with this ID or URL" },
+        status: { type: "string", enum: ["success", "partial", "failed"], description: "Only return the imports with this status" },
+        limit: { type: "integer", min: 1, max: maxArticlesPerPage, default: 50, description: "The number of imports per page" },
+        cursor: { type: "integer", min: 0, message: "The cursor parameter is invalid", description: "The nextCursor of the previous page, to get the next page" },
+    },
+};
+
+const keywordSchema: RequestSchema = {
+    query: {
+        feed: { type: "string", description: "Only count the articles of the feed with this ID or URL" },
+        from: { type: "date", description: `The start of the window (ISO 8601), defaults to ${defaultKeywordWindow} days before its end` },
+        to: { type: "date", description: "The end of the window (ISO 8601), defaults to now" },
+        limit: { type: "integer", min: 1, max: maxKeywords, default: 20, description: "The number of keywords" },
+    },
+    check: ({ query }) => {
+        const window = keywordWindow(query);
+
+        return window.from <= window.to || "The from parameter must be before the to parameter";
+    },
+};
+
+/*
+* The attributes of a feed, which are all optional when updating one
+*
+* @param {boolean} partial Whether the required attributes may be omitted
+*/
+const feedFields = (partial: boolean): Record<string, Field> => ({
+    url: { type: "url", required: !partial, description: "The URL of the RSS feed", check: fetchable("url") },
+    name: { type: "string", required: !partial, description: "A display name for the feed" },
+    primaryKey: { type: "string", default: "guid", description: "The item property that uniquely identifies an article. Items without it are identified by their guid, their id, or else their link" },
+    enabled: { type: "boolean", default: true, description: "Whether the feed can be imported" },
+    pollInterval: {
+        type: "integer",
+        min: minPollInterval,
+        max: maxPollInterval,
+        nullable: true,
+        default: config.polling.defaultInterval,
+        message: `The pollInterval parameter must be a number of seconds between ${minPollInterval} and ${maxPollInterval}, or null`,
+        description: "Seconds between two background imports of the feed, or null for the default",
+    },
+    language: {
+        type: "string",
+        nullable: true,
+        pattern: /^[a-zA-Z]{2,3}([-_][a-zA-Z0-9]{1,8})*$/,
+        message: "The language parameter must be a language tag such as fr or en-GB, or null",
+        description: "Overrides the language the feed declares, such as fr or en-GB. Used to choose how its articles are searched",
+    },
 });
 
-app.post('/api/articles/import', async (req: Request, res: Response) => {
+// An unknown or malformed ID in the path is a resource that doesn't exist
+const feedId: Field = { type: "integer", min: 1, message: "Feed not found", description: "The ID of the feed" };
 
-    // Here we could add authorization logic, but for this specification, it's not required. Any authentication logic would have already happend in a middleware function, and we'd have access to the user's details here.
+const createFeedSchema: RequestSchema = { body: feedFields(false) };
+const updateFeedSchema: RequestSchema = { params: { id: feedId }, body: feedFields(true) };
+const deleteFeedSchema: RequestSchema = { params: { id: feedId } };
+const importReportSchema: RequestSchema = { params: { id: { type: "integer", min: 1, message: "Import not found", description: "The ID of the import" } } };
 
-    // Next we validate the request parameters.
-    const validationError = isValid(req);
+const createApiKeySchema: RequestSchema = {
+    body: {
+        name: { type: "string", required: true, description: "What the key is for" },
+        role: { type: "string", required: true, enum: roles, description: "The role of the key" },
+    },
+};
 
-    // We explicitly check for true here, since the validation method returns true if the request is valid, and a string with the error message if the request is invalid.
-    if (validationError !== true) {
-        res.status(422).send({
-            error: validationError,
-        });
-        return;
+const revokeApiKeySchema: RequestSchema = { params: { id: { type: "integer", min: 1, message: "API key not found", description: "The ID of the key" } } };
+
+/*
+* Find the feed that a feed filter refers to, by its ID or its URL
+*
+* @param {string | undefined} idOrUrl The value of the filter, if it was given
+* @throws {NotFound} If there is no such feed
+*/
+const findFeed = async (idOrUrl: string | undefined): Promise<Feed | null> => {
+    if (idOrUrl === undefined) {
+        return null;
     }
 
-    // We're casting the siteRssUrl to a string here since the validation method before ensures that it is indeed a string. Its more for TypeScript than anything else. One could refactor the validation method to return the valid parameter, but that's not necessary for this simple example.
-    const siteRssUrl = String(req.query.siteRssUrl);
+    const feed = await rssModule.feedRegistry.findByIdOrUrl(idOrUrl);
 
-    // Import the RSS feed
-    const importedRssFeed = await rssModule.import(siteRssUrl);
+    if (!feed) {
+        throw new NotFound("Feed not found");
+    }
 
-    // Send the imported RSS feed back to the user. Depending on the business use case, you could return a different response here. For the purposes of this example, we'll just return a 201 (created) status code with the parsed RSS feed.
-    res.status(201).send(importedRssFeed);
-});
+    return feed;
+}
+
+/*
+* Get the time window of the trending keywords, filling in the ends that weren't given
+*
+* @param {{ from?: Date, to?: Date }} query The parsed parameters
+*/
+const keywordWindow = (query: { from?: Date, to?: Date }): { from: Date, to: Date } => {
+    const to = query.to ?? new Date();
+    const from = query.from ?? new Date(to.getTime() - defaultKeywordWindow * 24 * 60 * 60 * 1000);
+
+    return { from, to };
+}
 
 /*
-* This function validates the request parameters. It returns true if the request is valid, and a string with the error message if the request is invalid.
+* Translate the unique index on the feed URLs into a 409 (conflict)
 *
-* @param {Request} req The request object
+* @param {any} error
 */
-const isValid = (req: Request): true | string => {
-    // Validate that the siteRssUrl parameter is present, and a valid URL. Even though are check further on will also check this, we do it here as well to provide a more specific error message.
-    if (!req.query.siteRssUrl || typeof req.query.siteRssUrl !== "string") {
-        return "The siteRssUrl parameter is required and must be a string";
+const feedConflict = (error: any): any => {
+    return error?.code === "23505" ? new Conflict("A feed with this URL is already registered") : error;
+}
+
+// Declare the routes. Each declaration sets up the route along with its API key check and request validation, and documents it in the OpenAPI document.
+const api = new ApiRouter(app, { reader: readers, admin: admins }, {
+    title: "RSS articles API",
+    version: "1.0.0",
+    description: "Imports RSS, Atom and JSON feeds, and serves their articles. Every error is sent as an RFC 7807 problem document.",
+}, apiSchemas);
+
+// The response of most routes is a single JSON schema
+const json = (description: string, schema: string): RouteResponse => ({ description, content: { "application/json": { $ref: `#/components/schemas/${schema}` } } });
+
+// The errors that are particular to a route. The common ones are documented from its role and request schema.
+const problem = (description: string): RouteResponse => ({ description, content: { "application/problem+json": { $ref: "#/components/schemas/Problem" } } });
+
+// The OpenAPI document follows the configuration, so it is generated for each request rather than once
+api.route({
+    method: "get",
+    path: "/openapi.json",
+    operationId: "getOpenApiDocument",
+    summary: "Get the OpenAPI 3.1 document of the API",
+    tag: "Documentation",
+    role: null,
+    responses: { 200: { description: "The OpenAPI document", content: { "application/json": { type: "object" } } } },
+}, (req: Request, res: Response) => {
+    res.send(api.document(config.auth.publicReads));
+});
+
+// Send a summary of the endpoints, for people exploring the API. The full details are in the OpenAPI document.
+api.route({
+    method: "get",
+    path: "/",
+    operationId: "getEndpoints",
+    summary: "Get a summary of the endpoints",
+    tag: "Documentation",
+    role: null,
+    responses: { 200: json("The endpoints, with their parameters", "EndpointSummaries") },
+}, (req: Request, res: Response) => {
+    res.send({
+        authentication: `Send an API key in the Authorization header as Bearer <key>. The endpoints with the admin role need an admin key; the others ${config.auth.publicReads ? "can be called without a key" : "need a reader or admin key"}`,
+        documentation: "/openapi.json",
+        endpoints: api.summarize(api.document(config.auth.publicReads)),
+    });
+});
+
+// The liveness probe only says that the process can answer, so that it isn't restarted because of an outage it can't fix
+api.route({
+    method: "get",
+    path: "/healthz",
+    operationId: "getLiveness",
+    summary: "Check that the API is alive",
+    tag: "Monitoring",
+    role: null,
+    responses: { 200: json("The API is alive", "Liveness") },
+}, (req: Request, res: Response) => {
+    res.send({ status: "ok" });
+});
+
+api.route({
+    method: "get",
+    path: "/readyz",
+    operationId: "getReadiness",
+    summary: "Check that the API can serve requests",
+    description: "The API is ready when the database can be reached and every migration has been run. Otherwise it answers with a 503 problem, whose checks member says which checks failed",
+    tag: "Monitoring",
+    role: null,
+    responses: {
+        200: json("The API is ready", "Readiness"),
+        503: problem("The API isn't ready. The outcome of each check is in checks"),
+    },
+}, asyncHandler(async (req: Request, res: Response) => {
+    const { ready, checks } = await healthCheck.check();
+
+    if (!ready) {
+        const failed = Object.entries(checks).filter(([, check]) => check.status === "failed").map(([name]) => name);
+
+        throw new NotReady(`The ${failed.join(" and ")} check(s) failed`, { checks });
     }
 
-    // We can also use the existing URL validation logic in the RssModule class
-    if (!rssModule.isValidUrl(req.query.siteRssUrl)) {
-        return "The siteRssUrl parameter must be a valid and supported URL";
+    res.send({ status: "ready", checks });
+}));
+
+// The metrics can tell a lot about the feeds and the traffic, so they need a key whenever reading does
+api.route({
+    method: "get",
+    path: "/metrics",
+    operationId: "getMetrics",
+    summary: "Get the metrics in the Prometheus text format",
+    description: "HTTP request durations, import durations, items per import by outcome, fetch errors per feed and the connections of the database pool",
+    tag: "Monitoring",
+    role: "reader",
+    responses: { 200: { description: "The metrics", content: { "text/plain": { type: "string" } } } },
+}, (req: Request, res: Response) => {
+    res.type(metrics.contentType).send(metrics.render());
+});
+
+api.route({
+    method: "get",
+    path: "/api/articles",
+    operationId: "listArticles",
+    summary: "Get the articles from the RSS feeds",
+    tag: "Articles",
+    role: "reader",
+    request: articleSchema,
+    responses: { 200: json("A page of articles", "ArticlePage") },
+}, asyncHandler(async (req: Request, res: Response) => {
+    const { feed, ...query } = res.locals.query;
+
+    // The feed can be given as either its ID or its URL
+    const articles = await rssModule.get({ ...query, feed: await findFeed(feed) });
+
+    // Send the articles back to the user
+    res.send(articles);
+}));
+
+api.route({
+    method: "get",
+    path: "/api/articles.:format",
+    operationId: "exportArticles",
+    summary: "Export the articles as an RSS feed, an Atom feed, a JSON Feed or CSV",
+    description: "Accepts the same parameters as GET /api/articles, but without a limit, every matching article is exported",
+    tag: "Articles",
+    role: "reader",
+    request: { ...articleSchema, params: { format: { type: "string", enum: Object.keys(articleExporter.formatters), message: "The articles can only be exported as rss, atom, json or csv", description: "The format of the export" } } },
+    responses: {
+        200: {
+            description: "The articles, streamed as they are read",
+            content: Object.fromEntries(Object.values(articleExporter.formatters).map((formatter) => [formatter.contentType.split(";")[0], { type: "string" }])),
+        },
+    },
+}, asyncHandler(async (req: Request, res: Response) => {
+    const format = req.params.format;
+
+    if (!articleExporter.isExportFormat(format)) {
+        throw new NotFound("The articles can only be exported as rss, atom, json or csv");
+    }
+
+    // The same filters as the list of articles, except that without a limit, every matching article is exported
+    const query = res.locals.query;
+    const feed = await findFeed(query.feed);
+
+    const baseUrl = `${req.protocol}://${req.get("host")}`;
+    const formatter = articleExporter.formatters[format];
+
+    res.type(formatter.contentType);
+
+    if (formatter.filename) {
+        res.attachment(formatter.filename);
     }
 
-    // If we get here, the request is valid
-    return true;
+    const output = articleExporter.export(format, rssModule.stream({ ...query, feed, analytics: false }), {
+        title: feed ? `Articles from ${feed.name}` : "Articles",
+        description: feed ? `The articles imported from ${feed.url}` : "The articles imported from every feed",
+        link: `${baseUrl}/api/articles`,
+        selfUrl: `${baseUrl}${req.originalUrl}`,
+        updated: new Date(),
+    });
+
+    // The export is streamed as it's rendered, and stops reading the articles if the client goes away
+    output.on("error", (error) => {
+        res.locals.logger.error("The export failed", { path: req.originalUrl, error });
+
+        // If nothing was sent yet, the client can still be told what went wrong. Otherwise the response has already started, so all we can do is cut it off, and the client sees an incomplete response rather than a complete-looking but truncated feed.
+        if (res.headersSent) {
+            res.destroy(error);
+        } else {
+            // The problem isn't the file that was asked for, so it mustn't be saved as one
+            res.removeHeader("Content-Disposition");
+            sendProblem(error, req, res);
+        }
+    });
+    res.on("close", () => output.destroy());
+    output.pipe(res);
+}));
+
+api.route({
+    method: "get",
+    path: "/api/articles/search",
+    operationId: "searchArticles",
+    summary: "Search the titles and descriptions of the articles, most relevant first",
+    description: "Matches are highlighted with <mark> in titlehighlight and snippet",
+    tag: "Articles",
+    role: "reader",
+    request: searchSchema,
+    responses: { 200: json("The matching articles", "SearchResults") },
+}, asyncHandler(async (req: Request, res: Response) => {
+    const query: SearchQuery = { ...res.locals.query, feed: await findFeed(res.locals.query.feed) };
+
+    res.send(await rssModule.search(query));
+}));
+
+api.route({
+    method: "get",
+    path: "/api/stories",
+    operationId: "listStories",
+    summary: "Get the stories, with their articles",
+    description: "A story groups the articles of every feed that are about the same thing, judged by how many words their titles and descriptions share. The most recently published stories come first",
+    tag: "Articles",
+    role: "reader",
+    request: storySchema,
+    responses: { 200: json("The stories", "StoryList") },
+}, asyncHandler(async (req: Request, res: Response) => {
+    const query: StoryQuery = { ...res.locals.query, feed: await findFeed(res.locals.query.feed) };
+
+    res.send(await rssModule.stories(query));
+}));
+
+api.route({
+    method: "post",
+    path: "/api/articles/import",
+    operationId: "importFeed",
+    summary: "Import a registered RSS feed",
+    description: "The URL can be sent in the query string or in the JSON body. A failed import is sent as a problem with the report of the import in its report member: a 502 when the feed couldn't be fetched or parsed, and a 503 when the database is unavailable",
+    tag: "Imports",
+    role: "admin",
+    request: importSchema,
+    responses: {
+        201: json("The report of the import", "ImportReport"),
+        502: problem("The feed couldn't be fetched or parsed. The report of the import is in report"),
+        503: problem("The database is unavailable"),
+    },
+}, asyncHandler(async (req: Request, res: Response) => {
+
+    // Only admins get here, the admins middleware has already checked the API key, and the validate middleware the URL. The query string takes precedence over the body.
+    const siteRssUrl: string = res.locals.query.siteRssUrl ?? res.locals.body.siteRssUrl;
+
+    // Import the RSS feed. If the URL isn't a registered feed, or the import fails, the error thrown says why, and carries the report of the import.
+    const report = await rssModule.import(siteRssUrl, true, res.locals.logger);
+
+    // Send the report of the import back to the user. We return a 201 (created), even if the feed wasn't modified, as the import itself went fine.
+    res.status(201).send(report);
+}));
+
+api.route({
+    method: "get",
+    path: "/api/imports",
+    operationId: "listImports",
+    summary: "Get the reports of past imports, newest first",
+    description: "Each report has the status and duration of the import, and how many items were inserted, updated, unchanged and rejected",
+    tag: "Imports",
+    role: "reader",
+    request: importHistorySchema,
+    responses: { 200: json("A page of import reports", "ImportPage") },
+}, asyncHandler(async (req: Request, res: Response) => {
+    const { feed, cursor, ...filters } = res.locals.query;
+    const query: ImportQuery = { ...filters, before: cursor, feedId: (await findFeed(feed))?.id };
+
+    res.send(await rssModule.importHistory.list(query));
+}));
+
+api.route({
+    method: "get",
+    path: "/api/imports/:id",
+    operationId: "getImport",
+    summary: "Get the report of an import, including why each rejected item was rejected and the imported content",
+    tag: "Imports",
+    role: "reader",
+    request: importReportSchema,
+    responses: { 200: json("The report of the import", "ImportReportWithContent") },
+}, asyncHandler(async (req: Request, res: Response) => {
+    const report = await rssModule.importHistory.find(res.locals.params.id);
+
+    if (!report) {
+        throw new NotFound("Import not found");
+    }
+
+    res.send(report);
+}));
+
+api.route({
+    method: "get",
+    path: "/api/feeds",
+    operationId: "listFeeds",
+    summary: "Get the registered RSS feeds",
+    tag: "Feeds",
+    role: "reader",
+    responses: { 200: { description: "The feeds", content: { "application/json": { type: "array", items: { $ref: "#/components/schemas/Feed" } } } } },
+}, asyncHandler(async (req: Request, res: Response) => {
+    res.send(await rssModule.feedRegistry.all());
+}));
+
+api.route({
+    method: "post",
+    path: "/api/feeds",
+    operationId: "createFeed",
+    summary: "Register a new RSS feed",
+    tag: "Feeds",
+    role: "admin",
+    request: createFeedSchema,
+    responses: { 201: json("The registered feed", "Feed"), 409: problem("A feed with this URL is already registered") },
+}, asyncHandler(async (req: Request, res: Response) => {
+    const feed = await rssModule.feedRegistry.create(res.locals.body as FeedAttributes).catch((error) => {
+        throw feedConflict(error);
+    });
+
+    await scheduler.refresh();
+    res.status(201).send(feed);
+}));
+
+api.route({
+    method: "patch",
+    path: "/api/feeds/:id",
+    operationId: "updateFeed",
+    summary: "Update a registered RSS feed. Only the given attributes are changed",
+    tag: "Feeds",
+    role: "admin",
+    request: updateFeedSchema,
+    responses: { 200: json("The updated feed", "Feed"), 409: problem("A feed with this URL is already registered") },
+}, asyncHandler(async (req: Request, res: Response) => {
+    const feed = await rssModule.feedRegistry.update(res.locals.params.id, res.locals.body as Partial<FeedAttributes>).catch((error) => {
+        throw feedConflict(error);
+    });
+
+    await scheduler.refresh();
+
+    if (!feed) {
+        throw new NotFound("Feed not found");
+    }
+
+    res.send(feed);
+}));
+
+api.route({
+    method: "delete",
+    path: "/api/feeds/:id",
+    operationId: "deleteFeed",
+    summary: "Remove a registered RSS feed, along with its articles and import history",
+    tag: "Feeds",
+    role: "admin",
+    request: deleteFeedSchema,
+    responses: { 204: { description: "The feed was removed" } },
+}, asyncHandler(async (req: Request, res: Response) => {
+    const deleted = await rssModule.feedRegistry.delete(res.locals.params.id);
+    await scheduler.refresh();
+
+    if (!deleted) {
+        throw new NotFound("Feed not found");
+    }
+
+    res.status(204).send();
+}));
+
+api.route({
+    method: "get",
+    path: "/api/scheduler/status",
+    operationId: "getSchedulerStatus",
+    summary: "Get when each feed was last imported in the background, whether that succeeded, and when it will next be imported",
+    tag: "Feeds",
+    role: "reader",
+    responses: { 200: json("The state of the background imports", "SchedulerStatus") },
+}, (req: Request, res: Response) => {
+    res.send({
+        started: scheduler.started,
+        feeds: scheduler.status(),
+    });
+});
+
+api.route({
+    method: "get",
+    path: "/api/keys",
+    operationId: "listApiKeys",
+    summary: "Get the API keys, including the revoked ones",
+    description: "The keys themselves aren't stored, only the start of each key is returned",
+    tag: "API keys",
+    role: "admin",
+    responses: { 200: { description: "The keys", content: { "application/json": { type: "array", items: { $ref: "#/components/schemas/ApiKey" } } } } },
+}, asyncHandler(async (req: Request, res: Response) => {
+    res.send(await apiKeys.all());
+}));
+
+api.route({
+    method: "post",
+    path: "/api/keys",
+    operationId: "createApiKey",
+    summary: "Create an API key. The response is the only time the key is shown",
+    tag: "API keys",
+    role: "admin",
+    request: createApiKeySchema,
+    responses: { 201: json("The key", "NewApiKey") },
+}, asyncHandler(async (req: Request, res: Response) => {
+    // The response is the only time the key itself is sent, since only its hash is stored
+    res.status(201).send(await apiKeys.create(res.locals.body.name.trim(), res.locals.body.role as Role));
+}));
+
+api.route({
+    method: "delete",
+    path: "/api/keys/:id",
+    operationId: "revokeApiKey",
+    summary: "Revoke an API key. It is kept in the list, but can't be used anymore",
+    tag: "API keys",
+    role: "admin",
+    request: revokeApiKeySchema,
+    responses: { 200: json("The revoked key", "ApiKey") },
+}, asyncHandler(async (req: Request, res: Response) => {
+    const apiKey = await apiKeys.revoke(res.locals.params.id);
+
+    if (!apiKey) {
+        throw new NotFound("API key not found");
+    }
+
+    res.send(apiKey);
+}));
+
+api.route({
+    method: "get",
+    path: "/api/analytics/keywords",
+    operationId: "getTrendingKeywords",
+    summary: "Get the trending keywords",
+    description: "The words that appear in the titles and descriptions of the most articles published within a time window, without stop words",
+    tag: "Analytics",
+    role: "reader",
+    request: keywordSchema,
+    responses: { 200: json("The trending keywords, most frequent first", "KeywordTrends") },
+}, asyncHandler(async (req: Request, res: Response) => {
+    const query: KeywordQuery = { ...res.locals.query, ...keywordWindow(res.locals.query), feed: await findFeed(res.locals.query.feed) };
+
+    res.send(await rssModule.keywordTrends(query));
+}));
+
+// Anything that didn't match a route, and every error, is answered with a problem document
+app.use(notFoundHandler);
+app.use(errorHandler);
+
+const server = app.listen(config.port, () => logger.info("Server running", { port: config.port }));
+
+// The tests import the app, and shouldn't have feeds being imported in the background while they run
+if (process.env.NODE_ENV !== "test") {
+    scheduler.start().catch((error) => logger.error("Could not start the scheduler", { error }));
 }
 
-const server = app.listen(port, () => console.log(`Server running on port ${port}`));
+server.on("close", () => scheduler.stop());
 
 export default server;
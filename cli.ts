@@ -0,0 +1,7 @@
+import { Cli } from "./src/classes/Cli.js"
+import { pool } from "./src/database/pool.js"
+
+// Operate the app from the command line, see Cli for the commands. The exit code is set rather than exiting straight away, so that the output is flushed first.
+process.exitCode = await new Cli().run(process.argv.slice(2))
+
+await pool.end()
@@ -1,13 +1,22 @@
-import { migrate } from "postgres-migrations"
-import dbConfig from "./src/config/database.js"
+import { runMigrations } from "./src/database/migrations.js"
+import config from "./src/config/config.js"
+import { pool } from "./src/database/pool.js"
 
 const runMigration = async () => {
 
     console.log("Running migrations...")
 
-    await migrate(dbConfig, "./migrations")
+    const { addedFeeds, addedAdminKey } = await runMigrations("./migrations")
+
+    console.log(`Added ${addedFeeds} of the ${config.feeds.length} configured feeds`)
+
+    if (addedAdminKey) {
+        console.log("Added the configured admin key")
+    }
+
+    await pool.end()
 
     console.log("Done")
 }
 
-runMigration()
\ No newline at end of file
+runMigration()
@@ -0,0 +1,26 @@
+-- Table apiKeys (the keys that can call the API):
+
+-- id int auto increment
+-- name TEXT => what the key is for, so that it can be recognized when revoking it
+-- role VARCHAR(20) => reader (can read the articles, feeds and imports) or admin (can also import and manage the feeds and keys)
+-- prefix VARCHAR(20) => the start of the key, to tell keys apart without storing them
+-- keyHash CHAR(64) => the SHA-256 of the key, in hexadecimal. The key itself is only shown once, when it is created
+-- createdAt datetime
+-- lastUsedAt datetime => when the key was last used
+-- revokedAt datetime => when the key was revoked. Revoked keys are kept so that the history of who had access remains
+
+-- Using PostgreSQL
+
+CREATE TABLE IF NOT EXISTS apiKeys (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('reader', 'admin')),
+  prefix VARCHAR(20) NOT NULL,
+  keyHash CHAR(64) NOT NULL,
+  createdAt TIMESTAMP NOT NULL DEFAULT now(),
+  lastUsedAt TIMESTAMP,
+  revokedAt TIMESTAMP
+);
+
+-- Keys are looked up by their hash on every request
+CREATE UNIQUE INDEX IF NOT EXISTS apiKeys_keyHash_uindex ON apiKeys (keyHash);
@@ -0,0 +1,62 @@
+-- Recognize the articles that are republished under a new guid, and group the articles of every feed that cover the same story.
+
+-- articles.canonicalLink TEXT => the link without its tracking parameters, which stays the same when an article is republished
+-- articles.contentHash CHAR(64) => the SHA-256 of the normalized title and description, in hexadecimal
+-- articles.minHash INT[] => the MinHash signature of the words of the title and description, to estimate how similar two articles are. Null when there are too few words to tell.
+-- imports.duplicates INT => the number of items that were skipped as republished articles
+
+-- Table stories (the groups of articles about the same story):
+
+-- id int auto increment
+-- createdAt datetime
+-- updatedAt datetime => when an article was last added to the story
+
+-- Table storyArticles (the articles of each story, an article being in at most one story):
+
+-- articleId int
+-- storyId int
+-- similarity REAL => how similar the article was to the article it was grouped with, between 0 and 1
+-- addedAt datetime
+
+-- Table articleBands (the locality-sensitive hashes of the signatures):
+
+-- articleId int
+-- band SMALLINT => which part of the signature was hashed
+-- hash INT => the hash of that part. Articles with the same hash for a band are likely to be similar, which is how the candidates are found without comparing every pair of articles
+
+-- Using PostgreSQL
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS canonicalLink TEXT;
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS contentHash CHAR(64);
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS minHash INT[];
+
+-- The republished articles are looked for within the feed they come from
+CREATE INDEX IF NOT EXISTS articles_feedId_canonicalLink_index ON articles (feedId, canonicalLink);
+CREATE INDEX IF NOT EXISTS articles_feedId_contentHash_index ON articles (feedId, contentHash);
+
+ALTER TABLE imports ADD COLUMN IF NOT EXISTS duplicates INT NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS stories (
+  id SERIAL PRIMARY KEY,
+  createdAt TIMESTAMP NOT NULL DEFAULT now(),
+  updatedAt TIMESTAMP NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS storyArticles (
+  articleId INT PRIMARY KEY REFERENCES articles (id) ON DELETE CASCADE,
+  storyId INT NOT NULL REFERENCES stories (id) ON DELETE CASCADE,
+  similarity REAL NOT NULL,
+  addedAt TIMESTAMP NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS storyArticles_storyId_index ON storyArticles (storyId);
+
+CREATE TABLE IF NOT EXISTS articleBands (
+  articleId INT NOT NULL REFERENCES articles (id) ON DELETE CASCADE,
+  band SMALLINT NOT NULL,
+  hash INT NOT NULL,
+  PRIMARY KEY (band, hash, articleId)
+);
+
+-- Deleting an article deletes its bands
+CREATE INDEX IF NOT EXISTS articleBands_articleId_index ON articleBands (articleId);
@@ -0,0 +1,7 @@
+-- Limit the poll interval of the feeds to a week. Timers can't wait longer than about 24.8 days, and a longer delay makes them fire right away, which would import the feed over and over.
+
+-- Using PostgreSQL
+
+UPDATE feeds SET pollInterval = 604800 WHERE pollInterval > 604800;
+ALTER TABLE feeds DROP CONSTRAINT IF EXISTS feeds_pollinterval_check;
+ALTER TABLE feeds ADD CONSTRAINT feeds_pollinterval_check CHECK (pollInterval > 0 AND pollInterval <= 604800);
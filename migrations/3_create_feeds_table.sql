@@ -0,0 +1,31 @@
+-- Table feeds (the registry of RSS feeds we're allowed to import):
+
+-- id int auto increment
+-- url TEXT => the URL of the RSS feed
+-- name TEXT => a human readable name for the feed
+-- primaryKey VARCHAR(100) => the item property that uniquely identifies an article in this feed
+-- enabled BOOLEAN => disabled feeds are kept, but can't be imported
+-- createdAt datetime
+-- updatedAt datetime
+
+-- Using PostgreSQL
+
+CREATE TABLE IF NOT EXISTS feeds (
+  id SERIAL PRIMARY KEY,
+  url TEXT NOT NULL,
+  name TEXT NOT NULL,
+  -- Most feeds use "guid", so that is the default, but it can be overridden per feed
+  primaryKey VARCHAR(100) NOT NULL DEFAULT 'guid',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  createdAt TIMESTAMP NOT NULL DEFAULT now(),
+  updatedAt TIMESTAMP NOT NULL DEFAULT now()
+);
+
+-- The same feed should only be registered once
+CREATE UNIQUE INDEX IF NOT EXISTS feeds_url_uindex ON feeds (url);
+
+-- Seed the registry with the feeds that used to be hardcoded in the RssModule class
+INSERT INTO feeds (url, name) VALUES
+  ('https://www.lemonde.fr/rss/une.xml', 'Le Monde'),
+  ('https://www.theguardian.com/world/europe-news/rss', 'The Guardian - Europe')
+ON CONFLICT (url) DO NOTHING;
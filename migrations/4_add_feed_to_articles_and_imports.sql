@@ -0,0 +1,17 @@
+-- Link every article and import to the feed it came from.
+
+-- articles.feedId INT => the feed the article was imported from
+-- imports.feedId INT => the feed that was requested
+-- imports.url TEXT => the URL that was requested, kept even if the feed is later changed
+
+-- Using PostgreSQL
+
+-- Rows imported before this migration don't have a known source, so the columns are nullable. Removing a feed removes its history with it - disable the feed instead to keep it.
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS feedId INT REFERENCES feeds (id) ON DELETE CASCADE;
+
+ALTER TABLE imports ADD COLUMN IF NOT EXISTS feedId INT REFERENCES feeds (id) ON DELETE CASCADE;
+ALTER TABLE imports ADD COLUMN IF NOT EXISTS url TEXT;
+
+-- Two publishers can use the same guid, so externalId is only unique within a feed
+DROP INDEX IF EXISTS articles_externalId_uindex;
+CREATE UNIQUE INDEX IF NOT EXISTS articles_feedId_externalId_uindex ON articles (feedId, externalId);
@@ -0,0 +1,10 @@
+-- Indexes for the keyset pagination of the articles endpoint. Each index ends with the id so that rows with the same date are still in a stable order, and Postgres can scan them in either direction so we don't need separate ascending and descending indexes.
+
+-- Using PostgreSQL
+
+CREATE INDEX IF NOT EXISTS articles_publicationDate_id_index ON articles (publicationDate, id);
+CREATE INDEX IF NOT EXISTS articles_importDate_id_index ON articles (importDate, id);
+
+-- When filtering by feed, the feed comes first
+CREATE INDEX IF NOT EXISTS articles_feedId_publicationDate_id_index ON articles (feedId, publicationDate, id);
+CREATE INDEX IF NOT EXISTS articles_feedId_importDate_id_index ON articles (feedId, importDate, id);
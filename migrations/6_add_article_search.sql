@@ -0,0 +1,22 @@
+-- Full-text search over the titles and descriptions of the articles.
+
+-- feeds.language VARCHAR(35) => overrides the language the feed declares itself (e.g. "fr", "en-GB")
+-- articles.language VARCHAR(35) => the language of the article, if known
+-- articles.searchConfig REGCONFIG => the text search configuration used to stem the article, chosen from its language when it is imported
+-- articles.searchVector TSVECTOR => generated from the title (weighted higher) and the description
+
+-- Using PostgreSQL
+
+ALTER TABLE feeds ADD COLUMN IF NOT EXISTS language VARCHAR(35);
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS language VARCHAR(35);
+
+-- The "simple" configuration doesn't stem or remove stop words, so it is a safe default for articles in an unknown language
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS searchConfig REGCONFIG NOT NULL DEFAULT 'simple';
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS searchVector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector(searchConfig, coalesce(title, '')), 'A') ||
+  setweight(to_tsvector(searchConfig, coalesce(description, '')), 'B')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS articles_searchVector_index ON articles USING GIN (searchVector);
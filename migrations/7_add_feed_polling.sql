@@ -0,0 +1,13 @@
+-- Columns for the background polling of the feeds.
+
+-- pollInterval INT => seconds between two imports of the feed, null to use the scheduler's default
+-- lastSuccessAt datetime => when the feed was last imported successfully
+-- lastErrorAt datetime => when importing the feed last failed
+-- lastError TEXT => why importing the feed last failed
+
+-- Using PostgreSQL
+
+ALTER TABLE feeds ADD COLUMN IF NOT EXISTS pollInterval INT CHECK (pollInterval > 0);
+ALTER TABLE feeds ADD COLUMN IF NOT EXISTS lastSuccessAt TIMESTAMP;
+ALTER TABLE feeds ADD COLUMN IF NOT EXISTS lastErrorAt TIMESTAMP;
+ALTER TABLE feeds ADD COLUMN IF NOT EXISTS lastError TEXT;
@@ -0,0 +1,9 @@
+-- Remember the cache validators of the last import of each feed, so that the next import can ask the publisher whether the feed changed instead of downloading it again.
+
+-- etag TEXT => the ETag header of the last imported response
+-- lastModified TEXT => the Last-Modified header of the last imported response, kept as the publisher sent it
+
+-- Using PostgreSQL
+
+ALTER TABLE feeds ADD COLUMN IF NOT EXISTS etag TEXT;
+ALTER TABLE feeds ADD COLUMN IF NOT EXISTS lastModified TEXT;
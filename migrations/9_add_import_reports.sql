@@ -0,0 +1,27 @@
+-- Store a report of every import, rather than just its raw content.
+
+-- status VARCHAR(20) => success, partial (some items were rejected) or failed
+-- durationMs INT => how long the import took
+-- itemCount INT => the number of items in the feed
+-- inserted, updated, unchanged, rejected INT => what happened to the items
+-- rejections JSONB => the rejected items and why they were rejected
+-- error TEXT => why the import failed, if it did
+
+-- Using PostgreSQL
+
+-- A failed import may not have any content, for example when the feed couldn't be downloaded
+ALTER TABLE imports ALTER COLUMN rawContent DROP NOT NULL;
+
+-- Imports from before this migration were only stored when they succeeded
+ALTER TABLE imports ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'success';
+ALTER TABLE imports ADD COLUMN IF NOT EXISTS durationMs INT;
+ALTER TABLE imports ADD COLUMN IF NOT EXISTS itemCount INT NOT NULL DEFAULT 0;
+ALTER TABLE imports ADD COLUMN IF NOT EXISTS inserted INT NOT NULL DEFAULT 0;
+ALTER TABLE imports ADD COLUMN IF NOT EXISTS updated INT NOT NULL DEFAULT 0;
+ALTER TABLE imports ADD COLUMN IF NOT EXISTS unchanged INT NOT NULL DEFAULT 0;
+ALTER TABLE imports ADD COLUMN IF NOT EXISTS rejected INT NOT NULL DEFAULT 0;
+ALTER TABLE imports ADD COLUMN IF NOT EXISTS rejections JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE imports ADD COLUMN IF NOT EXISTS error TEXT;
+
+-- The history is browsed newest first, optionally for a single feed
+CREATE INDEX IF NOT EXISTS imports_feedId_id_index ON imports (feedId, id);
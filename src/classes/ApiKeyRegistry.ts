@@ -0,0 +1,136 @@
+import crypto from "crypto";
+import { runQuery } from "./../database/pool.js";
+
+/**
+ * What a key is allowed to do. Readers can read the articles, feeds and imports; admins can also import feeds and manage the feeds and keys.
+ */
+export type Role = "reader" | "admin";
+
+export const roles: Role[] = ["reader", "admin"];
+
+/**
+ * An API key as it is stored. The key itself isn't stored, only its hash.
+ */
+export interface ApiKey {
+    id: number;
+    name: string;
+    role: Role;
+    // The start of the key, so that users can tell their keys apart
+    prefix: string;
+    createdAt: Date;
+    lastUsedAt: Date | null;
+    revokedAt: Date | null;
+}
+
+// Postgres folds unquoted column names to lowercase, so we alias them back to camelCase to match the ApiKey interface. The hash never leaves this class.
+const columns = 'id, name, role, prefix, createdAt AS "createdAt", lastUsedAt AS "lastUsedAt", revokedAt AS "revokedAt"';
+
+// Every key starts with this, so that a leaked key can be recognized, for example by secret scanners
+const keyPrefix = "rss_";
+
+// Seconds between two updates of when a key was last used, so that busy keys don't cause a write on every request
+const lastUsedPrecision = 60;
+
+/**
+ * A class for managing the API keys.
+ *
+ * Keys are 32 random bytes, so unlike passwords they can't be guessed, and a fast hash (SHA-256) is enough to make a leaked database useless. It also lets us look a key up by its hash, rather than comparing it against every stored key with a slow password hash.
+ */
+export class ApiKeyRegistry {
+
+    /**
+     * Get all the keys, including the revoked ones
+     *
+     * @returns {Promise<ApiKey[]>}
+     */
+    all = async (): Promise<ApiKey[]> => {
+        return await runQuery(`SELECT ${columns} FROM apiKeys ORDER BY id`);
+    }
+
+    /**
+     * Create a new key
+     *
+     * @param {string} name What the key is for
+     * @param {Role} role
+     * @returns {Promise<ApiKey & { key: string }>} The stored key, and the key itself. This is the only time the key is available, so it must be given to the user now.
+     */
+    create = async (name: string, role: Role): Promise<ApiKey & { key: string }> => {
+        const key = keyPrefix + crypto.randomBytes(32).toString("base64url");
+        const rows = await runQuery(
+            `INSERT INTO apiKeys (name, role, prefix, keyHash) VALUES ($1, $2, $3, $4) RETURNING ${columns}`,
+            [name, role, this.prefixOf(key), this.hash(key)]
+        );
+
+        return { ...rows[0], key };
+    }
+
+    /**
+     * Store a key that was chosen elsewhere, such as the admin key in the configuration, unless it is already stored
+     *
+     * @param {string} key
+     * @param {string} name
+     * @param {Role} role
+     * @returns {Promise<boolean>} Whether the key was added
+     */
+    seed = async (key: string, name: string, role: Role): Promise<boolean> => {
+        const rows = await runQuery(
+            'INSERT INTO apiKeys (name, role, prefix, keyHash) VALUES ($1, $2, $3, $4) ON CONFLICT (keyHash) DO NOTHING RETURNING id',
+            [name, role, this.prefixOf(key), this.hash(key)]
+        );
+
+        return rows.length > 0;
+    }
+
+    /**
+     * Find the key that was sent with a request, and remember that it was used
+     *
+     * @param {string} key
+     * @returns {Promise<ApiKey | null>} The key, or null if it doesn't exist or was revoked
+     */
+    authenticate = async (key: string): Promise<ApiKey | null> => {
+        const rows = await runQuery(`SELECT ${columns} FROM apiKeys WHERE keyHash = $1 AND revokedAt IS NULL`, [this.hash(key)]);
+        const apiKey: ApiKey | undefined = rows[0];
+
+        if (!apiKey) {
+            return null;
+        }
+
+        if (!apiKey.lastUsedAt || Date.now() - new Date(apiKey.lastUsedAt).getTime() > lastUsedPrecision * 1000) {
+            await runQuery('UPDATE apiKeys SET lastUsedAt = now() WHERE id = $1', [apiKey.id]);
+        }
+
+        return apiKey;
+    }
+
+    /**
+     * Revoke a key. It is kept, but can't be used anymore.
+     *
+     * @param {number} id
+     * @returns {Promise<ApiKey | null>} The revoked key, or null if it doesn't exist
+     */
+    revoke = async (id: number): Promise<ApiKey | null> => {
+        const rows = await runQuery(`UPDATE apiKeys SET revokedAt = COALESCE(revokedAt, now()) WHERE id = $1 RETURNING ${columns}`, [id]);
+
+        return rows[0] ?? null;
+    }
+
+    /**
+     * Hash a key for storing or looking it up
+     *
+     * @param {string} key
+     * @returns {string} The SHA-256 of the key, in hexadecimal
+     */
+    private hash = (key: string): string => {
+        return crypto.createHash("sha256").update(key).digest("hex");
+    }
+
+    /**
+     * Get the part of a key that is stored as is, to tell keys apart
+     *
+     * @param {string} key
+     * @returns {string}
+     */
+    private prefixOf = (key: string): string => {
+        return key.slice(0, keyPrefix.length + 6);
+    }
+}
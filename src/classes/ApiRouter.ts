@@ -0,0 +1,337 @@
+import { Express, RequestHandler } from "express";
+import { Role } from "./ApiKeyRegistry.js";
+import { validate } from "./../middleware/validate.js";
+import { Field, RequestSchema } from "./../utils/schema.js";
+
+/**
+ * A JSON Schema, as used by OpenAPI 3.1
+ *
+ * @see https://json-schema.org/draft/2020-12/json-schema-core
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * One of the responses a route can send
+ */
+export interface RouteResponse {
+    description: string;
+    // The schema of the body, by media type. Most routes only send JSON.
+    content?: Record<string, JsonSchema>;
+    headers?: Record<string, { description: string, schema: JsonSchema }>;
+}
+
+/**
+ * A route of the API, along with everything needed to document it
+ */
+export interface Route {
+    method: "get" | "post" | "patch" | "delete";
+    // The path, in the Express syntax (/api/feeds/:id)
+    path: string;
+    // A unique name for the route, which SDK generators turn into method names
+    operationId: string;
+    summary: string;
+    description?: string;
+    // Groups the routes in the documentation
+    tag: string;
+    // The role of the API key the route needs. Routes that readers can call may be public, depending on the configuration. null for routes that never need a key.
+    role: Role | null;
+    request?: RequestSchema;
+    // The successful responses. The error responses are added from the role and the request schema.
+    responses: Record<number, RouteResponse>;
+}
+
+/**
+ * An OpenAPI 3.1 document
+ *
+ * @see https://spec.openapis.org/oas/v3.1.0
+ */
+export interface OpenApiDocument {
+    openapi: string;
+    info: { title: string, version: string, description: string };
+    tags: { name: string }[];
+    paths: Record<string, Record<string, any>>;
+    components: { schemas: Record<string, JsonSchema>, securitySchemes: Record<string, unknown> };
+}
+
+/**
+ * The summary of the endpoints that GET / sends, for people exploring the API
+ */
+export interface EndpointSummary {
+    endpoint: string;
+    method: string;
+    description: string;
+    role?: Role;
+    parameters?: { name: string, in: string, description: string, required: boolean }[];
+}
+
+/**
+ * A class for declaring the routes of the API, so that the same declaration both sets up the route and documents it. The documentation can't drift from the routes, since they are one and the same.
+ *
+ * Each route gets the middleware that checks its API key and validates its request against its schema, so the handler only deals with valid requests. The schemas of the responses are components of the document, which the routes refer to.
+ */
+export class ApiRouter {
+
+    /**
+     * The declared routes, in the order they were declared
+     *
+     * @type {Route[]}
+     */
+    routes: Route[] = [];
+
+    /**
+     * @param {Express} app
+     * @param {Record<Role, RequestHandler>} authorizers The middleware that checks the API key, for each role
+     * @param {OpenApiDocument["info"]} info
+     * @param {Record<string, JsonSchema>} schemas The schemas the responses refer to, as #/components/schemas/<name>. It must include the Problem schema of the errors.
+     */
+    constructor(
+        private app: Express,
+        private authorizers: Record<Role, RequestHandler>,
+        private info: OpenApiDocument["info"],
+        private schemas: Record<string, JsonSchema>,
+    ) {}
+
+    /**
+     * Declare a route, and set it up in the app
+     *
+     * @param {Route} route
+     * @param {RequestHandler} handler Called once the API key and the request are valid
+     */
+    route = (route: Route, handler: RequestHandler): void => {
+        this.routes.push(route);
+
+        const middleware: RequestHandler[] = [];
+
+        if (route.role) {
+            middleware.push(this.authorizers[route.role]);
+        }
+
+        if (route.request) {
+            middleware.push(validate(route.request));
+        }
+
+        this.app[route.method](route.path, ...middleware, handler);
+    }
+
+    /**
+     * Generate the OpenAPI document of the declared routes
+     *
+     * @param {boolean} publicReads Whether the routes for readers can be called without a key, which changes their security requirements
+     * @returns {OpenApiDocument}
+     */
+    document = (publicReads: boolean): OpenApiDocument => {
+        const paths: OpenApiDocument["paths"] = {};
+
+        for (const route of this.routes) {
+            // Express writes the path parameters as :id, OpenAPI as {id}
+            const path = route.path.replace(/:(\w+)/g, "{$1}");
+
+            paths[path] = { ...paths[path], [route.method]: this.operation(route, publicReads) };
+        }
+
+        return {
+            openapi: "3.1.0",
+            info: this.info,
+            tags: [...new Set(this.routes.map((route) => route.tag))].map((name) => ({ name })),
+            paths,
+            components: {
+                schemas: this.schemas,
+                securitySchemes: {
+                    apiKey: { type: "http", scheme: "bearer", description: "An API key, sent in the Authorization header as Bearer <key>" },
+                },
+            },
+        };
+    }
+
+    /**
+     * Summarize the endpoints of an OpenAPI document: what each does, who can call it and what parameters it takes
+     *
+     * @param {OpenApiDocument} document
+     * @returns {EndpointSummary[]}
+     */
+    summarize = (document: OpenApiDocument): EndpointSummary[] => {
+        const endpoints: EndpointSummary[] = [];
+
+        for (const [path, operations] of Object.entries(document.paths)) {
+            for (const [method, operation] of Object.entries(operations)) {
+                const body = operation.requestBody?.content["application/json"].schema;
+                const parameters = [
+                    ...(operation.parameters ?? []).map((parameter: any) => ({ name: parameter.name, in: parameter.in, description: parameter.description, required: parameter.required })),
+                    ...Object.entries(body?.properties ?? {}).map(([name, property]: [string, any]) => ({ name, in: "body", description: property.description, required: (body.required ?? []).includes(name) })),
+                ];
+
+                endpoints.push({
+                    endpoint: path,
+                    method: method.toUpperCase(),
+                    description: operation.summary,
+                    ...(operation["x-role"] === "admin" ? { role: "admin" as const } : {}),
+                    ...(parameters.length > 0 ? { parameters } : {}),
+                });
+            }
+        }
+
+        return endpoints;
+    }
+
+    /**
+     * Generate the OpenAPI operation of a route
+     *
+     * @param {Route} route
+     * @param {boolean} publicReads
+     * @returns {Record<string, unknown>}
+     */
+    private operation = (route: Route, publicReads: boolean): Record<string, unknown> => {
+        const request = route.request ?? {};
+        const parameters = [
+            ...Object.entries(request.params ?? {}).map(([name, field]) => this.parameter(name, field, "path")),
+            ...Object.entries(request.query ?? {}).map(([name, field]) => this.parameter(name, field, "query")),
+        ];
+
+        const responses: Record<string, unknown> = {};
+
+        for (const [status, response] of Object.entries(route.responses)) {
+            responses[status] = {
+                description: response.description,
+                ...(response.headers ? { headers: response.headers } : {}),
+                ...(response.content ? { content: Object.fromEntries(Object.entries(response.content).map(([type, schema]) => [type, { schema }])) } : {}),
+            };
+        }
+
+        // Every error is sent as a problem document
+        const problem = (description: string) => ({ description, content: { "application/problem+json": { schema: { $ref: "#/components/schemas/Problem" } } } });
+
+        if (request.body) {
+            responses["400"] = problem("The body is not valid JSON");
+        }
+
+        if (route.role) {
+            responses["401"] = problem("The API key is missing, malformed, invalid or revoked");
+        }
+
+        if (route.role === "admin") {
+            responses["403"] = problem("The API key is not an admin key");
+        }
+
+        if (request.params) {
+            responses["404"] = problem("There is nothing at this path");
+        }
+
+        if (request.query || request.body) {
+            responses["422"] = problem("The parameters are invalid. Every invalid parameter is listed in errors");
+        }
+
+        // Whatever else went wrong, such as the database being unavailable (503)
+        responses.default = problem("An unexpected error");
+
+        let security: Record<string, string[]>[] = [];
+
+        if (route.role === "admin" || (route.role === "reader" && !publicReads)) {
+            security = [{ apiKey: [] }];
+        } else if (route.role === "reader") {
+            // The key is optional, but is checked when it is sent
+            security = [{}, { apiKey: [] }];
+        }
+
+        return {
+            operationId: route.operationId,
+            summary: route.summary,
+            ...(route.description ? { description: route.description } : {}),
+            tags: [route.tag],
+            "x-role": route.role,
+            security,
+            ...(parameters.length > 0 ? { parameters } : {}),
+            ...(request.body ? { requestBody: this.requestBody(request) } : {}),
+            responses,
+        };
+    }
+
+    /**
+     * Generate the OpenAPI parameter of a path or query parameter
+     *
+     * @param {string} name
+     * @param {Field} field
+     * @param {"path" | "query"} location
+     * @returns {Record<string, unknown>}
+     */
+    private parameter = (name: string, field: Field, location: "path" | "query"): Record<string, unknown> => {
+        return {
+            name,
+            in: location,
+            description: field.description,
+            // Path parameters are always required, since the route wouldn't match without them
+            required: location === "path" || Boolean(field.required),
+            schema: fieldSchema(field),
+        };
+    }
+
+    /**
+     * Generate the OpenAPI request body of a request schema. The body is optional when the schema also accepts its parameters in the query string.
+     *
+     * @param {RequestSchema} request
+     * @returns {Record<string, unknown>}
+     */
+    private requestBody = (request: RequestSchema): Record<string, unknown> => {
+        const fields = Object.entries(request.body ?? {});
+        const required = fields.filter(([, field]) => field.required).map(([name]) => name);
+
+        return {
+            required: !fields.some(([name]) => request.query?.[name] !== undefined),
+            content: {
+                "application/json": {
+                    schema: {
+                        type: "object",
+                        properties: Object.fromEntries(fields.map(([name, field]) => [name, fieldSchema(field)])),
+                        ...(required.length > 0 ? { required } : {}),
+                    },
+                },
+            },
+        };
+    }
+}
+
+/**
+ * Convert a request parameter into a JSON Schema
+ *
+ * @param {Field} field
+ * @returns {JsonSchema}
+ */
+export const fieldSchema = (field: Field): JsonSchema => {
+    const types: Record<Field["type"], JsonSchema> = {
+        string: { type: "string", minLength: 1 },
+        integer: { type: "integer" },
+        number: { type: "number" },
+        boolean: { type: "boolean" },
+        date: { type: "string", format: "date-time" },
+        url: { type: "string", format: "uri", pattern: "^[hH][tT][tT][pP][sS]?://" },
+    };
+
+    const schema: JsonSchema = { ...types[field.type], description: field.description };
+    const numeric = field.type === "integer" || field.type === "number";
+
+    if (field.min !== undefined) {
+        schema[numeric ? "minimum" : "minLength"] = field.min;
+    }
+
+    if (field.max !== undefined) {
+        schema[numeric ? "maximum" : "maxLength"] = field.max;
+    }
+
+    if (field.enum) {
+        schema.enum = [...field.enum];
+        delete schema.minLength;
+    }
+
+    if (field.pattern) {
+        schema.pattern = field.pattern.source;
+    }
+
+    if (field.default !== undefined) {
+        schema.default = field.default;
+    }
+
+    if (field.nullable) {
+        schema.type = [schema.type, "null"];
+    }
+
+    return schema;
+}
@@ -0,0 +1,79 @@
+import { Readable } from 'stream';
+import { RssFormatter } from "./formatters/RssFormatter.js";
+import { AtomFormatter } from "./formatters/AtomFormatter.js";
+import { JsonFeedFormatter } from "./formatters/JsonFeedFormatter.js";
+import { CsvFormatter } from "./formatters/CsvFormatter.js";
+
+/**
+ * The formats the articles can be exported as
+ */
+export type ExportFormat = "rss" | "atom" | "json" | "csv";
+
+/**
+ * What the exported feed as a whole is about
+ */
+export interface ExportChannel {
+    title: string;
+    description: string;
+    // The page the feed is about, which here is the list of articles
+    link: string;
+    // The URL the export itself can be downloaded from
+    selfUrl: string;
+    updated: Date;
+}
+
+/**
+ * Writes articles in one format
+ */
+export interface ArticleFormatter {
+    contentType: string;
+    // Set for formats that are downloaded rather than read by a feed reader
+    filename?: string;
+
+    /**
+     * Render the articles, piece by piece, so that only one article needs to be in memory at a time
+     */
+    render(articles: AsyncIterable<any>, channel: ExportChannel): AsyncGenerator<string>;
+}
+
+/**
+ * A class for exporting articles as RSS, Atom, JSON Feed or CSV, so that the aggregated articles can be read in any feed reader or spreadsheet.
+ *
+ * The output is streamed: each article is written as soon as it's read from the database, so exporting every article doesn't mean holding all of them in memory.
+ */
+export class ArticleExporter {
+
+    /**
+     * The formatter of each format
+     *
+     * @type {Record<ExportFormat, ArticleFormatter>}
+     */
+    formatters: Record<ExportFormat, ArticleFormatter> = {
+        rss: new RssFormatter(),
+        atom: new AtomFormatter(),
+        json: new JsonFeedFormatter(),
+        csv: new CsvFormatter(),
+    };
+
+    /**
+     * Export articles
+     *
+     * @param {ExportFormat} format
+     * @param {AsyncIterable<any>} articles The articles as returned by RssModule.get
+     * @param {ExportChannel} channel
+     * @returns {Readable} The rendered export, ready to be piped into the response
+     */
+    export = (format: ExportFormat, articles: AsyncIterable<any>, channel: ExportChannel): Readable => {
+        return Readable.from(this.formatters[format].render(articles, channel));
+    }
+
+    /**
+     * Whether a format can be exported
+     *
+     * @param {string} format
+     * @returns {boolean}
+     */
+    isExportFormat = (format: string): format is ExportFormat => {
+        return Object.keys(this.formatters).includes(format);
+    }
+}
@@ -0,0 +1,625 @@
+import { once } from "events";
+import { parseArgs } from "util";
+import { Writable } from "stream";
+import { ImportPreview, RssModule } from "./RssModule.js";
+import { Feed } from "./FeedRegistry.js";
+import { ImportReport } from "./ImportHistory.js";
+import { FeedItem } from "./FeedParser.js";
+import { ArticleExporter } from "./ArticleExporter.js";
+import { HealthCheck } from "./HealthCheck.js";
+import { Conflict, HttpError, NotFound, isConnectionError, toHttpError } from "./HttpError.js";
+import { Logger } from "./Logger.js";
+import { Field, parseFields } from "./../utils/schema.js";
+import { checkUrl } from "./../utils/urls.js";
+import { runMigrations } from "./../database/migrations.js";
+import config, { maxPollInterval, minPollInterval } from "./../config/config.js";
+
+/**
+ * The exit codes of the command line. Scripts can rely on them rather than on the messages, which may change.
+ */
+export const exitCodes = {
+    // The command did what it was asked
+    ok: 0,
+    // The command was valid, but failed, such as an import that failed or a database that can't be reached
+    failed: 1,
+    // The command itself is invalid: unknown, or with missing or invalid arguments
+    usage: 2,
+} as const;
+
+/**
+ * Where the command line writes to
+ */
+export interface CliOutput {
+    // The results, which scripts read
+    stdout: Writable;
+    // The errors and the logs
+    stderr: Writable;
+}
+
+/**
+ * What a dry run of an import would do, with the items that would change
+ */
+export interface DryRun {
+    dryRun: true;
+    feedId: number;
+    url: string;
+    format: string;
+    itemCount: number;
+    inserted: Record<string, unknown>[];
+    updated: Record<string, unknown>[];
+    unchanged: number;
+    duplicates: Record<string, unknown>[];
+    rejections: ImportPreview["rejections"];
+}
+
+/**
+ * A command of the command line
+ */
+interface Command {
+    // The arguments and options, as they are shown in the usage
+    usage: string;
+    summary: string;
+    // The positional arguments, in the order they are given
+    args: Record<string, Field>;
+    // The options, by their name without the dashes. Boolean options are flags, which take no value.
+    options: Record<string, Field>;
+    run: (values: Record<string, any>, json: boolean) => Promise<number>;
+}
+
+/**
+ * The command isn't one we know, or its arguments are invalid. It is only an HttpError so that it can be written as a problem like the other errors.
+ */
+class InvalidCommand extends HttpError {
+    constructor(detail: string, usage: string | null = null) {
+        super(400, detail, "/problems/invalid-command", "The command is invalid", { usage });
+    }
+}
+
+/**
+ * Check that the server may fetch a URL, like the API does for the feeds it registers
+ *
+ * @param {string} name The name of the argument, for the message
+ */
+const fetchable = (name: string) => async (url: string): Promise<true | string> => {
+    const unsafe = await checkUrl(url, config.fetch);
+
+    return unsafe === true || `The ${name} argument can't be fetched. ${unsafe}`;
+}
+
+/**
+ * Lay out rows of text as a table, each column as wide as its widest value
+ *
+ * @param {string[][]} rows The first row is the header
+ * @returns {string}
+ */
+const table = (rows: string[][]): string => {
+    const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+
+    return rows.map((row) => row.map((value, column) => column === row.length - 1 ? value : value.padEnd(widths[column])).join("  ")).join("\n");
+}
+
+/**
+ * A class for operating the app from the command line, for cron jobs and for looking into problems without going through the API. It does what the API does, with the same classes, but isn't subject to the API keys: whoever can run it can read the configuration, database password included.
+ *
+ * Every command can write its result as JSON with --json, for scripts. Errors are then written as JSON too, as the same problem documents as the API, and the exit code says whether the command succeeded (see exitCodes).
+ */
+export class Cli {
+
+    /**
+     * Exports the articles
+     *
+     * @type {ArticleExporter}
+     */
+    articleExporter: ArticleExporter = new ArticleExporter();
+
+    /**
+     * Tells whether the database is up to date
+     *
+     * @type {HealthCheck}
+     */
+    healthCheck: HealthCheck;
+
+    /**
+     * Logs the imports to the error output, so that they don't mix with the results
+     *
+     * @type {Logger}
+     */
+    logger: Logger;
+
+    /**
+     * The commands, by their name
+     *
+     * @type {Record<string, Command>}
+     */
+    commands: Record<string, Command>;
+
+    /**
+     * @param {CliOutput} output
+     * @param {RssModule} rssModule
+     * @param {string} migrationsDirectory Where the migrations are, as given to postgres-migrations
+     */
+    constructor(
+        private output: CliOutput = { stdout: process.stdout, stderr: process.stderr },
+        public rssModule: RssModule = new RssModule(),
+        private migrationsDirectory: string = "./migrations",
+    ) {
+        this.healthCheck = new HealthCheck(migrationsDirectory);
+        this.logger = new Logger(config.log.level, { service: "rss-cli" }, (line) => this.output.stderr.write(line + "\n"));
+
+        this.commands = {
+            "feeds list": {
+                usage: "feeds list [--json]",
+                summary: "List the registered feeds, with how their last background import went",
+                args: {},
+                options: {},
+                run: this.listFeeds,
+            },
+            "feeds add": {
+                usage: "feeds add <url> --name <name> [--primary-key <key>] [--language <tag>] [--poll-interval <seconds>] [--disabled] [--json]",
+                summary: "Register a feed",
+                args: {
+                    url: { type: "url", required: true, description: "The URL of the feed", check: fetchable("url") },
+                },
+                options: {
+                    name: { type: "string", required: true, description: "A display name for the feed" },
+                    "primary-key": { type: "string", description: "The item property that uniquely identifies an article" },
+                    language: {
+                        type: "string",
+                        pattern: /^[a-zA-Z]{2,3}([-_][a-zA-Z0-9]{1,8})*$/,
+                        message: "The language option must be a language tag such as fr or en-GB",
+                        description: "Overrides the language the feed declares",
+                    },
+                    "poll-interval": { type: "integer", min: minPollInterval, max: maxPollInterval, description: "Seconds between two background imports of the feed" },
+                    disabled: { type: "boolean", description: "Register the feed without importing it yet" },
+                },
+                run: this.addFeed,
+            },
+            "feeds remove": {
+                usage: "feeds remove <id|url> [--json]",
+                summary: "Remove a feed, along with its articles and import history",
+                args: {
+                    feed: { type: "string", required: true, message: "The feed argument is required and must be the ID or URL of a feed", description: "The ID or URL of the feed" },
+                },
+                options: {},
+                run: this.removeFeed,
+            },
+            "import": {
+                usage: "import <url>|--all [--dry-run] [--json]",
+                summary: "Import a feed, or every enabled feed. With --dry-run, show what the import would change without saving anything",
+                args: {
+                    url: { type: "url", description: "The URL of the feed" },
+                },
+                options: {
+                    all: { type: "boolean", description: "Import every enabled feed" },
+                    "dry-run": { type: "boolean", description: "Only show what the import would change" },
+                },
+                run: this.importFeeds,
+            },
+            "articles export": {
+                usage: "articles export [--format csv|json|rss|atom] [--feed <id|url>] [--from <date>] [--to <date>] [--limit <n>]",
+                summary: "Write the articles to the output, newest first",
+                args: {},
+                options: {
+                    format: { type: "string", enum: Object.keys(this.articleExporter.formatters), description: "The format of the export, csv by default" },
+                    feed: { type: "string", description: "Only export the articles of the feed with this ID or URL" },
+                    from: { type: "date", description: "Only export the articles published on or after this date" },
+                    to: { type: "date", description: "Only export the articles published on or before this date" },
+                    limit: { type: "integer", min: 1, description: "The number of articles to export, all of them by default" },
+                },
+                run: this.exportArticles,
+            },
+            "db migrate": {
+                usage: "db migrate [--json]",
+                summary: "Run the migrations that haven't been run, and register the configured feeds and admin key",
+                args: {},
+                options: {},
+                run: this.migrate,
+            },
+            "db status": {
+                usage: "db status [--json]",
+                summary: "Check that the database can be reached and that every migration has been run",
+                args: {},
+                options: {},
+                run: this.databaseStatus,
+            },
+        };
+    }
+
+    /**
+     * Run a command
+     *
+     * @param {string[]} args The arguments, without the node executable and the script
+     * @returns {Promise<number>} The exit code
+     */
+    run = async (args: string[]): Promise<number> => {
+        const json = args.includes("--json");
+
+        if (args.length === 0 || ["help", "--help", "-h"].includes(args[0])) {
+            this.write(this.output[args.length === 0 ? "stderr" : "stdout"], this.usage());
+
+            return args.length === 0 ? exitCodes.usage : exitCodes.ok;
+        }
+
+        try {
+            // The commands with a subcommand are named by both words
+            const name = [`${args[0]} ${args[1]}`, args[0]].find((name) => name in this.commands);
+
+            if (!name) {
+                throw new InvalidCommand(`Unknown command: ${args.slice(0, 2).join(" ")}. Run with --help to list the commands.`);
+            }
+
+            const command = this.commands[name];
+
+            if (args.includes("--help") || args.includes("-h")) {
+                this.write(this.output.stdout, `Usage: ${command.usage}\n\n${command.summary}`);
+
+                return exitCodes.ok;
+            }
+
+            return await command.run(await this.parse(command, args.slice(name.split(" ").length)), json);
+        } catch (error: any) {
+            this.fail(error, json);
+
+            return error instanceof InvalidCommand ? exitCodes.usage : exitCodes.failed;
+        }
+    }
+
+    /**
+     * Parse and validate the arguments and options of a command, with the same checks as the parameters of the API
+     *
+     * @param {Command} command
+     * @param {string[]} args The arguments that follow the name of the command
+     * @returns {Promise<Record<string, any>>} The parsed arguments and options, by name
+     * @throws {InvalidCommand} If an argument or option is unknown, missing or invalid
+     */
+    private parse = async (command: Command, args: string[]): Promise<Record<string, any>> => {
+        let parsed: { values: Record<string, string | boolean | undefined>, positionals: string[] };
+
+        try {
+            parsed = parseArgs({
+                args,
+                options: Object.fromEntries(
+                    Object.entries({ ...command.options, json: { type: "boolean" } as Field }).map(([name, field]) => [name, { type: field.type === "boolean" ? "boolean" : "string" }] as const)
+                ),
+                allowPositionals: true,
+            });
+        } catch (error: any) {
+            throw new InvalidCommand(error?.message ?? String(error), command.usage);
+        }
+
+        const names = Object.keys(command.args);
+
+        if (parsed.positionals.length > names.length) {
+            throw new InvalidCommand(`Unexpected argument: ${parsed.positionals[names.length]}`, command.usage);
+        }
+
+        // The flags are parsed as booleans, and everything is checked as if it came from a query string
+        const values = {
+            ...Object.fromEntries(names.map((name, index) => [name, parsed.positionals[index]])),
+            ...Object.fromEntries(Object.entries(parsed.values).map(([name, value]) => [name, value === undefined ? undefined : String(value)])),
+        };
+
+        const { values: valid, errors } = await parseFields({ ...command.args, ...command.options }, values, true);
+        const invalid = Object.entries(errors)[0];
+
+        // The messages are the ones of the API, which calls everything a parameter
+        if (invalid) {
+            throw new InvalidCommand(invalid[1].replace(" parameter ", invalid[0] in command.args ? " argument " : " option "), command.usage);
+        }
+
+        return valid;
+    }
+
+    /**
+     * @param {Record<string, any>} values
+     * @param {boolean} json
+     * @returns {Promise<number>}
+     */
+    private listFeeds = async (values: Record<string, any>, json: boolean): Promise<number> => {
+        const feeds = await this.rssModule.feedRegistry.all();
+
+        if (json) {
+            return this.result(feeds);
+        }
+
+        if (feeds.length === 0) {
+            return this.result(null, "No feeds are registered");
+        }
+
+        // Only the background imports are recorded on the feed
+        const lastImport = (feed: Feed): string => {
+            if (feed.lastErrorAt && (!feed.lastSuccessAt || feed.lastErrorAt > feed.lastSuccessAt)) {
+                return `failed ${feed.lastErrorAt.toISOString()}: ${feed.lastError}`;
+            }
+
+            return feed.lastSuccessAt ? `ok ${feed.lastSuccessAt.toISOString()}` : "never";
+        }
+
+        return this.result(null, table([
+            ["ID", "STATUS", "NAME", "URL", "LAST BACKGROUND IMPORT"],
+            ...feeds.map((feed) => [String(feed.id), feed.enabled ? "enabled" : "disabled", feed.name, feed.url, lastImport(feed)]),
+        ]));
+    }
+
+    /**
+     * @param {Record<string, any>} values
+     * @param {boolean} json
+     * @returns {Promise<number>}
+     * @throws {Conflict} If a feed with the same URL is already registered
+     */
+    private addFeed = async (values: Record<string, any>, json: boolean): Promise<number> => {
+        const feed = await this.rssModule.feedRegistry.create({
+            url: values.url,
+            name: values.name,
+            primaryKey: values["primary-key"],
+            language: values.language,
+            pollInterval: values["poll-interval"],
+            enabled: !values.disabled,
+        }).catch((error) => {
+            throw error?.code === "23505" ? new Conflict("A feed with this URL is already registered") : error;
+        });
+
+        // The scheduler of the running app picks the feed up on its next refresh of the registry
+        return this.result(json ? feed : null, `Registered feed ${feed.id}: ${feed.name} (${feed.url})`);
+    }
+
+    /**
+     * @param {Record<string, any>} values
+     * @param {boolean} json
+     * @returns {Promise<number>}
+     * @throws {NotFound} If there is no such feed
+     */
+    private removeFeed = async (values: Record<string, any>, json: boolean): Promise<number> => {
+        const feed = await this.rssModule.feedRegistry.findByIdOrUrl(values.feed);
+
+        if (!feed || !await this.rssModule.feedRegistry.delete(feed.id)) {
+            throw new NotFound("Feed not found");
+        }
+
+        return this.result(json ? feed : null, `Removed feed ${feed.id} (${feed.url}), along with its articles and import history`);
+    }
+
+    /**
+     * Import a feed, or every enabled feed one after the other. When importing every feed, a failed import doesn't stop the others, but the command fails.
+     *
+     * @param {Record<string, any>} values
+     * @param {boolean} json
+     * @returns {Promise<number>}
+     */
+    private importFeeds = async (values: Record<string, any>, json: boolean): Promise<number> => {
+        if (Boolean(values.url) === Boolean(values.all)) {
+            throw new InvalidCommand("Give either the URL of a feed or --all", this.commands.import.usage);
+        }
+
+        const dryRun = Boolean(values["dry-run"]);
+
+        if (values.url) {
+            const outcome = await this.importFeed(values.url, dryRun);
+
+            return this.result(json ? outcome : null, this.describeImport(values.url, outcome));
+        }
+
+        const feeds = (await this.rssModule.feedRegistry.all()).filter((feed) => feed.enabled);
+        const outcomes: unknown[] = [];
+        const lines: string[] = [];
+        let failed = 0;
+
+        for (const feed of feeds) {
+            try {
+                const outcome = await this.importFeed(feed.url, dryRun);
+                outcomes.push(outcome);
+                lines.push(this.describeImport(feed.url, outcome));
+            } catch (error: any) {
+                const problem = this.toProblem(error);
+                failed++;
+                outcomes.push({ feedId: feed.id, url: feed.url, problem });
+                lines.push(`${feed.url}: ${problem.detail}`);
+            }
+        }
+
+        lines.push(`${dryRun ? "Previewed" : "Imported"} ${feeds.length - failed} of the ${feeds.length} enabled feeds`);
+        this.result(json ? { data: outcomes } : null, lines.join("\n"));
+
+        return failed > 0 ? exitCodes.failed : exitCodes.ok;
+    }
+
+    /**
+     * Import a feed, or only work out what importing it would change
+     *
+     * @param {string} url
+     * @param {boolean} dryRun
+     * @returns {Promise<ImportReport | DryRun>}
+     * @throws {HttpError} If the import failed
+     */
+    private importFeed = async (url: string, dryRun: boolean): Promise<ImportReport | DryRun> => {
+        if (!dryRun) {
+            return await this.rssModule.import(url, true, this.logger);
+        }
+
+        const { feed: results, ...report } = await this.rssModule.import(url, false, this.logger);
+        const feed = await this.rssModule.feedRegistry.findByUrl(url);
+
+        // The import found the feed, so it can only be gone if it was removed since
+        if (!results || !feed) {
+            throw new NotFound("Feed not found");
+        }
+
+        const preview = await this.rssModule.preview(results, feed);
+        const summary = (items: FeedItem[]) => items.map((item) => ({ externalId: item.id, title: item.title, link: item.link, publishedAt: item.publishedAt }));
+
+        return {
+            dryRun: true,
+            feedId: report.feedId,
+            url: report.url,
+            format: results.format,
+            itemCount: report.itemCount,
+            inserted: summary(preview.inserted),
+            updated: summary(preview.updated),
+            unchanged: preview.unchanged.length,
+            duplicates: summary(preview.duplicates),
+            rejections: preview.rejections,
+        };
+    }
+
+    /**
+     * Describe an import for people, a line per item that would change when it's a dry run
+     *
+     * @param {string} url
+     * @param {ImportReport | DryRun} outcome
+     * @returns {string}
+     */
+    private describeImport = (url: string, outcome: ImportReport | DryRun): string => {
+        if (!("dryRun" in outcome)) {
+            if (outcome.status === "not-modified") {
+                return `${url}: not modified since the last import`;
+            }
+
+            return [
+                `${url}: ${outcome.status} in ${outcome.durationMs}ms, ${outcome.itemCount} items: ${outcome.inserted} inserted, ${outcome.updated} updated, ${outcome.unchanged} unchanged, ${outcome.duplicates} duplicates, ${outcome.rejected} rejected`,
+                ...outcome.rejections.map((rejection) => `  rejected ${rejection.title ?? rejection.externalId ?? "an item"}: ${rejection.reason}`),
+            ].join("\n");
+        }
+
+        return [
+            `${url}: dry run of ${outcome.itemCount} items, nothing was saved`,
+            ...outcome.inserted.map((item) => `  insert  ${item.title}`),
+            ...outcome.updated.map((item) => `  update  ${item.title}`),
+            ...outcome.duplicates.map((item) => `  skip    ${item.title} (already imported under another ID)`),
+            ...outcome.rejections.map((rejection) => `  reject  ${rejection.title ?? rejection.externalId ?? "an item"}: ${rejection.reason}`),
+            `  Would insert ${outcome.inserted.length}, update ${outcome.updated.length}, leave ${outcome.unchanged} unchanged, skip ${outcome.duplicates.length} duplicates and reject ${outcome.rejections.length} items`,
+        ].join("\n");
+    }
+
+    /**
+     * Write the articles to the output as they are read, so that exporting every article doesn't need them all in memory
+     *
+     * @param {Record<string, any>} values
+     * @returns {Promise<number>}
+     * @throws {NotFound} If the feed filter isn't a registered feed
+     */
+    private exportArticles = async (values: Record<string, any>): Promise<number> => {
+        const feed = values.feed === undefined ? null : await this.rssModule.feedRegistry.findByIdOrUrl(values.feed);
+
+        if (values.feed !== undefined && !feed) {
+            throw new NotFound("Feed not found");
+        }
+
+        // The feeds link to the list of articles, which is only known as the address the app listens on
+        const baseUrl = `http://localhost:${config.port}`;
+
+        const output = this.articleExporter.export(values.format ?? "csv", this.rssModule.stream({ feed, from: values.from, to: values.to, limit: values.limit }), {
+            title: feed ? `Articles from ${feed.name}` : "Articles",
+            description: feed ? `The articles imported from ${feed.url}` : "The articles imported from every feed",
+            link: `${baseUrl}/api/articles`,
+            selfUrl: `${baseUrl}/api/articles.${values.format ?? "csv"}`,
+            updated: new Date(),
+        });
+
+        for await (const chunk of output) {
+            if (!this.output.stdout.write(chunk)) {
+                await once(this.output.stdout, "drain");
+            }
+        }
+
+        return exitCodes.ok;
+    }
+
+    /**
+     * @param {Record<string, any>} values
+     * @param {boolean} json
+     * @returns {Promise<number>}
+     */
+    private migrate = async (values: Record<string, any>, json: boolean): Promise<number> => {
+        const result = await runMigrations(this.migrationsDirectory);
+
+        return this.result(json ? result : null, [
+            result.migrations.length > 0 ? `Ran ${result.migrations.length} migrations: ${result.migrations.join(", ")}` : "The database is up to date",
+            `Added ${result.addedFeeds} of the ${config.feeds.length} configured feeds`,
+            ...(result.addedAdminKey ? ["Added the configured admin key"] : []),
+        ].join("\n"));
+    }
+
+    /**
+     * @param {Record<string, any>} values
+     * @param {boolean} json
+     * @returns {Promise<number>}
+     */
+    private databaseStatus = async (values: Record<string, any>, json: boolean): Promise<number> => {
+        const { ready, checks } = await this.healthCheck.check();
+        const { database, migrations } = checks;
+
+        this.result(json ? { ready, checks } : null, [
+            `Database: ${database.status === "ok" ? "ok" : `failed (${database.error})`}`,
+            `Migrations: ${migrations.status === "ok" ? "ok" : migrations.pending.length > 0 ? `${migrations.pending.length} pending (${migrations.pending.join(", ")})` : `failed (${migrations.error})`}`,
+        ].join("\n"));
+
+        return ready ? exitCodes.ok : exitCodes.failed;
+    }
+
+    /**
+     * Write the result of a command that succeeded
+     *
+     * @param {unknown} json The result as JSON, or null to write the text
+     * @param {string} text The result for people
+     * @returns {number} The exit code
+     */
+    private result = (json: unknown, text: string = ""): number => {
+        this.write(this.output.stdout, json !== null ? JSON.stringify(json, null, 2) : text);
+
+        return exitCodes.ok;
+    }
+
+    /**
+     * Write why a command failed: to the output as a problem document with --json, so that scripts read it where they read the results, and to the error output otherwise
+     *
+     * @param {any} error
+     * @param {boolean} json
+     */
+    private fail = (error: any, json: boolean): void => {
+        const problem = this.toProblem(error);
+
+        if (json) {
+            this.write(this.output.stdout, JSON.stringify(problem, null, 2));
+            return;
+        }
+
+        this.write(this.output.stderr, [`Error: ${problem.detail}`, ...(problem.usage ? [`Usage: ${problem.usage}`] : [])].join("\n"));
+    }
+
+    /**
+     * Turn an error into a problem document. Unlike the API, which is called by clients, the command line is run by whoever operates the app, so it says what went wrong even when it's a bug.
+     *
+     * @param {any} error
+     * @returns {ReturnType<HttpError["toProblem"]>}
+     */
+    private toProblem = (error: any): ReturnType<HttpError["toProblem"]> => {
+        if (error instanceof HttpError || isConnectionError(error)) {
+            return toHttpError(error).toProblem();
+        }
+
+        return new HttpError(500, error?.message ?? String(error)).toProblem();
+    }
+
+    /**
+     * The usage of every command
+     *
+     * @returns {string}
+     */
+    usage = (): string => {
+        return [
+            "Usage: <command> [arguments] [--json]",
+            "",
+            ...Object.values(this.commands).map((command) => `  ${command.usage}\n      ${command.summary}`),
+            "",
+            `Exit codes: ${exitCodes.ok} when the command succeeded, ${exitCodes.failed} when it failed, ${exitCodes.usage} when it is invalid.`,
+        ].join("\n");
+    }
+
+    /**
+     * @param {Writable} stream
+     * @param {string} text
+     */
+    private write = (stream: Writable, text: string): void => {
+        stream.write(text + "\n");
+    }
+}
@@ -0,0 +1,269 @@
+import http from 'http';
+import https from 'https';
+import zlib from 'zlib';
+import { Readable } from 'stream';
+import { checkUrl, safeLookup, UrlPolicy } from './../utils/urls.js';
+
+/**
+ * The limits of the fetcher. Every fetch is bound by these, so that a slow, huge or misbehaving feed can't tie up the server, and so that users can't make the server fetch internal addresses.
+ *
+ * The limits are the same for every feed, and come from the `fetch` settings of the configuration. Only the cache validators are kept per feed: a limit that a single feed could raise would no longer protect the server from that feed.
+ */
+export interface FetcherLimits extends UrlPolicy {
+    // Milliseconds the whole fetch may take, including redirects and reading the body
+    timeout: number;
+    // The maximum size of the body in bytes, after decompression
+    maxBodySize: number;
+    // The maximum number of redirects to follow
+    maxRedirects: number;
+}
+
+/**
+ * The validators of a previous fetch. When given, the server can tell us the feed hasn't changed instead of sending it again.
+ *
+ * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Conditional_requests
+ */
+export interface CacheValidators {
+    etag?: string | null;
+    lastModified?: string | null;
+}
+
+/**
+ * The outcome of a fetch
+ */
+export interface FetchResult {
+    // True when the server answered 304, in which case the body is empty
+    notModified: boolean;
+    status: number;
+    // The URL the body came from, after following any redirects
+    url: string;
+    body: string;
+    // The validators to send with the next fetch of the same feed
+    etag: string | null;
+    lastModified: string | null;
+}
+
+const redirectStatuses = [301, 302, 303, 307, 308];
+
+/**
+ * A class for downloading feeds over HTTP.
+ *
+ * The parser library can download feeds itself, but it doesn't give us the status code or headers, and it doesn't limit anything. Fetching the feed ourselves and only handing the body to the parser lets us make conditional requests, so that unchanged feeds aren't downloaded again, and lets us stop fetches that take too long or return too much.
+ */
+export class FeedFetcher {
+
+    /**
+     * The limits every fetch is bound by
+     *
+     * @type {FetcherLimits}
+     */
+    limits: FetcherLimits = {
+        timeout: 10_000,
+        maxBodySize: 5 * 1024 * 1024,
+        maxRedirects: 5,
+        allowPrivateAddresses: false,
+        allowedPorts: [80, 443, 8080, 8443],
+    };
+
+    /**
+     * Constructor for the FeedFetcher class
+     *
+     * @param {Partial<FetcherLimits>} limits Overrides for the default limits
+     */
+    constructor(limits: Partial<FetcherLimits> = {}) {
+        this.limits = {
+            timeout: limits.timeout ?? this.limits.timeout,
+            maxBodySize: limits.maxBodySize ?? this.limits.maxBodySize,
+            maxRedirects: limits.maxRedirects ?? this.limits.maxRedirects,
+            allowPrivateAddresses: limits.allowPrivateAddresses ?? this.limits.allowPrivateAddresses,
+            allowedPorts: limits.allowedPorts !== undefined ? limits.allowedPorts : this.limits.allowedPorts,
+        };
+    }
+
+    /**
+     * Fetch a feed
+     *
+     * @param {string} url
+     * @param {CacheValidators} validators The validators of the previous fetch of this feed, if any
+     * @returns {Promise<FetchResult>}
+     * @throws {Error} If the fetch fails, times out, exceeds a limit, the URL or one of its redirects isn't allowed, or the server answers with an error status
+     */
+    fetch = async (url: string, validators: CacheValidators = {}): Promise<FetchResult> => {
+        // The timeout covers the whole fetch, so on expiry we destroy whichever request is in progress, which makes it (or the reading of its body) fail. The checks of the URLs aren't requests, so they are raced against the timeout instead.
+        let current: http.ClientRequest | null = null;
+        let timedOut = false;
+        let expire: () => void = () => {};
+        const expired = new Promise<never>((resolve, reject) => expire = () => reject(new Error("Timed out")));
+        const timer = setTimeout(() => {
+            timedOut = true;
+            current?.destroy();
+            expire();
+        }, this.limits.timeout);
+
+        // The race only listens to the timeout while a check is running
+        expired.catch(() => {});
+
+        try {
+            let currentUrl = url;
+
+            for (let redirects = 0; ; redirects++) {
+                // Every hop is checked, since a public URL could redirect to an internal one
+                const problem = await Promise.race([checkUrl(currentUrl, this.limits), expired]);
+
+                if (problem !== true) {
+                    throw new Error(redirects > 0 ? `The feed redirected to ${currentUrl}, which isn't allowed: ${problem}` : problem);
+                }
+
+                const response = await this.request(currentUrl, validators, (request) => current = request);
+                const status = response.statusCode ?? 0;
+
+                if (redirectStatuses.includes(status) && response.headers.location) {
+                    response.resume();
+
+                    if (redirects >= this.limits.maxRedirects) {
+                        throw new Error(`Too many redirects, the limit is ${this.limits.maxRedirects}`);
+                    }
+
+                    // The location may be relative to the current URL
+                    currentUrl = new URL(response.headers.location, currentUrl).toString();
+                    continue;
+                }
+
+                if (status === 304) {
+                    response.resume();
+
+                    // A 304 may leave out the validators if they haven't changed, in which case we keep the ones we sent
+                    return {
+                        notModified: true,
+                        status,
+                        url: currentUrl,
+                        body: "",
+                        etag: this.header(response, "etag") ?? validators.etag ?? null,
+                        lastModified: this.header(response, "last-modified") ?? validators.lastModified ?? null,
+                    };
+                }
+
+                if (status < 200 || status >= 300) {
+                    response.resume();
+                    throw new Error(`Status code ${status}`);
+                }
+
+                const body = await this.readBody(response);
+
+                return {
+                    notModified: false,
+                    status,
+                    url: currentUrl,
+                    body,
+                    etag: this.header(response, "etag"),
+                    lastModified: this.header(response, "last-modified"),
+                };
+            }
+        } catch (error) {
+            if (timedOut) {
+                throw new Error(`The feed took longer than ${this.limits.timeout}ms to fetch`);
+            }
+
+            throw error;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * Send a single GET request, without following redirects
+     *
+     * @param {string} url
+     * @param {CacheValidators} validators
+     * @param {(request: http.ClientRequest) => void} onRequest Receives the request as soon as it is sent, so that it can be destroyed
+     * @returns {Promise<http.IncomingMessage>}
+     */
+    private request = (url: string, validators: CacheValidators, onRequest: (request: http.ClientRequest) => void): Promise<http.IncomingMessage> => {
+        const parsedUrl = new URL(url);
+        const headers: http.OutgoingHttpHeaders = {
+            "Accept": "application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, text/xml;q=0.9, */*;q=0.8",
+            "Accept-Encoding": "gzip, deflate, br",
+            "User-Agent": "rss-importer/1.0",
+        };
+
+        if (validators.etag) {
+            headers["If-None-Match"] = validators.etag;
+        }
+
+        if (validators.lastModified) {
+            headers["If-Modified-Since"] = validators.lastModified;
+        }
+
+        const client = parsedUrl.protocol === "https:" ? https : http;
+
+        return new Promise((resolve, reject) => {
+            // The lookup checks the address we actually connect to, in case the host resolves differently than when the URL was checked
+            const request = client.get(parsedUrl, { headers, lookup: safeLookup(this.limits) }, resolve);
+            request.on("error", reject);
+            onRequest(request);
+        });
+    }
+
+    /**
+     * Read and decompress the body of a response, stopping as soon as it exceeds the maximum size
+     *
+     * @param {http.IncomingMessage} response
+     * @returns {Promise<string>}
+     */
+    private readBody = async (response: http.IncomingMessage): Promise<string> => {
+        const tooLarge = () => new Error(`The feed is larger than the limit of ${this.limits.maxBodySize} bytes`);
+
+        // If the server tells us the size up front, we don't need to download anything to know it's too large. This is the compressed size, which is smaller, so the check below is still needed.
+        if (Number(response.headers["content-length"]) > this.limits.maxBodySize) {
+            response.destroy();
+            throw tooLarge();
+        }
+
+        let stream: Readable = response;
+        const encoding = this.header(response, "content-encoding")?.toLowerCase();
+
+        if (encoding === "gzip" || encoding === "x-gzip") {
+            stream = response.pipe(zlib.createGunzip());
+        } else if (encoding === "deflate") {
+            stream = response.pipe(zlib.createInflate());
+        } else if (encoding === "br") {
+            stream = response.pipe(zlib.createBrotliDecompress());
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        try {
+            for await (const chunk of stream) {
+                size += chunk.length;
+
+                if (size > this.limits.maxBodySize) {
+                    throw tooLarge();
+                }
+
+                chunks.push(chunk);
+            }
+        } finally {
+            // Stop downloading the rest, if we stopped early
+            response.destroy();
+        }
+
+        // Feeds are almost always UTF-8, but some older ones are still served as Latin-1
+        const charset = /charset=([^;]+)/i.exec(this.header(response, "content-type") ?? "")?.[1]?.trim().toLowerCase();
+
+        return Buffer.concat(chunks).toString(charset === "iso-8859-1" || charset === "latin1" ? "latin1" : "utf8");
+    }
+
+    /**
+     * Get a single header of a response
+     *
+     * @param {http.IncomingMessage} response
+     * @param {string} name The lowercase header name
+     * @returns {string | null}
+     */
+    private header = (response: http.IncomingMessage, name: string): string | null => {
+        const value = response.headers[name];
+
+        return (Array.isArray(value) ? value[0] : value) ?? null;
+    }
+}
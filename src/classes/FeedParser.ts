@@ -0,0 +1,101 @@
+import { RssAdapter } from "./adapters/RssAdapter.js";
+import { AtomAdapter } from "./adapters/AtomAdapter.js";
+import { JsonFeedAdapter } from "./adapters/JsonFeedAdapter.js";
+
+/**
+ * The formats of feeds we can import
+ */
+export type FeedFormat = "rss" | "atom" | "json";
+
+/**
+ * An item of a feed, whatever its format. This is what an article is made from.
+ */
+export interface FeedItem {
+    // What tells the item apart from the other items of the feed: its guid or id, or else a hash of its link. Null if it has none of those.
+    id: string | null;
+    title: string | null;
+    link: string | null;
+    // Plain text, without any HTML
+    description: string;
+    publishedAt: Date | null;
+    // The URL of the main picture of the item, falling back to the picture of the feed
+    mainPicture: string | null;
+}
+
+/**
+ * A feed, whatever its format
+ *
+ * @note The feeds in the registry are called Feed, hence the different name.
+ */
+export interface ParsedFeed {
+    format: FeedFormat;
+    title: string | null;
+    link: string | null;
+    // The language the feed declares, such as fr or en-GB
+    language: string | null;
+    // The URL of the picture of the feed, such as its logo
+    image: string | null;
+    items: FeedItem[];
+}
+
+/**
+ * How to parse a feed
+ */
+export interface ParseOptions {
+    // The item property that identifies an item, before falling back to the guid, id and link. Defaults to guid.
+    primaryKey?: string;
+}
+
+/**
+ * Turns a feed of one format into a ParsedFeed
+ */
+export interface FeedAdapter {
+    format: FeedFormat;
+
+    /**
+     * Whether the body is a feed of this adapter's format. This only looks at the outline of the body, so parsing may still fail.
+     */
+    canParse(body: string): boolean;
+
+    /**
+     * Parse the body of a feed
+     *
+     * @throws {Error} If the body isn't a valid feed of this format
+     */
+    parse(body: string, options: ParseOptions): Promise<ParsedFeed>;
+}
+
+/**
+ * A class for parsing feeds of any format we support into the same shape.
+ *
+ * RSS, Atom and JSON Feed all describe the same thing - a list of articles - but with different names, and each publisher fills them in differently. Each format has its own adapter that knows where to find the ID, dates and pictures, so that the rest of the app only deals with ParsedFeed and FeedItem and never with the format itself.
+ */
+export class FeedParser {
+
+    /**
+     * The adapters, tried in order until one recognises the feed
+     *
+     * @type {FeedAdapter[]}
+     */
+    adapters: FeedAdapter[] = [new JsonFeedAdapter(), new AtomAdapter(), new RssAdapter()];
+
+    /**
+     * Parse a feed of any supported format
+     *
+     * @param {string} body The feed as downloaded
+     * @param {ParseOptions} options
+     * @returns {Promise<ParsedFeed>}
+     * @throws {Error} If the feed isn't in a supported format or can't be parsed
+     */
+    parse = async (body: string, options: ParseOptions = {}): Promise<ParsedFeed> => {
+        // A byte order mark would hide the first character from the adapters
+        const text = body.replace(/^\uFEFF/, "");
+        const adapter = this.adapters.find((adapter) => adapter.canParse(text));
+
+        if (!adapter) {
+            throw new Error("The feed is not an RSS, Atom or JSON feed");
+        }
+
+        return await adapter.parse(text, options);
+    }
+}
@@ -0,0 +1,183 @@
+import { runQuery } from "./../database/pool.js";
+import { normalizeUrl } from "./../utils/urls.js";
+
+/**
+ * A feed as it is stored in the registry
+ */
+export interface Feed {
+    id: number;
+    url: string;
+    name: string;
+    primaryKey: string;
+    enabled: boolean;
+    // Overrides the language the feed declares itself, null to use the declared one
+    language: string | null;
+    // Seconds between two imports by the scheduler, null to use the scheduler's default
+    pollInterval: number | null;
+    lastSuccessAt: Date | null;
+    lastErrorAt: Date | null;
+    // Why importing the feed last failed
+    lastError: string | null;
+    // The cache validators of the last imported response, sent with the next fetch
+    etag: string | null;
+    lastModified: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * The attributes that can be set when creating or updating a feed
+ */
+export type FeedAttributes = Pick<Feed, "url" | "name"> & Partial<Pick<Feed, "primaryKey" | "enabled" | "language" | "pollInterval">>;
+
+// Postgres folds unquoted column names to lowercase, so we alias them back to camelCase to match the Feed interface.
+const columns = 'id, url, name, primaryKey AS "primaryKey", enabled, language, pollInterval AS "pollInterval", lastSuccessAt AS "lastSuccessAt", lastErrorAt AS "lastErrorAt", lastError AS "lastError", etag, lastModified AS "lastModified", createdAt AS "createdAt", updatedAt AS "updatedAt"';
+
+/**
+ * A class for managing the registry of RSS feeds that can be imported.
+ *
+ */
+export class FeedRegistry {
+
+    /**
+     * Get all the feeds in the registry
+     *
+     * @returns {Promise<Feed[]>}
+     */
+    all = async (): Promise<Feed[]> => {
+        return await runQuery(`SELECT ${columns} FROM feeds ORDER BY id`);
+    }
+
+    /**
+     * Find a feed by its ID
+     *
+     * @param {number} id
+     * @returns {Promise<Feed | null>}
+     */
+    find = async (id: number): Promise<Feed | null> => {
+        const rows = await runQuery(`SELECT ${columns} FROM feeds WHERE id = $1`, [id]);
+
+        return rows[0] ?? null;
+    }
+
+    /**
+     * Find a feed by its URL. The URL is normalized first, so "HTTPS://Example.com/rss/#top" finds the feed registered as "https://example.com/rss".
+     *
+     * @param {string} url
+     * @returns {Promise<Feed | null>}
+     */
+    findByUrl = async (url: string): Promise<Feed | null> => {
+        const rows = await runQuery(`SELECT ${columns} FROM feeds WHERE url = $1`, [normalizeUrl(url)]);
+
+        return rows[0] ?? null;
+    }
+
+    /**
+     * Find a feed by either its ID or its URL. This is useful for parameters where the user can give either, like the feed filter of the articles endpoint.
+     *
+     * @param {string} identifier A numeric ID or a URL
+     * @returns {Promise<Feed | null>}
+     */
+    findByIdOrUrl = async (identifier: string): Promise<Feed | null> => {
+        if (/^\d+$/.test(identifier)) {
+            return await this.find(Number(identifier));
+        }
+
+        return await this.findByUrl(identifier);
+    }
+
+    /**
+     * Add a feed to the registry. Its URL is normalized, so that the same feed can't be registered twice by writing its URL differently.
+     *
+     * @param {FeedAttributes} attributes
+     * @returns {Promise<Feed>}
+     * @throws {Error} If a feed with the same URL already exists (error code 23505)
+     */
+    create = async (attributes: FeedAttributes): Promise<Feed> => {
+        const rows = await runQuery(
+            `INSERT INTO feeds (url, name, primaryKey, enabled, language, pollInterval) VALUES ($1, $2, $3, $4, $5, $6) RETURNING ${columns}`,
+            [normalizeUrl(attributes.url), attributes.name, attributes.primaryKey ?? "guid", attributes.enabled ?? true, attributes.language ?? null, attributes.pollInterval ?? null]
+        );
+
+        return rows[0];
+    }
+
+    /**
+     * Add the given feeds to the registry, unless a feed with the same URL is already registered. Feeds that are already registered are left as they are, so that changes made through the API aren't overwritten every time the migrations run.
+     *
+     * @param {FeedAttributes[]} feeds
+     * @returns {Promise<number>} The number of feeds that were added
+     * @throws {Error}
+     */
+    seed = async (feeds: FeedAttributes[]): Promise<number> => {
+        let added = 0;
+
+        for (const attributes of feeds) {
+            const rows = await runQuery(
+                `INSERT INTO feeds (url, name, primaryKey, enabled, language, pollInterval) VALUES ($1, $2, $3, $4, $5, $6) ON CONFLICT (url) DO NOTHING RETURNING id`,
+                [normalizeUrl(attributes.url), attributes.name, attributes.primaryKey ?? "guid", attributes.enabled ?? true, attributes.language ?? null, attributes.pollInterval ?? null]
+            );
+
+            added += rows.length;
+        }
+
+        return added;
+    }
+
+    /**
+     * Update a feed in the registry. Only the given attributes are changed.
+     *
+     * @param {number} id
+     * @param {Partial<FeedAttributes>} attributes
+     * @returns {Promise<Feed | null>} The updated feed, or null if it doesn't exist
+     * @throws {Error} If the URL is changed to one that already exists (error code 23505)
+     */
+    update = async (id: number, attributes: Partial<FeedAttributes>): Promise<Feed | null> => {
+        // COALESCE keeps the current value for any attribute that wasn't given. The language and poll interval can be set back to null, so for them we pass a separate flag telling whether they were given. The cache validators are cleared when the URL or the primary key changes: they belong to the old URL, and with a new primary key the feed has to be imported again even if it hasn't changed, since its items now have other IDs.
+        const rows = await runQuery(
+            `UPDATE feeds SET etag = CASE WHEN $2::text <> url OR $4::text <> primaryKey THEN NULL ELSE etag END, lastModified = CASE WHEN $2::text <> url OR $4::text <> primaryKey THEN NULL ELSE lastModified END, url = COALESCE($2, url), name = COALESCE($3, name), primaryKey = COALESCE($4, primaryKey), enabled = COALESCE($5, enabled), language = CASE WHEN $7::boolean THEN $6 ELSE language END, pollInterval = CASE WHEN $9::boolean THEN $8::int ELSE pollInterval END, updatedAt = now() WHERE id = $1 RETURNING ${columns}`,
+            [id, attributes.url !== undefined ? normalizeUrl(attributes.url) : null, attributes.name ?? null, attributes.primaryKey ?? null, attributes.enabled ?? null, attributes.language ?? null, attributes.language !== undefined, attributes.pollInterval ?? null, attributes.pollInterval !== undefined]
+        );
+
+        return rows[0] ?? null;
+    }
+
+    /**
+     * Record the outcome of an import of a feed, so that we can tell which feeds are healthy
+     *
+     * @param {number} id
+     * @param {string | null} error Why the import failed, or null if it succeeded
+     * @returns {Promise<void>}
+     */
+    recordPoll = async (id: number, error: string | null): Promise<void> => {
+        if (error === null) {
+            await runQuery('UPDATE feeds SET lastSuccessAt = now() WHERE id = $1', [id]);
+        } else {
+            await runQuery('UPDATE feeds SET lastErrorAt = now(), lastError = $2 WHERE id = $1', [id, error]);
+        }
+    }
+
+    /**
+     * Remember the cache validators of the last imported response of a feed
+     *
+     * @param {number} id
+     * @param {string | null} etag
+     * @param {string | null} lastModified
+     * @returns {Promise<void>}
+     */
+    saveCacheValidators = async (id: number, etag: string | null, lastModified: string | null): Promise<void> => {
+        await runQuery('UPDATE feeds SET etag = $2, lastModified = $3 WHERE id = $1', [id, etag, lastModified]);
+    }
+
+    /**
+     * Remove a feed from the registry
+     *
+     * @param {number} id
+     * @returns {Promise<boolean>} Whether a feed was removed
+     */
+    delete = async (id: number): Promise<boolean> => {
+        const rows = await runQuery('DELETE FROM feeds WHERE id = $1 RETURNING id', [id]);
+
+        return rows.length > 0;
+    }
+}
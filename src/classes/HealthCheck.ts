@@ -0,0 +1,93 @@
+import { readdir } from "fs/promises";
+import { runQuery } from "./../database/pool.js";
+
+/**
+ * The outcome of one of the readiness checks
+ */
+export interface CheckResult {
+    status: "ok" | "failed";
+    // What went wrong, if the check failed
+    error: string | null;
+}
+
+/**
+ * Whether the API can serve requests, and the outcome of each check
+ */
+export interface Readiness {
+    ready: boolean;
+    checks: {
+        database: CheckResult;
+        migrations: CheckResult & {
+            // The migrations that are in the migrations directory but weren't run, by file name
+            pending: string[];
+        };
+    };
+}
+
+/**
+ * A class for checking whether the API can serve requests, for the readiness probe. The API is ready when the database can be reached and every migration has been run, since otherwise most queries would fail.
+ *
+ * The API being alive is a different question, which the liveness probe answers without any of these checks: a database outage should take the API out of the load balancer, not get it restarted.
+ */
+export class HealthCheck {
+
+    /**
+     * @param {string} migrationsDirectory Where the migrations are, as given to postgres-migrations
+     */
+    constructor(private migrationsDirectory: string = "./migrations") {}
+
+    /**
+     * Run the checks
+     *
+     * @returns {Promise<Readiness>}
+     */
+    check = async (): Promise<Readiness> => {
+        const database: CheckResult = { status: "ok", error: null };
+        const migrations: Readiness["checks"]["migrations"] = { status: "ok", error: null, pending: [] };
+
+        try {
+            await runQuery("SELECT 1");
+        } catch (error: any) {
+            database.status = "failed";
+            database.error = error?.message ?? String(error);
+        }
+
+        // The migrations can't be checked without the database
+        if (database.status === "failed") {
+            migrations.status = "failed";
+            migrations.error = "The database can't be reached";
+        } else {
+            try {
+                migrations.pending = await this.pendingMigrations();
+
+                if (migrations.pending.length > 0) {
+                    migrations.status = "failed";
+                    migrations.error = `${migrations.pending.length} migration(s) haven't been run`;
+                }
+            } catch (error: any) {
+                migrations.status = "failed";
+                migrations.error = error?.message ?? String(error);
+            }
+        }
+
+        return { ready: database.status === "ok" && migrations.status === "ok", checks: { database, migrations } };
+    }
+
+    /**
+     * Find the migrations that haven't been run. postgres-migrations names its files <id>_<name>.sql, and records the ID of each migration it runs in the migrations table.
+     *
+     * @returns {Promise<string[]>} The file names of the pending migrations, in the order they would run
+     * @throws {Error} If the migrations table doesn't exist, which means no migration was ever run
+     */
+    private pendingMigrations = async (): Promise<string[]> => {
+        const files = (await readdir(this.migrationsDirectory)).filter((file) => /^\d+[-_].*\.sql$/.test(file));
+        const rows = await runQuery("SELECT id FROM migrations");
+        const applied = new Set(rows.map((row) => Number(row.id)));
+
+        return files
+            .map((file) => ({ file, id: parseInt(file, 10) }))
+            .filter(({ id }) => !applied.has(id))
+            .sort((a, b) => a.id - b.id)
+            .map(({ file }) => file);
+    }
+}
@@ -0,0 +1,215 @@
+import http from "http";
+
+/**
+ * A problem, as it is sent to the client. The members are those of RFC 7807, and any other member gives more details about this kind of problem, such as the report of a failed import.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc7807
+ */
+export interface Problem {
+    // Identifies the kind of problem. about:blank means the problem is just what the status code says.
+    type: string;
+    title: string;
+    status: number;
+    // What went wrong this time, for humans
+    detail: string;
+    // The request the problem happened on
+    instance?: string;
+    [extension: string]: unknown;
+}
+
+/**
+ * An error that is sent to the client as an HTTP response. Throwing one of these anywhere in a route, or in the classes the route calls, is enough for the client to get the right status and a problem document explaining it; the error handler takes care of the rest.
+ *
+ * Errors that aren't HttpErrors are bugs or outages that the client can't do anything about, and are sent as a 500 without any details.
+ */
+export class HttpError extends Error {
+
+    /**
+     * @param {number} status The HTTP status code
+     * @param {string} detail What went wrong
+     * @param {string} type A URI reference that identifies the kind of problem. Clients can rely on it rather than on the detail, which may change.
+     * @param {string} title A short summary of the kind of problem, the same for every problem of this type
+     * @param {Record<string, unknown>} extensions Any other members of the problem document
+     * @param {Record<string, string>} headers Any headers to send with the response, such as WWW-Authenticate
+     */
+    constructor(
+        public status: number,
+        public detail: string,
+        public type: string = "about:blank",
+        public title: string = http.STATUS_CODES[status] ?? "Error",
+        public extensions: Record<string, unknown> = {},
+        public headers: Record<string, string> = {},
+    ) {
+        super(detail);
+        this.name = new.target.name;
+    }
+
+    /**
+     * Get the problem document of the error
+     *
+     * @param {string} instance The path of the request the error happened on
+     * @returns {Problem}
+     */
+    toProblem = (instance?: string): Problem => {
+        return {
+            ...this.extensions,
+            type: this.type,
+            title: this.title,
+            status: this.status,
+            detail: this.detail,
+            instance,
+        };
+    }
+}
+
+/**
+ * One of the parameters of a request that isn't valid
+ */
+export interface InvalidParameter {
+    name: string;
+    // Where the parameter was sent: in the path, the query string or the body
+    in: "path" | "query" | "body";
+    detail: string;
+}
+
+/**
+ * The request is well formed, but its parameters aren't valid. The detail is the first problem, and every problem is listed in the errors member.
+ */
+export class ValidationFailed extends HttpError {
+    constructor(errors: InvalidParameter[]) {
+        super(422, errors[0]?.detail ?? "The request is invalid", "/problems/validation-failed", "The request parameters are invalid", { errors });
+    }
+}
+
+/**
+ * The request can't be read at all, such as a body that isn't valid JSON
+ */
+export class BadRequest extends HttpError {
+    constructor(detail: string) {
+        super(400, detail);
+    }
+}
+
+export class Unauthorized extends HttpError {
+    /**
+     * @param {string} detail
+     * @param {string} challenge The WWW-Authenticate header, which tells the client how to authenticate
+     */
+    constructor(detail: string, challenge: string) {
+        super(401, detail, "about:blank", undefined, {}, { "WWW-Authenticate": challenge });
+    }
+}
+
+export class Forbidden extends HttpError {
+    constructor(detail: string) {
+        super(403, detail);
+    }
+}
+
+export class NotFound extends HttpError {
+    constructor(detail: string) {
+        super(404, detail);
+    }
+}
+
+export class Conflict extends HttpError {
+    constructor(detail: string) {
+        super(409, detail);
+    }
+}
+
+/**
+ * The URL isn't one we import: it is malformed, or it isn't a registered and enabled feed
+ */
+export class FeedNotSupported extends HttpError {
+    constructor(detail: string) {
+        super(422, detail, "/problems/feed-not-supported", "The feed is not supported");
+    }
+}
+
+/**
+ * The feed couldn't be downloaded: the publisher is down, answered with an error, or sent too much. It is the publisher's fault rather than ours or the client's, hence the 502 (bad gateway).
+ */
+export class FeedFetchFailed extends HttpError {
+    constructor(detail: string, extensions: Record<string, unknown> = {}) {
+        super(502, detail, "/problems/feed-fetch-failed", "The feed could not be fetched", extensions);
+    }
+}
+
+/**
+ * The feed was downloaded, but isn't a feed we can read, or has nothing in it we can import
+ */
+export class FeedParseFailed extends HttpError {
+    constructor(detail: string, extensions: Record<string, unknown> = {}) {
+        super(502, detail, "/problems/feed-parse-failed", "The feed could not be parsed", extensions);
+    }
+}
+
+/**
+ * The database can't be reached. It is usually temporary, so the client is told to try again later.
+ */
+export class DatabaseUnavailable extends HttpError {
+    constructor(extensions: Record<string, unknown> = {}) {
+        super(503, "The database is unavailable, try again later", "/problems/database-unavailable", "The database is unavailable", extensions, { "Retry-After": "30" });
+    }
+}
+
+/**
+ * The API can't serve requests yet, such as when the database is down or the migrations haven't been run. The checks extension says which checks failed.
+ */
+export class NotReady extends HttpError {
+    constructor(detail: string, extensions: Record<string, unknown> = {}) {
+        super(503, detail, "/problems/not-ready", "The service is not ready", extensions);
+    }
+}
+
+/**
+ * Something went wrong on our side. The detail is deliberately vague, since the error could contain anything, including secrets.
+ */
+export class InternalServerError extends HttpError {
+    constructor(extensions: Record<string, unknown> = {}) {
+        super(500, "Something went wrong while handling the request", "about:blank", undefined, extensions);
+    }
+}
+
+// The error codes that mean we couldn't reach the database, rather than that a query was wrong: the network errors of Node, and the connection exception (08) and operator intervention (57P) classes of Postgres, as well as too many connections and a missing database
+// @see https://www.postgresql.org/docs/current/errcodes-appendix.html
+const connectionErrorCodes = /^(ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT|EHOSTUNREACH|EAI_AGAIN|08\w{3}|57P0[123]|53300|3D000)$/;
+
+/**
+ * Check whether an error means the database can't be reached. The pool doesn't give its errors a code, so those are recognized by their message.
+ *
+ * @param {any} error
+ * @returns {boolean}
+ */
+export const isConnectionError = (error: any): boolean => {
+    return connectionErrorCodes.test(error?.code ?? "") || /^Connection terminated|timeout exceeded when trying to connect/.test(error?.message ?? "");
+}
+
+/**
+ * Turn anything that was thrown into the HttpError it should be sent as
+ *
+ * @param {any} error
+ * @param {Record<string, unknown>} extensions The extra members of the problem, if the error isn't an HttpError already
+ * @returns {HttpError}
+ */
+export const toHttpError = (error: any, extensions: Record<string, unknown> = {}): HttpError => {
+    if (error instanceof HttpError) {
+        return error;
+    }
+
+    if (isConnectionError(error)) {
+        return new DatabaseUnavailable(extensions);
+    }
+
+    // The errors of the JSON body parser, which tell us whether the body is malformed or too large
+    if (error?.type === "entity.parse.failed") {
+        return new BadRequest("The request body is not valid JSON");
+    }
+
+    if (typeof error?.status === "number" && error.status >= 400 && error.status < 500 && error.expose) {
+        return new HttpError(error.status, error.message);
+    }
+
+    return new InternalServerError(extensions);
+}
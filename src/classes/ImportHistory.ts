@@ -0,0 +1,144 @@
+import pg from 'pg'
+import { runQuery } from "./../database/pool.js";
+
+/**
+ * An item of a feed that couldn't be imported, and why
+ */
+export interface Rejection {
+    // The value of the feed's primary key for the item, if it had one
+    externalId: string | null;
+    title: string | null;
+    reason: string;
+}
+
+/**
+ * The report of a single import
+ */
+export interface ImportReport {
+    // The ID of the stored report, or null if it wasn't stored
+    id: number | null;
+    feedId: number;
+    url: string;
+    // success: every item was imported. partial: some items were rejected. failed: nothing was imported. not-modified: the feed hasn't changed since the last import, so it wasn't imported again and the report isn't stored.
+    status: "success" | "partial" | "failed" | "not-modified";
+    importDate: Date;
+    durationMs: number;
+    itemCount: number;
+    inserted: number;
+    // Only articles whose content actually changed count as updated
+    updated: number;
+    unchanged: number;
+    rejected: number;
+    // The items that were skipped because we already have their article, under another ID
+    duplicates: number;
+    rejections: Rejection[];
+    // Why the import failed, if it did
+    error: string | null;
+}
+
+/**
+ * The filters and pagination for browsing the import history
+ */
+export interface ImportQuery {
+    feedId?: number;
+    status?: ImportReport["status"];
+    limit?: number;
+    // Only return the imports older than the import with this ID
+    before?: number;
+}
+
+// Postgres folds unquoted column names to lowercase, so we alias them back to camelCase to match the ImportReport interface. The raw content can be large, so it isn't part of the listing.
+const columns = 'id, feedId AS "feedId", url, status, importDate AS "importDate", durationMs AS "durationMs", itemCount AS "itemCount", inserted, updated, unchanged, rejected, duplicates, rejections, error';
+
+/**
+ * A class for storing and browsing the reports of past imports.
+ *
+ */
+export class ImportHistory {
+
+    /**
+     * Store the report of an import
+     *
+     * @param {ImportReport} report
+     * @param {string | null} rawContent The imported data as JSON, if there was any
+     * @param {pg.PoolClient | null} client The connection to use, when the report is part of a transaction
+     * @returns {Promise<number>} The ID of the stored report
+     */
+    record = async (report: ImportReport, rawContent: string | null, client: pg.PoolClient | null = null): Promise<number> => {
+        const query = 'INSERT INTO imports (feedId, url, status, importDate, durationMs, itemCount, inserted, updated, unchanged, rejected, duplicates, rejections, error, rawContent) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14) RETURNING id';
+        const data = [report.feedId, report.url, report.status, report.importDate, report.durationMs, report.itemCount, report.inserted, report.updated, report.unchanged, report.rejected, report.duplicates, JSON.stringify(report.rejections), report.error, rawContent];
+
+        const rows = client ? (await client.query(query, data)).rows : await runQuery(query, data);
+
+        return rows[0].id;
+    }
+
+    /**
+     * Get a page of import reports, newest first
+     *
+     * @param {ImportQuery} query
+     * @returns {Promise<{ data: ImportReport[], nextCursor: string | null }>} The cursor is the ID to pass as "before" to get the next page
+     */
+    list = async (query: ImportQuery = {}): Promise<{ data: ImportReport[], nextCursor: string | null }> => {
+        const conditions: string[] = [];
+        const data: any[] = [];
+        const limit = query.limit ?? 50;
+
+        if (query.feedId !== undefined) {
+            data.push(query.feedId);
+            conditions.push(`feedId = $${data.length}`);
+        }
+
+        if (query.status !== undefined) {
+            data.push(query.status);
+            conditions.push(`status = $${data.length}`);
+        }
+
+        if (query.before !== undefined) {
+            data.push(query.before);
+            conditions.push(`id < $${data.length}`);
+        }
+
+        // Like for the articles, we get one more row than requested to know whether there is a next page
+        data.push(limit + 1);
+
+        const rows = await runQuery(
+            `SELECT ${columns} FROM imports ${conditions.length ? "WHERE " + conditions.join(" AND ") : ""} ORDER BY id DESC LIMIT $${data.length}`,
+            data
+        );
+
+        const hasNextPage = rows.length > limit;
+
+        if (hasNextPage) {
+            rows.pop();
+        }
+
+        return {
+            data: rows,
+            nextCursor: hasNextPage ? String(rows[rows.length - 1].id) : null,
+        };
+    }
+
+    /**
+     * Find an import report by its ID, along with the raw content that was imported
+     *
+     * @param {number} id
+     * @returns {Promise<(ImportReport & { rawContent: any }) | null>}
+     */
+    find = async (id: number): Promise<(ImportReport & { rawContent: any }) | null> => {
+        const rows = await runQuery(`SELECT ${columns}, rawContent AS "rawContent" FROM imports WHERE id = $1`, [id]);
+
+        if (!rows[0]) {
+            return null;
+        }
+
+        // The raw content is stored as JSON text, so we parse it to return it as part of the report rather than as a string
+        try {
+            rows[0].rawContent = rows[0].rawContent === null ? null : JSON.parse(rows[0].rawContent);
+        } catch (error) {
+            // Leave anything that isn't JSON as it is
+        }
+
+        return rows[0];
+    }
+}
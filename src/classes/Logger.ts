@@ -0,0 +1,78 @@
+/**
+ * How important a log entry is. silent is only a threshold, to log nothing.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+export const logLevels: LogLevel[] = ["debug", "info", "warn", "error", "silent"];
+
+/**
+ * Where the log entries are written, one line at a time
+ */
+export type LogWriter = (line: string) => void;
+
+/**
+ * A class for writing structured logs: each entry is one line of JSON, with its time, level and message, and any fields that describe what happened. Log collectors can then search and aggregate the entries by field, rather than by parsing sentences.
+ *
+ * A child logger adds its fields to every entry, so that, for example, every entry logged while handling a request carries the ID of the request.
+ */
+export class Logger {
+
+    /**
+     * @param {LogLevel} level The lowest level that is written
+     * @param {Record<string, unknown>} fields The fields added to every entry
+     * @param {LogWriter} write
+     */
+    constructor(
+        public level: LogLevel = "info",
+        private fields: Record<string, unknown> = {},
+        private write: LogWriter = (line) => process.stdout.write(line + "\n"),
+    ) {}
+
+    /**
+     * Create a logger that adds fields to every entry, on top of the fields of this logger
+     *
+     * @param {Record<string, unknown>} fields
+     * @returns {Logger}
+     */
+    child = (fields: Record<string, unknown>): Logger => {
+        return new Logger(this.level, { ...this.fields, ...fields }, this.write);
+    }
+
+    debug = (message: string, fields: Record<string, unknown> = {}): void => {
+        this.log("debug", message, fields);
+    }
+
+    info = (message: string, fields: Record<string, unknown> = {}): void => {
+        this.log("info", message, fields);
+    }
+
+    warn = (message: string, fields: Record<string, unknown> = {}): void => {
+        this.log("warn", message, fields);
+    }
+
+    error = (message: string, fields: Record<string, unknown> = {}): void => {
+        this.log("error", message, fields);
+    }
+
+    /**
+     * Write an entry, if its level is at least the level of the logger
+     *
+     * @param {LogLevel} level
+     * @param {string} message
+     * @param {Record<string, unknown>} fields
+     */
+    log = (level: Exclude<LogLevel, "silent">, message: string, fields: Record<string, unknown> = {}): void => {
+        if (logLevels.indexOf(level) < logLevels.indexOf(this.level)) {
+            return;
+        }
+
+        const entry: Record<string, unknown> = { time: new Date().toISOString(), level, message, ...this.fields };
+
+        for (const [key, value] of Object.entries(fields)) {
+            // Errors don't have any enumerable properties, so they would be written as {}
+            entry[key] = value instanceof Error ? { name: value.name, message: value.message, stack: value.stack, code: (value as any).code } : value;
+        }
+
+        this.write(JSON.stringify(entry));
+    }
+}
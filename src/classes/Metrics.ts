@@ -0,0 +1,223 @@
+/**
+ * The values of the labels of a metric, such as { method: "GET", status: "200" }
+ */
+export type Labels = Record<string, string | number>;
+
+/**
+ * Escape a label value for the Prometheus text format
+ *
+ * @param {string | number} value
+ * @returns {string}
+ */
+const escapeLabel = (value: string | number): string => {
+    return String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/**
+ * Write the labels of a sample, like {method="GET",status="200"}
+ *
+ * @param {Labels} labels
+ * @returns {string} The labels, or an empty string if there are none
+ */
+const formatLabels = (labels: Labels): string => {
+    const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+
+    return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * What every kind of metric has in common: a name, a description, the names of its labels, and a value for each combination of labels that has been seen
+ */
+abstract class Metric<Value> {
+    abstract type: "counter" | "gauge" | "histogram";
+
+    /**
+     * The value of each combination of labels, keyed by the label values
+     *
+     * @type {Map<string, { labels: Labels, value: Value }>}
+     */
+    protected values: Map<string, { labels: Labels, value: Value }> = new Map();
+
+    /**
+     * @param {string} name In snake case, with the unit as a suffix, like http_request_duration_seconds
+     * @param {string} help
+     * @param {string[]} labelNames
+     */
+    constructor(public name: string, public help: string, public labelNames: string[] = []) {}
+
+    /**
+     * Get the value of a combination of labels, creating it if it hasn't been seen yet
+     *
+     * @param {Labels} labels
+     * @param {() => Value} create
+     * @returns {{ labels: Labels, value: Value }}
+     */
+    protected entry = (labels: Labels, create: () => Value): { labels: Labels, value: Value } => {
+        // Only the declared labels are kept, in the declared order, so that the same labels always give the same key
+        const ordered: Labels = Object.fromEntries(this.labelNames.map((name) => [name, labels[name] ?? ""]));
+        const key = JSON.stringify(Object.values(ordered));
+        let entry = this.values.get(key);
+
+        if (!entry) {
+            entry = { labels: ordered, value: create() };
+            this.values.set(key, entry);
+        }
+
+        return entry;
+    }
+
+    /**
+     * Write the metric in the Prometheus text format
+     *
+     * @returns {string[]} The lines of the metric
+     */
+    render = (): string[] => {
+        return [`# HELP ${this.name} ${this.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()];
+    }
+
+    /**
+     * @returns {string[]} The lines of the samples
+     */
+    protected abstract samples: () => string[];
+}
+
+/**
+ * A number that only goes up, like the number of requests
+ */
+export class Counter extends Metric<number> {
+    type = "counter" as const;
+
+    /**
+     * @param {Labels} labels
+     * @param {number} amount
+     */
+    inc = (labels: Labels = {}, amount: number = 1): void => {
+        this.entry(labels, () => 0).value += amount;
+    }
+
+    protected samples = (): string[] => {
+        return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+    }
+}
+
+/**
+ * A number that goes up and down, like the number of open connections
+ */
+export class Gauge extends Metric<number> {
+    type = "gauge" as const;
+
+    /**
+     * @param {string} name
+     * @param {string} help
+     * @param {string[]} labelNames
+     * @param {(gauge: Gauge) => void} collect Called before the gauge is rendered, to set values that are cheaper to read when they are scraped than to keep up to date
+     */
+    constructor(name: string, help: string, labelNames: string[] = [], private collect: ((gauge: Gauge) => void) | null = null) {
+        super(name, help, labelNames);
+    }
+
+    /**
+     * @param {Labels} labels
+     * @param {number} value
+     */
+    set = (labels: Labels, value: number): void => {
+        this.entry(labels, () => 0).value = value;
+    }
+
+    protected samples = (): string[] => {
+        this.collect?.(this);
+
+        return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+    }
+}
+
+/**
+ * The distribution of a value, like the duration of the requests, as the number of observations that fall into each bucket. Prometheus can then estimate quantiles from the buckets.
+ */
+export class Histogram extends Metric<{ buckets: number[], sum: number, count: number }> {
+    type = "histogram" as const;
+
+    /**
+     * @param {string} name
+     * @param {string} help
+     * @param {string[]} labelNames
+     * @param {number[]} buckets The upper bounds of the buckets, in increasing order. A last bucket for everything (+Inf) is always added.
+     */
+    constructor(name: string, help: string, labelNames: string[], public buckets: number[]) {
+        super(name, help, labelNames);
+    }
+
+    /**
+     * @param {Labels} labels
+     * @param {number} value
+     */
+    observe = (labels: Labels, value: number): void => {
+        const entry = this.entry(labels, () => ({ buckets: this.buckets.map(() => 0), sum: 0, count: 0 }));
+
+        this.buckets.forEach((bound, index) => {
+            if (value <= bound) {
+                entry.value.buckets[index]++;
+            }
+        });
+
+        entry.value.sum += value;
+        entry.value.count++;
+    }
+
+    protected samples = (): string[] => {
+        const lines: string[] = [];
+
+        for (const { labels, value } of this.values.values()) {
+            // The buckets are cumulative: each one counts the observations up to its bound
+            this.buckets.forEach((bound, index) => lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${value.buckets[index]}`));
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+        }
+
+        return lines;
+    }
+}
+
+/**
+ * A class for keeping the metrics of the app, and exposing them to Prometheus.
+ *
+ * @see https://prometheus.io/docs/instrumenting/exposition_formats/
+ */
+export class MetricsRegistry {
+
+    // The content type of the text format
+    contentType = "text/plain; version=0.0.4; charset=utf-8";
+
+    /**
+     * The registered metrics
+     *
+     * @type {(Counter | Gauge | Histogram)[]}
+     */
+    metrics: (Counter | Gauge | Histogram)[] = [];
+
+    /**
+     * Register a metric
+     *
+     * @param {T} metric
+     * @returns {T}
+     */
+    register = <T extends Counter | Gauge | Histogram>(metric: T): T => {
+        if (this.metrics.some((registered) => registered.name === metric.name)) {
+            throw new Error(`A metric named ${metric.name} is already registered`);
+        }
+
+        this.metrics.push(metric);
+
+        return metric;
+    }
+
+    /**
+     * Write every metric in the Prometheus text format
+     *
+     * @returns {string}
+     */
+    render = (): string => {
+        return this.metrics.flatMap((metric) => metric.render()).join("\n") + "\n";
+    }
+}
@@ -1,13 +1,137 @@
-import Parser from 'rss-parser';
-import pg from 'pg'
-import dbConfig from "./../config/database.js";
+import { pool, runQuery } from "./../database/pool.js";
+import { Feed, FeedRegistry } from "./FeedRegistry.js";
+import { FeedFetcher, FetchResult } from "./FeedFetcher.js";
+import { ImportHistory, ImportReport, Rejection } from "./ImportHistory.js";
+import { FeedItem, FeedParser, ParsedFeed } from "./FeedParser.js";
+import { KeywordCount, TitleAnalytics } from "./TitleAnalytics.js";
+import { Fingerprint, FingerprintedArticle, StoryClusterer } from "./StoryClusterer.js";
+import { searchConfigFor, searchConfigs } from "./../utils/language.js";
+import config from "./../config/config.js";
+import { FeedFetchFailed, FeedNotSupported, FeedParseFailed, HttpError, toHttpError } from "./HttpError.js";
+import { Logger } from "./Logger.js";
+import { logger as rootLogger } from "./../utils/logger.js";
+import { fetchErrors, importDuration, importItems } from "./../utils/metrics.js";
 
-const parser: Parser = new Parser();
 
-const pool = new pg.Pool(dbConfig);
+/**
+ * The filters, sorting and pagination for getting articles
+ */
+export interface ArticleQuery {
+    // Only return the articles imported from this feed
+    feed?: Feed | null;
+    // Only return the articles published on or after this date
+    from?: Date;
+    // Only return the articles published on or before this date
+    to?: Date;
+    sort?: "publicationDate" | "importDate";
+    order?: "asc" | "desc";
+    // The maximum number of articles in the page
+    limit?: number;
+    // Where the previous page ended
+    cursor?: ArticleCursor;
+    // Only return the first article of each story, in the sort order
+    collapse?: boolean;
+    // Whether to add the analytics of each title (default true). They are left out when only the text of the articles is needed, since working them out for every article is wasted otherwise.
+    analytics?: boolean;
+}
+
+/**
+ * The position of the last article of a page. The sort and order are included so that a cursor can't be reused with different sorting, which would skip or repeat articles.
+ */
+export interface ArticleCursor {
+    sort: "publicationDate" | "importDate";
+    order: "asc" | "desc";
+    value: Date;
+    id: number;
+}
+
+/**
+ * The parameters for searching articles
+ */
+export interface SearchQuery {
+    // The search terms, in the same syntax as web search engines: quoted phrases, "or" and -excluded words
+    q: string;
+    // Only search the articles imported from this feed
+    feed?: Feed | null;
+    limit?: number;
+    offset?: number;
+}
+
+/**
+ * The filters for finding the trending keywords
+ */
+export interface KeywordQuery {
+    feed?: Feed | null;
+    from: Date;
+    to: Date;
+    // The number of keywords to return
+    limit?: number;
+}
+
+/**
+ * The filters and pagination for browsing the stories
+ */
+export interface StoryQuery {
+    // Only return the stories with an article of this feed
+    feed?: Feed | null;
+    // Only return the stories with an article published on or after this date
+    from?: Date;
+    // Only return the stories with an article published on or before this date
+    to?: Date;
+    limit?: number;
+    offset?: number;
+}
+
+/**
+ * A group of articles about the same story
+ */
+export interface Story {
+    id: number;
+    // The title of the first article of the story
+    title: string;
+    articleCount: number;
+    // The number of feeds the articles come from
+    feedCount: number;
+    firstPublishedAt: Date;
+    lastPublishedAt: Date;
+    // The articles, first published first
+    articles: any[];
+}
+
+/**
+ * What importing a feed would do with each of its items
+ */
+export interface ImportPreview {
+    inserted: FeedItem[];
+    updated: FeedItem[];
+    unchanged: FeedItem[];
+    // The articles we already have under another ID
+    duplicates: FeedItem[];
+    rejections: Rejection[];
+}
+
+/**
+ * A page of articles
+ */
+export interface ArticlePage {
+    data: any[];
+    // The cursor to get the next page with, or null if this is the last page
+    nextCursor: string | null;
+}
+
+// The columns of the articles that are written on import. The first three identify the article and when it was first imported, so they are never updated. The last three are the fingerprint of the article, see StoryClusterer.
+const articleColumns = ["feedId", "externalId", "importDate", "title", "description", "publicationDate", "link", "mainPicture", "language", "searchConfig", "canonicalLink", "contentHash", "minHash"];
+const articleUpdatedColumns = articleColumns.slice(3);
+
+// The fingerprint is computed from the content, so only the content decides whether an article changed
+const articleComparedColumns = articleUpdatedColumns.slice(0, -3);
+
+// The columns of the articles that are returned. The search columns are only needed for matching, so they are left out.
+const articleSelectColumns = "articles.id, externalId, importDate, title, description, publicationDate, link, mainPicture, feedId, language";
+
+// The number of articles written per query. Postgres allows at most 65535 parameters per query, and larger batches don't make much of a difference anyway.
+const upsertBatchSize = 500;
 
-// We define the vowels as a constant because they will never change, which is also why its outside of the class.
-const vowels = ['a', 'e', 'i', 'o', 'u', 'y'];
 /**
  * A class for working with RSS feeds.
  *
@@ -28,230 +152,926 @@ export class RssModule {
     url: string = "";
 
     /**
-     * The primary key of the RSS feed. Both of the example URLs have this as "guid", but it could be something else in other RSS feeds, so we'll make it configurable.
+     * The registry of supported RSS feeds, stored in the database.
      *
-     * @type {string}
-    */
-    primaryKey: string = "guid";
+     * @type {FeedRegistry}
+     */
+    feedRegistry: FeedRegistry = new FeedRegistry();
+
+    /**
+     * Downloads the feeds, enforcing the fetch limits and making conditional requests
+     *
+     * @type {FeedFetcher}
+     */
+    fetcher: FeedFetcher = new FeedFetcher(config.fetch);
 
     /**
-     * An array of supported RSS feeds. This is just for the sake of this example. In a real-world scenario, this could be stored in the database.
+     * Parses RSS, Atom and JSON feeds into the same shape
      *
-     * @type {Array<string>}
+     * @type {FeedParser}
      */
-    supportedRssFeeds: Array<string> = [
-        "https://www.lemonde.fr/rss/une.xml",
-        "https://www.theguardian.com/world/europe-news/rss",
-    ];
+    feedParser: FeedParser = new FeedParser();
+
+    /**
+     * Computes the word counts, reading times and keywords of the articles
+     *
+     * @type {TitleAnalytics}
+     */
+    analytics: TitleAnalytics = new TitleAnalytics();
+
+    /**
+     * The reports of past imports
+     *
+     * @type {ImportHistory}
+     */
+    importHistory: ImportHistory = new ImportHistory();
+
+    /**
+     * Finds the republished articles, and groups the articles about the same story
+     *
+     * @type {StoryClusterer}
+     */
+    storyClusterer: StoryClusterer = new StoryClusterer();
+
+    /**
+     * The imports that are running or waiting, by the ID of their feed. Each is the last import of its feed, which settles once every import of the feed before it is done.
+     *
+     * @type {Map<number, Promise<void>>}
+     */
+    private imports: Map<number, Promise<void>> = new Map();
 
     /**
      * Constructor for the RssModule class
      *
+     * The primary key an article is identified by is a setting of each feed in the registry, "guid" unless the feed was registered with another one.
+     *
      * @param {string | null} url The URL of the RSS feed.
-     * @param {string | null} primaryKey The primary key of the RSS feed
      */
-    constructor(url: string | null = null as string | null, primaryKey: string | null = null as string | null) {
-        if (url && this.isValidUrl(url)) {
+    constructor(url: string | null = null as string | null) {
+        // Whether the feed is supported can only be checked asynchronously against the registry, so here we only check that the URL is well-formed. The import method checks the registry.
+        if (url && this.isWellFormedUrl(url)) {
             this.url = url;
         }
-
-        if (primaryKey) {
-            this.primaryKey = primaryKey;
-        }
     }
 
     /**
      * Import the RSS feed
      *
+     * A failed import is thrown, as the HttpError that describes why it failed, so that callers can't mistake it for a successful one. The report of the import is still recorded, and is attached to the error as its report extension, so that the caller always knows what happened.
+     *
+     * Every import that reaches the feed is logged and counted in the metrics, whether it succeeded or not.
+     *
+     * The imports of a feed don't overlap: an import of a feed that is already being imported, such as a manual import during a scheduled one, waits for it to finish. The imports run by other processes, such as the command line, only wait for each other to save.
+     *
      * @param {string | null} url The URL of the RSS feed.
      * @param {boolean} save Whether or not to save the results to the database
-     * @returns {Promise<Object>}
+     * @param {Logger} logger What to log the import with, such as the logger of the request that started it, so that its entries carry the ID of the request
+     * @returns {Promise<ImportReport>} The report of the import. When not saving, the report also contains the parsed feed.
+     * @throws {FeedNotSupported} If the URL is malformed or isn't a supported feed
+     * @throws {FeedFetchFailed} If the feed couldn't be downloaded
+     * @throws {FeedParseFailed} If the feed isn't one we can read, or none of its items could be imported
+     * @throws {DatabaseUnavailable} If the database couldn't be reached to save the import
+     */
+    import = async (url: string | null = null, save: boolean = true, logger: Logger = rootLogger): Promise<ImportReport & { feed?: ParsedFeed }> => {
+        try {
+            const report = await this.runImport(url, save, logger);
+            this.recordImport(report, logger);
+
+            return report;
+        } catch (error) {
+            // The errors without a report are the ones thrown before the feed was even fetched, such as an unsupported URL
+            if (error instanceof HttpError && error.extensions.report) {
+                this.recordImport(error.extensions.report as ImportReport, logger, error);
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Log an import, and count it in the metrics
+     *
+     * @param {ImportReport} report
+     * @param {Logger} logger
+     * @param {HttpError | null} error Why the import failed, if it did
      */
-    import = async (url: string | null = null, save: boolean = true): Promise<Object> => {
+    private recordImport = (report: ImportReport, logger: Logger, error: HttpError | null = null): void => {
+        importDuration.observe({ status: report.status }, report.durationMs / 1000);
+
+        // A feed that hasn't changed has no items to count
+        if (report.status !== "not-modified") {
+            for (const outcome of ["inserted", "updated", "unchanged", "rejected"] as const) {
+                importItems.observe({ outcome }, report[outcome]);
+            }
+        }
+
+        if (error instanceof FeedFetchFailed) {
+            fetchErrors.inc({ feed: report.url });
+        }
+
+        const fields = {
+            importId: report.id,
+            feedId: report.feedId,
+            url: report.url,
+            status: report.status,
+            durationMs: report.durationMs,
+            itemCount: report.itemCount,
+            inserted: report.inserted,
+            updated: report.updated,
+            unchanged: report.unchanged,
+            rejected: report.rejected,
+            duplicates: report.duplicates,
+        };
+
+        if (error) {
+            logger.warn("The feed could not be imported", { ...fields, error: report.error, problem: error.type });
+        } else {
+            logger.info("Imported the feed", fields);
+        }
+    }
+
+    /**
+     * Import the feed, without logging or counting the import. See import.
+     *
+     * @param {string | null} url
+     * @param {boolean} save
+     * @param {Logger} logger
+     * @returns {Promise<ImportReport>}
+     */
+    private runImport = async (url: string | null, save: boolean, logger: Logger): Promise<ImportReport & { feed?: ParsedFeed }> => {
 
         // If a URL was provided, use it. Otherwise, use the class property.
         url = url || this.url;
 
         // If there is no URL, throw an error
-        if (!this.isValidUrl(url)) {
-            throw new Error("No URL was provided or it was malformed. Construct the class with a URL that starts with http/https.");
+        if (!this.isWellFormedUrl(url)) {
+            throw new FeedNotSupported("No URL was provided or it was malformed. Construct the class with a URL that starts with http/https.");
+        }
+
+        const feed = await this.feedRegistry.findByUrl(url);
+
+        if (!feed || !feed.enabled) {
+            throw new FeedNotSupported("The given URL is not a supported RSS feed. Add it to the feed registry first.");
+        }
+
+        // A preview doesn't write anything, so it doesn't have to wait for the imports of the feed
+        if (!save) {
+            return await this.importFeed(feed, save, logger);
+        }
+
+        // The feed is read again once it's our turn, so that we send the validators the import before us saved, and most likely find the feed not modified
+        return await this.withFeedLock(feed.id, async () => {
+            const current = await this.feedRegistry.find(feed.id);
+
+            if (!current || !current.enabled) {
+                throw new FeedNotSupported("The given URL is not a supported RSS feed. Add it to the feed registry first.");
+            }
+
+            return await this.importFeed(current, save, logger);
+        });
+    }
+
+    /**
+     * Run a task once the imports of a feed that started before it are done, so that a manual import and a scheduled one of the same feed can't overlap. This only holds within the process; the transaction of the import also locks the feed, for the imports run by other processes such as the command line.
+     *
+     * @param {number} feedId
+     * @param {() => Promise<T>} task
+     * @returns {Promise<T>} What the task returns
+     */
+    private withFeedLock = async <T>(feedId: number, task: () => Promise<T>): Promise<T> => {
+        // The next task waits for this one whether it succeeds or fails
+        const run = (this.imports.get(feedId) ?? Promise.resolve()).then(task);
+        const done = run.then(() => undefined, () => undefined);
+        this.imports.set(feedId, done);
+
+        try {
+            return await run;
+        } finally {
+            // Unless another import of the feed is already waiting for this one
+            if (this.imports.get(feedId) === done) {
+                this.imports.delete(feedId);
+            }
         }
+    }
 
-        // We'll use an existing library to parse the RSS feed, no need to reinvent the wheel.
-        const results = await parser.parseURL(url);
+    /**
+     * Fetch, parse and save a registered feed. See import.
+     *
+     * @param {Feed} feed
+     * @param {boolean} save
+     * @param {Logger} logger
+     * @returns {Promise<ImportReport>}
+     */
+    private importFeed = async (feed: Feed, save: boolean, logger: Logger): Promise<ImportReport & { feed?: ParsedFeed }> => {
+        const startedAt = Date.now();
+        const report: ImportReport = {
+            id: null,
+            feedId: feed.id,
+            url: feed.url,
+            status: "success",
+            importDate: new Date(startedAt),
+            durationMs: 0,
+            itemCount: 0,
+            inserted: 0,
+            updated: 0,
+            unchanged: 0,
+            rejected: 0,
+            duplicates: 0,
+            rejections: [],
+            error: null,
+        };
+
+        let results: ParsedFeed;
+        let response: FetchResult;
+
+        try {
+            // When saving, we tell the publisher what we got last time, so that it can answer with just "not modified" if the feed hasn't changed. When not saving, the caller wants to see the feed, so we always download it.
+            response = await this.fetcher.fetch(feed.url, save ? { etag: feed.etag, lastModified: feed.lastModified } : {});
+        } catch (error: any) {
+            throw await this.failImport(report, new FeedFetchFailed(error?.message ?? String(error)), startedAt, save, logger);
+        }
+
+        // Nothing changed, so there is nothing to save either
+        if (response.notModified) {
+            return { ...report, status: "not-modified", durationMs: Date.now() - startedAt };
+        }
+
+        try {
+            // The feed can be RSS, Atom or JSON Feed. Whichever it is, from here on we only deal with the parsed feed.
+            results = await this.feedParser.parse(response.body, { primaryKey: feed.primaryKey });
+        } catch (error: any) {
+            throw await this.failImport(report, new FeedParseFailed(error?.message ?? String(error)), startedAt, save, logger);
+        }
 
         // Sometimes we may want to not save the results and just see the output, so its a good idea to make this optional.
         if (!save) {
-            return results;
+            return { ...report, itemCount: results.items.length, durationMs: Date.now() - startedAt, feed: results };
         }
 
+        let saved: ImportReport;
+
         try {
-            this.saveImportRequest(results);
-        } catch (error) {
-            // Here we could log the error somewhere.
+            saved = await this.saveImportRequest(results, feed, report);
+
+            // The validators are only remembered once the import is saved, otherwise a failed save would make us skip the feed until it changes again
+            if (saved.status !== "failed") {
+                await this.feedRegistry.saveCacheValidators(feed.id, response.etag, response.lastModified);
+            }
+        } catch (error: any) {
+            // The report keeps what the database said, but the client only learns whether it can try again
+            report.error = error?.message ?? String(error);
+            throw await this.failImport(report, toHttpError(error), startedAt, save, logger);
         }
-        finally {
-            return results;
+
+        // The feed was read, but had nothing we could import. The report was saved along with the feed, so it is only attached to the error.
+        if (saved.status === "failed") {
+            throw new FeedParseFailed(saved.error ?? "The import failed", { report: saved });
         }
+
+        return saved;
     }
 
     /**
-     * Get all the articles from the database
+     * Mark an import as failed, and store its report if we're saving. The database may well be the reason the import failed, in which case the report can't be stored and is only attached to the error.
      *
-     * @note This method is simplified here. For production, you'd probably want to implement pagination logic to prevent the database from returning too many rows at once. You also might want to add some sort of caching logic to prevent the database from being hit too often, but that might be over-optimisation.
+     * @param {ImportReport} report
+     * @param {HttpError} error Why the import failed
+     * @param {number} startedAt
+     * @param {boolean} save
+     * @param {Logger} logger
+     * @returns {Promise<HttpError>} The error, with the report attached, for the caller to throw
+     */
+    private failImport = async (report: ImportReport, error: HttpError, startedAt: number, save: boolean, logger: Logger): Promise<HttpError> => {
+        report.status = "failed";
+        report.error = report.error ?? error.detail;
+        report.durationMs = Date.now() - startedAt;
+
+        if (save) {
+            try {
+                report.id = await this.importHistory.record(report, null);
+            } catch (recordError) {
+                // The import already failed, so this doesn't change what the caller is told, but the report is lost and someone should know
+                logger.error("The report of the failed import could not be recorded", { feedId: report.feedId, url: report.url, error: recordError });
+            }
+        }
+
+        error.extensions.report = report;
+
+        return error;
+    }
+
+    /**
+     * Get a page of articles from the database
      *
-     * @returns {Promise<Object>}
+     * We use keyset (cursor) pagination rather than LIMIT/OFFSET. With an offset, the database still has to read and throw away all the skipped rows, so pages get slower the further you go, and rows that are imported while someone is paging would shift the pages around. With a keyset, we remember the sort value and id of the last row we returned and continue from there, which uses the indexes and is stable.
+     *
+     * When collapsing, each story only appears once, as its first article in the sort order among the articles that match the filters. Those articles also have the ID of their story, or null if they aren't in one, and the number of its articles that match the filters.
+     *
+     * @note You also might want to add some sort of caching logic to prevent the database from being hit too often, but that might be over-optimisation.
+     *
+     * @param {ArticleQuery} query The filters, sorting and pagination
+     * @returns {Promise<ArticlePage>}
      * @throws {Error}
      */
-    get = async (): Promise<Object> => {
-        try {
-            // Here personally I'd add optional logic to select which articles we want from which RSS feed. For example, we could have a "source" column in the database, and then we could filter the results by that column. For the purposes of this example, we'll just get all the articles from the database. Or we could just parse the URL and get the articles from the RSS feed that matches the start of a given URL.
-            const rows = await this.runQuery('SELECT * FROM articles');
+    get = async (query: ArticleQuery = {}): Promise<ArticlePage> => {
+        const sort = query.sort ?? "publicationDate";
+        const order = query.order ?? "desc";
+        const limit = query.limit ?? 50;
+
+        // The column and direction can't be passed as query parameters, which is why they are only ever picked from these fixed values and never taken directly from the user's input.
+        const column = sort === "importDate" ? "importDate" : "publicationDate";
+        const direction = order === "asc" ? "ASC" : "DESC";
+
+        const conditions: string[] = [];
+        const data: any[] = [];
+
+        if (query.feed) {
+            data.push(query.feed.id);
+            conditions.push(`feedId = $${data.length}`);
+        }
+
+        if (query.from) {
+            data.push(query.from);
+            conditions.push(`publicationDate >= $${data.length}`);
+        }
+
+        if (query.to) {
+            data.push(query.to);
+            conditions.push(`publicationDate <= $${data.length}`);
+        }
+
+        // When collapsing, the cursor only applies once the stories are collapsed. Otherwise the first article of a story could be on one page, and the next article of the story would take its place on the next one.
+        const pageConditions: string[] = query.collapse ? ["storyRank = 1"] : conditions;
+
+        if (query.cursor) {
+            data.push(query.cursor.value, query.cursor.id);
+            pageConditions.push(`(${column}, id) ${direction === "ASC" ? ">" : "<"} ($${data.length - 1}, $${data.length})`);
+        }
+
+        // We get one more row than requested, which tells us whether there is a next page without needing a separate COUNT query
+        data.push(limit + 1);
+
+        const where = (conditions: string[]): string => conditions.length ? "WHERE " + conditions.join(" AND ") : "";
+
+        // The articles that aren't in a story are each a story of their own. Their partition is the opposite of their ID, so that it can't be the ID of a story.
+        const rows = await runQuery(
+            query.collapse
+                ? `SELECT * FROM (
+                    SELECT ${articleSelectColumns}, storyArticles.storyId,
+                        (count(*) OVER story)::int AS storySize,
+                        row_number() OVER (story ORDER BY ${column} ${direction}, articles.id ${direction}) AS storyRank
+                    FROM articles LEFT JOIN storyArticles ON storyArticles.articleId = articles.id
+                    ${where(conditions)}
+                    WINDOW story AS (PARTITION BY coalesce(storyArticles.storyId, -articles.id))
+                ) AS articles ${where(pageConditions)} ORDER BY ${column} ${direction}, id ${direction} LIMIT $${data.length}`
+                : `SELECT ${articleSelectColumns} FROM articles ${where(pageConditions)} ORDER BY ${column} ${direction}, id ${direction} LIMIT $${data.length}`,
+            data
+        );
+
+        const hasNextPage = rows.length > limit;
+
+        if (hasNextPage) {
+            rows.pop();
+        }
 
-            // Add a new property to each row called "mostCommonVowel"
-            for (let row of rows) {
-                row.wordwithmostvowels = this.wordWithMostVowels(row.title);
+        for (let row of rows) {
+            delete row.storyrank;
+
+            if (query.analytics !== false) {
+                this.addAnalytics(row);
             }
+        }
+
+        const last = rows[rows.length - 1];
+
+        return {
+            data: rows,
+            nextCursor: hasNextPage ? this.encodeCursor({ sort, order, value: last[column.toLowerCase()], id: last.id }) : null,
+        };
+    }
+
+    /**
+     * Go through every article matching the query, without loading them all at once. The articles are read a page at a time with the same keyset pagination as get, so memory use stays flat however many articles there are.
+     *
+     * @param {ArticleQuery} query The filters and sorting. The limit is the total number of articles, and without one every matching article is returned.
+     * @param {number} pageSize How many articles to read from the database at a time
+     * @returns {AsyncGenerator<any>}
+     * @throws {Error}
+     */
+    async *stream(query: ArticleQuery = {}, pageSize: number = 500): AsyncGenerator<any> {
+        let remaining = query.limit ?? Infinity;
+        let cursor = query.cursor;
+
+        while (remaining > 0) {
+            const page = await this.get({ ...query, cursor, limit: Math.min(pageSize, remaining) });
+
+            for (const article of page.data) {
+                yield article;
+            }
+
+            remaining -= page.data.length;
+
+            if (!page.nextCursor) {
+                break;
+            }
+
+            cursor = this.decodeCursor(page.nextCursor)!;
+        }
+    }
+
+    /**
+     * Search the titles and descriptions of the articles, most relevant first
+     *
+     * Each article is stemmed with the text search configuration of its own language, so "élection" finds "élections" in Le Monde and "election" finds "elections" in the Guardian, and the search terms are parsed with that same configuration. Parsing the terms per article means Postgres can't use the GIN index for it though, so we first narrow the articles down with the terms parsed by every configuration. Any article that matches its own configuration's query also matches that combined query, so the narrowing never loses a result.
+     *
+     * @param {SearchQuery} query
+     * @returns {Promise<{ data: any[] }>}
+     * @throws {Error}
+     */
+    search = async (query: SearchQuery): Promise<{ data: any[] }> => {
+        // The configuration names are our own constants, not user input, so they are safe to put in the query.
+        const anyConfigQuery = [...new Set([...Object.values(searchConfigs), "simple"])]
+            .map((config) => `websearch_to_tsquery('${config}', $1)`)
+            .join(" || ");
+
+        const data: any[] = [query.q];
+        const conditions = [`searchVector @@ (${anyConfigQuery})`, "searchVector @@ query"];
 
-            return rows;
+        if (query.feed) {
+            data.push(query.feed.id);
+            conditions.push(`feedId = $${data.length}`);
         }
-        catch (e) {
-            throw e;
+
+        data.push(query.limit ?? 20, query.offset ?? 0);
+
+        const rows = await runQuery(
+            `SELECT ${articleSelectColumns},
+                ts_rank_cd(searchVector, query) AS rank,
+                ts_headline(searchConfig, title, query, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>') AS titleHighlight,
+                ts_headline(searchConfig, description, query, 'MaxFragments=2, StartSel=<mark>, StopSel=</mark>') AS snippet
+            FROM articles, LATERAL websearch_to_tsquery(searchConfig, $1) AS query
+            WHERE ${conditions.join(" AND ")}
+            ORDER BY rank DESC, articles.id DESC
+            LIMIT $${data.length - 1} OFFSET $${data.length}`,
+            data
+        );
+
+        for (let row of rows) {
+            this.addAnalytics(row);
+        }
+
+        return { data: rows };
+    }
+
+    /**
+     * Find the keywords that appear in the most articles within a time window
+     *
+     * @param {KeywordQuery} query
+     * @returns {Promise<{ from: Date, to: Date, articleCount: number, data: KeywordCount[] }>}
+     * @throws {Error}
+     */
+    keywordTrends = async (query: KeywordQuery): Promise<{ from: Date, to: Date, articleCount: number, data: KeywordCount[] }> => {
+        const trends = await this.analytics.trending(this.stream({ feed: query.feed, from: query.from, to: query.to, analytics: false }), query.limit);
+
+        return { from: query.from, to: query.to, articleCount: trends.articleCount, data: trends.keywords };
+    }
+
+    /**
+     * Get the stories, with their articles, the most recently published first
+     *
+     * A story that lost articles, such as when a feed is removed, is only returned while it still has at least two.
+     *
+     * @param {StoryQuery} query
+     * @returns {Promise<{ data: Story[] }>}
+     * @throws {Error}
+     */
+    stories = async (query: StoryQuery = {}): Promise<{ data: Story[] }> => {
+        // The filters apply to the articles, and a story matches when one of its articles matches all of them
+        const conditions: string[] = [];
+        const data: any[] = [];
+
+        if (query.feed) {
+            data.push(query.feed.id);
+            conditions.push(`articles.feedId = $${data.length}`);
+        }
+
+        if (query.from) {
+            data.push(query.from);
+            conditions.push(`articles.publicationDate >= $${data.length}`);
+        }
+
+        if (query.to) {
+            data.push(query.to);
+            conditions.push(`articles.publicationDate <= $${data.length}`);
+        }
+
+        data.push(query.limit ?? 20, query.offset ?? 0);
+
+        const stories = await runQuery(
+            `SELECT storyArticles.storyId AS id,
+                count(*)::int AS "articleCount",
+                count(DISTINCT articles.feedId)::int AS "feedCount",
+                min(articles.publicationDate) AS "firstPublishedAt",
+                max(articles.publicationDate) AS "lastPublishedAt"
+            FROM storyArticles JOIN articles ON articles.id = storyArticles.articleId
+            GROUP BY storyArticles.storyId
+            HAVING count(*) >= 2 ${conditions.length ? `AND bool_or(${conditions.join(" AND ")})` : ""}
+            ORDER BY "lastPublishedAt" DESC, id DESC
+            LIMIT $${data.length - 1} OFFSET $${data.length}`,
+            data
+        );
+
+        if (stories.length === 0) {
+            return { data: [] };
+        }
+
+        const articles = await runQuery(
+            `SELECT storyArticles.storyId AS "storyId", ${articleSelectColumns}
+            FROM storyArticles JOIN articles ON articles.id = storyArticles.articleId
+            WHERE storyArticles.storyId = ANY($1)
+            ORDER BY articles.publicationDate ASC, articles.id ASC`,
+            [stories.map((story) => story.id)]
+        );
+
+        const members = new Map<number, any[]>(stories.map((story) => [story.id, []]));
+
+        for (const { storyId, ...article } of articles) {
+            this.addAnalytics(article);
+            members.get(storyId)!.push(article);
+        }
+
+        return {
+            data: stories.map((story) => ({ ...story, title: members.get(story.id)![0].title, articles: members.get(story.id)! })),
+        };
+    }
+
+    /**
+     * Add the computed analytics to an article row. The properties are lowercase like the columns of the row.
+     *
+     * @param {any} row
+     */
+    private addAnalytics = (row: any): void => {
+        const analytics = this.analytics.analyze(row);
+
+        row.wordwithmostvowels = analytics.wordWithMostVowels;
+        row.wordcount = analytics.wordCount;
+        row.readingtime = analytics.readingTime;
+        row.keywords = analytics.keywords;
+    }
+
+    /**
+     * Encode a cursor into an opaque string that can be sent to the user. It is opaque so that users don't start relying on what is inside it.
+     *
+     * @param {ArticleCursor} cursor
+     * @returns {string}
+     */
+    encodeCursor = (cursor: ArticleCursor): string => {
+        return Buffer.from(JSON.stringify({ ...cursor, value: cursor.value.toISOString() })).toString("base64url");
+    }
+
+    /**
+     * Decode a cursor that was created with encodeCursor
+     *
+     * @param {string} cursor
+     * @returns {ArticleCursor | null} The cursor, or null if it is malformed
+     */
+    decodeCursor = (cursor: string): ArticleCursor | null => {
+        try {
+            const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+            const value = new Date(decoded.value);
+
+            if (!["publicationDate", "importDate"].includes(decoded.sort) || !["asc", "desc"].includes(decoded.order) || isNaN(value.getTime()) || !Number.isInteger(decoded.id)) {
+                return null;
+            }
+
+            return { sort: decoded.sort, order: decoded.order, value, id: decoded.id };
+        } catch (error) {
+            return null;
         }
     }
 
     /**
      * Save the RSS feed import to the database
      *
-     * @returns {Promise<Object>}
+     * Each item is either inserted, updated if its content changed, left unchanged, skipped if it is an article we already have under another ID, or rejected with a reason. A rejected item doesn't stop the rest of the feed from being imported. The inserted articles are then grouped with the articles about the same story.
+     *
+     * The articles are written in batches of multi-row upserts, so a feed of thousands of items only takes a handful of round trips to the database, and everything - the articles and the report - is written in a single transaction. If anything goes wrong along the way, nothing of the import is kept, rather than half of the feed.
+     *
+     * @param {ParsedFeed} results The parsed feed
+     * @param {Feed} feed The registered feed the results were fetched from
+     * @param {ImportReport} report The report to fill in. Its importDate is when the import started.
+     * @returns {Promise<ImportReport>} The stored report
+     * @throws {Error} If the database fails, in which case nothing was saved
      */
-    saveImportRequest = async (results: any): Promise<Object> => {
-        // Save the import request to the database. It was not in the specifications, but it could be a good idea to have an additional "status" column that could be used to determine if the import was successful or not, as well as the URL that was attempted to be imported. Note how we also don't pass a date here - we could do so, but our database has a default value for the column, so we don't need to.
-        await this.runQuery('INSERT INTO imports (rawContent) VALUES ($1)', [JSON.stringify(results)]);
+    saveImportRequest = async (results: ParsedFeed, feed: Feed, report: ImportReport): Promise<ImportReport> => {
+        const items = results.items;
+
+        report.itemCount = items.length;
 
-        // Depending if the error is critical in the business use-case or not, we could throw a fatal error here.
-        if (!results.items) {
-            throw new Error("No items found in the RSS feed, so no articles were imported");
+        // The language decides how the articles are stemmed for searching. The feed's own setting wins over the language the feed declares, since some feeds declare the wrong one.
+        const language = feed.language ?? results.language;
+        const searchConfig = searchConfigFor(language);
+
+        // The rows to upsert, in the order of the articleColumns, and the fingerprints of the items by their ID
+        const rows: any[][] = [];
+        const fingerprints = new Map<string, Fingerprint>();
+
+        for (const item of this.acceptItems(items, report.rejections)) {
+            const fingerprint = this.storyClusterer.fingerprint(item, language);
+            fingerprints.set(item.id!, fingerprint);
+            rows.push([feed.id, item.id, report.importDate, item.title, item.description, item.publishedAt, item.link, item.mainPicture ?? "", language, searchConfig, fingerprint.canonicalLink, fingerprint.contentHash, fingerprint.signature]);
         }
 
-        // We set up a custom pool here so we can either use transactions, or at the very least, keep the connection open for the duration of the import. This is important because we don't want to open and close a connection for every single article we import. That would be very inefficient.
+        report.rejected = report.rejections.length;
+
+        // We set up a custom pool here so we can use a transaction, which needs every query to go through the same connection.
         const client = await pool.connect();
 
-        for (let item of results.items) {
+        try {
+            await client.query('BEGIN');
 
-            // There's a few ways to do this. Here I use a try/catch block to determine if the article already exists because the database has a unique constraint on the externalId column. However, one could also use a SELECT query to check if the article already exists. For performance, it would be preferrable to use a SELECT that gets all the externalIds and then check if the article already exists in the array of externalIds - that way we only have to make the one DB call. You could then also use a bulk insert to insert all the articles at once and further improve performance. For large databases, it would be the most sensible way to do it. However, for the sake of simplicity in this example, I've chosen to use a try/catch block.
-            try {
-                await client.query('INSERT INTO articles (externalId, importDate, title, description, publicationDate, link, mainPicture) VALUES ($1, $2, $3, $4, $5, $6, $7)', [item[this.primaryKey], new Date(), item.title, item.contentSnippet, item.pubDate, item.link, item.image?.url ?? results.image?.url ?? ""]);
-            } catch (error: any) {
-                // If the article already exists, update it
-                if (error.code === "23505") {
-                    await client.query('UPDATE articles SET title = $1, description = $2, publicationDate = $3, link = $4, mainPicture = $5 WHERE externalId = $6', [item.title, item.contentSnippet, item.pubDate, item.link, item.image?.url ?? "", item[this.primaryKey]]);
-                }
-                else {
-                    throw error;
+            // The feed is locked until the transaction ends, so that the imports of the feed by other processes, such as the command line, are written one after the other
+            await client.query('SELECT pg_advisory_xact_lock($1)', [feed.id]);
+
+            // The articles republished under a new ID are skipped, since we already have them. They are looked for once the feed is locked, so that two imports of the feed at the same time can't both miss the other's articles.
+            const duplicates = await this.storyClusterer.findDuplicates(client, feed.id, [...fingerprints].map(([externalId, fingerprint]) => ({ externalId, fingerprint })));
+            const newRows = rows.filter((row) => !duplicates.has(row[1]));
+            report.duplicates = rows.length - newRows.length;
+
+            // The inserted articles, to group them into stories, and the updated ones, whose bands have to follow their new content
+            const inserted: FingerprintedArticle[] = [];
+            const updated: FingerprintedArticle[] = [];
+
+            for (let i = 0; i < newRows.length; i += upsertBatchSize) {
+                const batch = newRows.slice(i, i + upsertBatchSize);
+
+                // Only the rows that were inserted or actually updated are returned, since the WHERE skips the update of rows that didn't change. xmax is 0 for a freshly inserted row, which is how we tell the two apart.
+                const result = await client.query(
+                    `INSERT INTO articles (${articleColumns.join(", ")}) VALUES ${this.placeholders(batch.length, articleColumns.length)}
+                    ON CONFLICT (feedId, externalId) DO UPDATE SET ${articleUpdatedColumns.map((column) => `${column} = EXCLUDED.${column}`).join(", ")}
+                    WHERE (${articleComparedColumns.map((column) => `articles.${column}`).join(", ")}) IS DISTINCT FROM (${articleComparedColumns.map((column) => `EXCLUDED.${column}`).join(", ")})
+                    RETURNING id, externalId AS "externalId", publicationDate AS "publicationDate", (xmax = 0) AS inserted`,
+                    batch.flat()
+                );
+
+                for (const row of result.rows) {
+                    const article = { id: row.id, publicationDate: row.publicationDate, signature: fingerprints.get(row.externalId)!.signature };
+
+                    if (row.inserted) {
+                        report.inserted++;
+                        inserted.push(article);
+                    } else {
+                        report.updated++;
+                        updated.push(article);
+                    }
                 }
+
+                report.unchanged += batch.length - result.rows.length;
             }
 
-        }
+            // Only the new articles are grouped. An article that was updated stays in its story, since a story rarely changes with a correction, but its minHash was rewritten, so its bands are too.
+            await this.storyClusterer.updateBands(client, updated);
+            await this.storyClusterer.cluster(client, inserted);
+
+            // An import that didn't manage to import anything failed, even if each item on its own was only rejected
+            if (items.length === 0) {
+                report.status = "failed";
+                report.error = "No items found in the RSS feed, so no articles were imported";
+            } else if (report.rejected === items.length) {
+                report.status = "failed";
+                report.error = "Every item in the RSS feed was rejected";
+            } else {
+                report.status = report.rejected > 0 ? "partial" : "success";
+            }
+
+            report.durationMs = Date.now() - report.importDate.getTime();
+
+            // Save the import request to the database, along with what we got, so that it can be looked into later. Note how the raw content is the parsed feed rather than the XML - it's easier to read, and the XML can always be downloaded again.
+            report.id = await this.importHistory.record(report, JSON.stringify(results), client);
+
+            await client.query('COMMIT');
+        } catch (error) {
+            await client.query('ROLLBACK');
+
+            // The counts were of writes that have now been undone
+            report.inserted = report.updated = report.unchanged = 0;
+            report.id = null;
 
-        client.release();
+            throw error;
+        } finally {
+            client.release();
+        }
 
-        // Again depending on the business use-case, we could return a wide range of values. For example, we could return the number of articles that were imported, or the number of articles that were updated, or the number of articles that were imported and the number of articles that were updated. For the sake of simplicity, I've chosen to just return the results. We could also just return "true", in which case we'd probably return "false" on error instead of throwing an error.
-        return results;
+        return report;
     }
 
     /**
-     * Get the word with the most vowels in a given string
+     * Work out what importing a parsed feed would change, without writing anything. The items are sorted out the same way as when they are saved, except that the articles aren't written, so there is no telling which of them would be grouped into stories.
      *
-     * @param {string} title
-     * @returns {string}
+     * @param {ParsedFeed} results The parsed feed, as returned by import when not saving
+     * @param {Feed} feed The registered feed the results were fetched from
+     * @returns {Promise<ImportPreview>}
+     * @throws {Error}
      */
-    wordWithMostVowels = (title: string): string => {
-        const words = title.split(' ');
-        let wordWithMostVowels = '';
-        let mostVowels = 0;
+    preview = async (results: ParsedFeed, feed: Feed): Promise<ImportPreview> => {
+        const preview: ImportPreview = { inserted: [], updated: [], unchanged: [], duplicates: [], rejections: [] };
+        const accepted = this.acceptItems(results.items, preview.rejections);
+        const language = feed.language ?? results.language;
+
+        const client = await pool.connect();
+
+        try {
+            const duplicates = await this.storyClusterer.findDuplicates(client, feed.id, accepted.map((item) => ({ externalId: item.id!, fingerprint: this.storyClusterer.fingerprint(item, language) })));
+            const items = accepted.filter((item) => !duplicates.has(item.id!));
 
-        for (let word of words) {
-            let vowelCount = 0;
-            for (let letter of word) {
-                if (vowels.includes(letter)) {
-                    vowelCount++;
+            // The same comparison as the upsert, so that an article is only said to change if importing it would actually update it
+            const { rows } = await client.query(
+                `SELECT item.externalId AS "externalId",
+                    (articles.title, articles.description, articles.publicationDate, articles.link, articles.mainPicture, articles.language, articles.searchConfig)
+                    IS DISTINCT FROM (item.title, item.description, item.publicationDate, item.link, item.mainPicture, $8, $9::regconfig) AS changed
+                FROM unnest($2::text[], $3::text[], $4::text[], $5::timestamp[], $6::text[], $7::text[]) AS item (externalId, title, description, publicationDate, link, mainPicture)
+                JOIN articles ON articles.feedId = $1 AND articles.externalId = item.externalId`,
+                [
+                    feed.id,
+                    items.map((item) => item.id),
+                    items.map((item) => item.title),
+                    items.map((item) => item.description),
+                    items.map((item) => item.publishedAt),
+                    items.map((item) => item.link),
+                    items.map((item) => item.mainPicture ?? ""),
+                    language,
+                    searchConfigFor(language),
+                ]
+            );
+
+            const changed = new Map<string, boolean>(rows.map((row) => [row.externalId, row.changed]));
+
+            for (const item of accepted) {
+                if (duplicates.has(item.id!)) {
+                    preview.duplicates.push(item);
+                } else if (!changed.has(item.id!)) {
+                    preview.inserted.push(item);
+                } else if (changed.get(item.id!)) {
+                    preview.updated.push(item);
+                } else {
+                    preview.unchanged.push(item);
                 }
             }
+        } finally {
+            client.release();
+        }
+
+        return preview;
+    }
+
+    /**
+     * Keep the items of a feed that can be imported, and give the reason the others can't
+     *
+     * @param {FeedItem[]} items
+     * @param {Rejection[]} rejections Where the rejected items are added
+     * @returns {FeedItem[]} The items that can be imported, in the order of the feed
+     */
+    private acceptItems = (items: FeedItem[], rejections: Rejection[]): FeedItem[] => {
+        const accepted: FeedItem[] = [];
+        const seen = new Set<string>();
+
+        for (const item of items) {
+            let rejection = this.validateItem(item);
 
-            if (vowelCount > mostVowels) {
-                mostVowels = vowelCount;
-                wordWithMostVowels = word;
+            // An upsert can't change the same row twice, and the feed shouldn't have two items with the same ID anyway. We keep the first one, which is usually the most recent.
+            if (!rejection && seen.has(item.id!)) {
+                rejection = "The item has the same ID as an earlier item in the feed";
             }
-            // Else, if the vowel count is the same, then we want to return the word that is longer
-            else if (vowelCount === mostVowels && word.length > wordWithMostVowels.length) {
-                wordWithMostVowels = word;
+
+            if (rejection) {
+                rejections.push({ externalId: item.id, title: item.title, reason: rejection });
+                continue;
             }
+
+            seen.add(item.id!);
+            accepted.push(item);
         }
 
+        return accepted;
+    }
+
+    /**
+     * Build the placeholders of a multi-row insert, for example ($1, $2), ($3, $4) for 2 rows of 2 columns
+     *
+     * @param {number} rowCount
+     * @param {number} columnCount
+     * @returns {string}
+     */
+    private placeholders = (rowCount: number, columnCount: number): string => {
+        const rows: string[] = [];
+
+        for (let row = 0; row < rowCount; row++) {
+            const columns: string[] = [];
+
+            for (let column = 1; column <= columnCount; column++) {
+                columns.push(`$${row * columnCount + column}`);
+            }
 
-        return wordWithMostVowels;
+            rows.push(`(${columns.join(", ")})`);
+        }
+
+        return rows.join(", ");
+    }
+
+    /**
+     * Check that an item has everything we need to store it as an article
+     *
+     * @param {FeedItem} item An item of the parsed feed
+     * @returns {string | null} Why the item can't be imported, or null if it can
+     */
+    validateItem = (item: FeedItem): string | null => {
+        if (!item.id) {
+            return "The item has no guid, id or link, so it can't be told apart from the other items";
+        }
+
+        // The column is a VARCHAR(500)
+        if (item.id.length > 500) {
+            return "The ID of the item is longer than 500 characters";
+        }
+
+        if (!item.title) {
+            return "The item has no title";
+        }
+
+        if (!item.link) {
+            return "The item has no link";
+        }
+
+        if (!item.publishedAt) {
+            return "The item has no valid publication date";
+        }
+
+        return null;
+    }
+
+    /**
+     * Get the word with the most vowels in a given string
+     *
+     * @param {string} title
+     * @param {string | null} language The language of the title, which decides what counts as a vowel
+     * @returns {string}
+     */
+    wordWithMostVowels = (title: string, language: string | null = null): string => {
+        return this.analytics.wordWithMostVowels(title, language);
     }
 
     /**
      * Check if a given URL is valid
      *
+     * A URL is valid when it is well-formed and belongs to an enabled feed in the registry.
+     *
+     * @param {any} url
+     * @returns {Promise<boolean>}
+     */
+    isValidUrl = async (url: any): Promise<boolean> => {
+        if (!this.isWellFormedUrl(url)) {
+            return false;
+        }
+
+        return await this.isSupportedFeed(url);
+    }
+
+    /**
+     * Check if a given URL is well-formed
+     *
      * We'll try to create a new URL object. If it throws an error, then the URL is invalid. However, there are some cases that would pass this check, but would still be invalid. For example, if the URL is without a protocol or starts with `..`, so we add a few more checks to make sure the URL is valid.
      *
      * @see https://url.spec.whatwg.org/#example-url-parsing
      * @param {any} url
      * @returns {boolean}
      */
-    isValidUrl = (url: any): boolean => {
+    isWellFormedUrl = (url: any): url is string => {
         if (!url || typeof url !== 'string') {
             return false;
         }
 
-        // We need to check both http:// and https:// instead of just looking for "http" because theoretically http:hello would be a valid URL for the URL constructor, but it's not a valid URL in our case.
-        if (!url.startsWith('http://') && !url.startsWith('https://')) {
+        // We need to check both http:// and https:// instead of just looking for "http" because theoretically http:hello would be a valid URL for the URL constructor, but it's not a valid URL in our case. The scheme is case-insensitive, so HTTPS:// is fine too.
+        if (!/^https?:\/\//i.test(url)) {
             return false;
         }
 
         try {
             new URL(url);
-            return this.isSupportedFeed(url);
+            return true;
         } catch (error) {
             return false;
         }
     }
 
     /**
-     * We only want to support a few RSS feeds, so we'll check if the given URL is one of the supported RSS feeds
+     * We only want to support the RSS feeds in the registry, so we'll check if the given URL is one of the enabled feeds
      *
      * @param {string} feedUrl
-     * @returns {boolean}
+     * @returns {Promise<boolean>}
      */
-    isSupportedFeed = (feedUrl: string): boolean => {
-        return this.supportedRssFeeds.includes(feedUrl);
-    }
+    isSupportedFeed = async (feedUrl: string): Promise<boolean> => {
+        const feed = await this.feedRegistry.findByUrl(feedUrl);
 
-    /**
-     * Run a query against the database. This is a helper function that we can use to run any query against the database. Its a good idea to have this function here because it can ensure that we always have a connection to the database, and that we always release the connection when we're done with it.
-     *
-     * @param {string} query
-     * @param {any[]} data
-     * @returns {Promise<any[]>}
-     * @throws {Error}
-     */
-    runQuery = async (query: string, data: any[] = [] as any[]): Promise<any[]> => {
-        const client = await pool.connect();
-
-        try {
-            const result = await client.query(query, data);
-
-            return result.rows;
-
-        } catch (error) {
-            throw error;
-        }
-
-        finally {
-            client.release();
-        }
+        return feed !== null && feed.enabled;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,344 @@
+import { Feed, FeedRegistry } from "./FeedRegistry.js";
+import { Clock, systemClock } from "./../utils/clock.js";
+
+/**
+ * The options of the scheduler. Only the registry and the import function are required, the rest have sensible defaults.
+ */
+export interface SchedulerOptions {
+    // Where the feeds to poll come from, and where the outcome of each poll is recorded
+    registry: Pick<FeedRegistry, "all" | "recordPoll">;
+    // Imports a feed. It should throw if the import failed.
+    importFeed: (feed: Feed) => Promise<unknown>;
+    // Seconds between two imports of a feed that doesn't have its own poll interval
+    defaultInterval?: number;
+    // How much each delay may randomly differ from the interval, as a fraction of it. 0.1 means up to 10% sooner or later.
+    jitter?: number;
+    // The longest we'll wait before retrying a failing feed, in seconds
+    maxBackoff?: number;
+    // Seconds between two checks of the registry for added, changed or removed feeds
+    refreshInterval?: number;
+    clock?: Clock;
+    // Returns a number between 0 (inclusive) and 1 (exclusive). Tests can pass a fixed sequence to make the jitter predictable.
+    random?: () => number;
+}
+
+/**
+ * The polling state of a single feed, as reported by the status method
+ */
+export interface ScheduleStatus {
+    feedId: number;
+    url: string;
+    name: string;
+    // Seconds between two imports, when the feed isn't failing
+    interval: number;
+    // When the next import will start, or null if one is running right now
+    nextRunAt: Date | null;
+    running: boolean;
+    consecutiveFailures: number;
+    lastSuccessAt: Date | null;
+    lastErrorAt: Date | null;
+    lastError: string | null;
+}
+
+// The polling state of a single feed, as the scheduler keeps it
+interface ScheduleState {
+    feed: Feed;
+    nextRunAt: Date | null;
+    running: boolean;
+    consecutiveFailures: number;
+    lastSuccessAt: Date | null;
+    lastErrorAt: Date | null;
+    lastError: string | null;
+    timer: unknown;
+    inFlight: Promise<void> | null;
+}
+
+// The longest a timer can wait, in milliseconds. Node fires the timers that would wait longer after 1 millisecond instead.
+const maxTimerDelay = 2 ** 31 - 1;
+
+/**
+ * A class that imports every enabled feed in the registry in the background, on an interval.
+ *
+ * The feeds are staggered: each one is first imported at a random point within its interval, and every later delay has some jitter, so the imports don't all fire at the same moment. A feed is never imported twice at the same time, and a feed that keeps failing is retried less and less often (exponential backoff) until it recovers.
+ *
+ * The scheduler runs in the same process as the API. That's simple and enough for a handful of feeds; with many instances of the API behind a load balancer, you'd want a single worker or a job queue instead so that each feed is only polled once.
+ */
+export class Scheduler {
+
+    /**
+     * The polling state of each feed, keyed by feed ID
+     *
+     * @type {Map<number, ScheduleState>}
+     */
+    schedules: Map<number, ScheduleState> = new Map();
+
+    /**
+     * Whether the scheduler has been started and not stopped since
+     *
+     * @type {boolean}
+     */
+    started: boolean = false;
+
+    private options: Required<SchedulerOptions>;
+
+    private refreshTimer: unknown = null;
+
+    /**
+     * Constructor for the Scheduler class
+     *
+     * @param {SchedulerOptions} options
+     */
+    constructor(options: SchedulerOptions) {
+        this.options = {
+            registry: options.registry,
+            importFeed: options.importFeed,
+            defaultInterval: options.defaultInterval ?? 15 * 60,
+            jitter: options.jitter ?? 0.1,
+            maxBackoff: options.maxBackoff ?? 6 * 60 * 60,
+            refreshInterval: options.refreshInterval ?? 60,
+            clock: options.clock ?? systemClock,
+            random: options.random ?? Math.random,
+        };
+    }
+
+    /**
+     * Start polling the feeds
+     *
+     * @returns {Promise<void>}
+     */
+    start = async (): Promise<void> => {
+        if (this.started) {
+            return;
+        }
+
+        this.started = true;
+
+        // The periodic refresh is set up first, so that if the registry can't be read right now, it is retried later
+        this.scheduleRefresh();
+        await this.refresh();
+    }
+
+    /**
+     * Stop polling the feeds. Imports that are already running are allowed to finish, and the returned promise resolves once they have.
+     *
+     * @returns {Promise<void>}
+     */
+    stop = async (): Promise<void> => {
+        this.started = false;
+
+        this.options.clock.clearTimeout(this.refreshTimer);
+
+        for (const schedule of this.schedules.values()) {
+            this.options.clock.clearTimeout(schedule.timer);
+        }
+
+        await this.idle();
+
+        this.schedules.clear();
+    }
+
+    /**
+     * Sync the schedules with the registry: start polling new and re-enabled feeds, stop polling removed and disabled ones, and pick up changed intervals. This runs periodically on its own, but can be called right after the registry was changed to apply the change immediately.
+     *
+     * @returns {Promise<void>}
+     */
+    refresh = async (): Promise<void> => {
+        if (!this.started) {
+            return;
+        }
+
+        const feeds = (await this.options.registry.all()).filter((feed) => feed.enabled);
+        const ids = new Set(feeds.map((feed) => feed.id));
+
+        for (const [id, schedule] of this.schedules) {
+            if (!ids.has(id)) {
+                this.options.clock.clearTimeout(schedule.timer);
+                this.schedules.delete(id);
+            }
+        }
+
+        for (const feed of feeds) {
+            const schedule = this.schedules.get(feed.id);
+
+            if (!schedule) {
+                const state: ScheduleState = {
+                    feed,
+                    nextRunAt: null,
+                    running: false,
+                    consecutiveFailures: 0,
+                    lastSuccessAt: feed.lastSuccessAt,
+                    lastErrorAt: feed.lastErrorAt,
+                    lastError: feed.lastError,
+                    timer: null,
+                    inFlight: null,
+                };
+
+                this.schedules.set(feed.id, state);
+
+                // Spread the first imports over the whole interval, so that starting the scheduler doesn't import every feed at once
+                this.scheduleRun(state, this.options.random() * this.intervalOf(feed) * 1000);
+                continue;
+            }
+
+            const intervalChanged = this.intervalOf(feed) !== this.intervalOf(schedule.feed);
+            schedule.feed = feed;
+
+            // A shorter interval should apply now rather than after the current, longer wait. A running import schedules its own next run when it finishes.
+            if (intervalChanged && !schedule.running) {
+                this.scheduleRun(schedule, this.nextDelay(schedule));
+            }
+        }
+    }
+
+    /**
+     * Import a feed right away, unless it is already being imported, and continue its schedule from now.
+     *
+     * @param {number} feedId
+     * @returns {Promise<void>} Resolves once the import has finished
+     */
+    runNow = async (feedId: number): Promise<void> => {
+        const schedule = this.schedules.get(feedId);
+
+        if (!schedule) {
+            throw new Error("The feed is not scheduled. It may not exist or be disabled, or the scheduler isn't started.");
+        }
+
+        await this.run(schedule);
+    }
+
+    /**
+     * Wait for all running imports to finish
+     *
+     * @returns {Promise<void>}
+     */
+    idle = async (): Promise<void> => {
+        await Promise.all([...this.schedules.values()].map((schedule) => schedule.inFlight));
+    }
+
+    /**
+     * Get the polling state of every scheduled feed
+     *
+     * @returns {ScheduleStatus[]}
+     */
+    status = (): ScheduleStatus[] => {
+        return [...this.schedules.values()].map((schedule) => ({
+            feedId: schedule.feed.id,
+            url: schedule.feed.url,
+            name: schedule.feed.name,
+            interval: this.intervalOf(schedule.feed),
+            nextRunAt: schedule.nextRunAt,
+            running: schedule.running,
+            consecutiveFailures: schedule.consecutiveFailures,
+            lastSuccessAt: schedule.lastSuccessAt,
+            lastErrorAt: schedule.lastErrorAt,
+            lastError: schedule.lastError,
+        }));
+    }
+
+    /**
+     * Import a feed and schedule its next import. If the feed is already being imported, this waits for that import instead of starting another one.
+     *
+     * @param {ScheduleState} schedule
+     * @returns {Promise<void>}
+     */
+    private run = (schedule: ScheduleState): Promise<void> => {
+        if (schedule.inFlight) {
+            return schedule.inFlight;
+        }
+
+        this.options.clock.clearTimeout(schedule.timer);
+        schedule.running = true;
+        schedule.nextRunAt = null;
+
+        schedule.inFlight = (async () => {
+            let error: string | null = null;
+
+            try {
+                await this.options.importFeed(schedule.feed);
+                schedule.consecutiveFailures = 0;
+                schedule.lastSuccessAt = new Date(this.options.clock.now());
+            } catch (e: any) {
+                error = e?.message ?? String(e);
+                schedule.consecutiveFailures++;
+                schedule.lastErrorAt = new Date(this.options.clock.now());
+                schedule.lastError = error;
+            }
+
+            try {
+                await this.options.registry.recordPoll(schedule.feed.id, error);
+            } catch (e) {
+                // Not being able to record the outcome shouldn't stop the feed from being polled. If the database is down, the next import will fail and be retried anyway.
+            }
+
+            schedule.running = false;
+            schedule.inFlight = null;
+
+            // The feed may have been removed or the scheduler stopped while it was being imported
+            if (this.started && this.schedules.get(schedule.feed.id) === schedule) {
+                this.scheduleRun(schedule, this.nextDelay(schedule));
+            }
+        })();
+
+        return schedule.inFlight;
+    }
+
+    /**
+     * Set the timer for the next import of a feed, replacing any existing one
+     *
+     * @param {ScheduleState} schedule
+     * @param {number} delay In milliseconds
+     */
+    private scheduleRun = (schedule: ScheduleState, delay: number): void => {
+        this.options.clock.clearTimeout(schedule.timer);
+        schedule.nextRunAt = new Date(this.options.clock.now() + delay);
+
+        // A timer that would wait longer than it can fires right away instead, so a longer delay is waited out in several timers
+        const wait = Math.min(delay, maxTimerDelay);
+        schedule.timer = this.options.clock.setTimeout(() => delay > wait ? this.scheduleRun(schedule, delay - wait) : this.run(schedule), wait);
+    }
+
+    /**
+     * Set the timer for the next check of the registry
+     */
+    private scheduleRefresh = (): void => {
+        this.refreshTimer = this.options.clock.setTimeout(async () => {
+            try {
+                await this.refresh();
+            } catch (error) {
+                // The registry may be briefly unavailable, in which case we keep the current schedules and try again next time
+            }
+
+            if (this.started) {
+                this.scheduleRefresh();
+            }
+        }, this.options.refreshInterval * 1000);
+    }
+
+    /**
+     * How long to wait before the next import of a feed, in milliseconds. After each consecutive failure the wait doubles, up to the maximum backoff.
+     *
+     * @param {ScheduleState} schedule
+     * @returns {number}
+     */
+    private nextDelay = (schedule: ScheduleState): number => {
+        const interval = this.intervalOf(schedule.feed);
+        const seconds = schedule.consecutiveFailures > 0
+            ? Math.min(interval * 2 ** schedule.consecutiveFailures, Math.max(this.options.maxBackoff, interval))
+            : interval;
+
+        // Random jitter between -jitter and +jitter
+        const jitter = (this.options.random() * 2 - 1) * this.options.jitter;
+
+        return seconds * 1000 * (1 + jitter);
+    }
+
+    /**
+     * The poll interval of a feed, in seconds
+     *
+     * @param {Feed} feed
+     * @returns {number}
+     */
+    private intervalOf = (feed: Feed): number => {
+        return feed.pollInterval ?? this.options.defaultInterval;
+    }
+}
@@ -0,0 +1,430 @@
+import pg from 'pg'
+import { createHash } from "crypto";
+import { TitleAnalytics } from "./TitleAnalytics.js";
+import { canonicalLink } from "./../utils/urls.js";
+
+/**
+ * What an article is compared with the other articles by
+ */
+export interface Fingerprint {
+    // The link without its tracking parameters, or null if the article has no link
+    canonicalLink: string | null;
+    // The SHA-256 of the normalized title and description
+    contentHash: string;
+    // The MinHash signature of the words of the title and description, or null if there are too few words to compare
+    signature: number[] | null;
+}
+
+/**
+ * An item of a feed, as the duplicates are looked for
+ */
+export interface FingerprintedItem {
+    externalId: string;
+    fingerprint: Fingerprint;
+}
+
+/**
+ * A newly imported article, as it is clustered
+ */
+export interface FingerprintedArticle {
+    id: number;
+    publicationDate: Date;
+    signature: number[] | null;
+}
+
+// A candidate for the story of an article, as the candidates query returns it
+interface Candidate {
+    articleId: number;
+    id: number;
+    minHash: number[];
+    publicationDate: Date;
+    storyId: number | null;
+}
+
+// The advisory lock that is held while clustering. The imports lock their feed with a single key, which Postgres keeps apart from the locks with two keys, so the two can't collide.
+const clusteringLock = [1, 0];
+
+/**
+ * Mix the bits of a 32-bit integer, so that close inputs give unrelated outputs. This is the finalizer of MurmurHash3.
+ *
+ * @param {number} hash
+ * @returns {number} An unsigned 32-bit integer
+ */
+const mix = (hash: number): number => {
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+
+    return hash >>> 0;
+}
+
+/**
+ * Hash a string into a 32-bit integer, with FNV-1a
+ *
+ * @param {string} text
+ * @returns {number} An unsigned 32-bit integer
+ */
+const hashString = (text: string): number => {
+    let hash = 0x811c9dc5;
+
+    for (let i = 0; i < text.length; i++) {
+        hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+    }
+
+    return hash >>> 0;
+}
+
+/**
+ * A class for finding the articles that were already imported under another ID, and for grouping the articles of every feed that cover the same story.
+ *
+ * An article is the same as another one when it has the same canonical link, or the same title and description. That only happens within a feed, when the publisher changes the guid of an article it republishes.
+ *
+ * Articles about the same story are only similar though, since each publisher writes its own. How similar two articles are is the Jaccard similarity of the sets of words of their titles and descriptions: the number of words they share over the number of words they have between them. Comparing every new article with every article would be too slow, so each article gets a MinHash signature, where the chance that two signatures agree at a position is that similarity. The signatures are cut into bands, and only the articles that have the same hash for at least one band are compared, which are very likely to include every article that is similar enough.
+ *
+ * @see http://infolab.stanford.edu/~ullman/mmds/ch3n.pdf
+ */
+export class StoryClusterer {
+
+    /**
+     * The number of hashes in a signature
+     *
+     * @type {number}
+     */
+    signatureSize: number = 64;
+
+    /**
+     * The number of hashes per band. Smaller bands find the less similar articles too, but give more candidates to compare. With 32 bands of 2, two articles with a similarity of 0.3 have a 95% chance of being compared.
+     *
+     * @type {number}
+     */
+    bandSize: number = 2;
+
+    /**
+     * How similar two articles must be to be in the same story, between 0 and 1
+     *
+     * @type {number}
+     */
+    threshold: number = 0.3;
+
+    /**
+     * How far apart two articles can be published and still be in the same story, in milliseconds. The same words come back in unrelated stories over time.
+     *
+     * @type {number}
+     */
+    window: number = 3 * 24 * 60 * 60 * 1000;
+
+    /**
+     * The number of articles above which a band hash is ignored. The hashes that many articles share come from very common words, and would make every one of those articles a candidate of the others.
+     *
+     * @type {number}
+     */
+    maxBucketSize: number = 50;
+
+    /**
+     * The number of different words below which an article isn't clustered, since there isn't enough to tell what it is about
+     *
+     * @type {number}
+     */
+    minWords: number = 3;
+
+    /**
+     * Finds the words of the articles
+     *
+     * @type {TitleAnalytics}
+     */
+    analytics: TitleAnalytics = new TitleAnalytics();
+
+    /**
+     * Compute the fingerprint of an article
+     *
+     * @param {{ title: string | null, description: string | null, link: string | null }} article
+     * @param {string | null} language The language of the article, which decides which words are too common to count
+     * @returns {Fingerprint}
+     */
+    fingerprint = (article: { title: string | null, description: string | null, link: string | null }, language: string | null = null): Fingerprint => {
+        const normalize = (text: string | null): string => (text ?? "").normalize("NFC").toLowerCase().replace(/\s+/g, " ").trim();
+        const words = new Set(this.analytics.terms(`${article.title ?? ""}\n${article.description ?? ""}`, language));
+
+        return {
+            canonicalLink: article.link ? canonicalLink(article.link) : null,
+            contentHash: createHash("sha256").update(`${normalize(article.title)}\n${normalize(article.description)}`).digest("hex"),
+            signature: words.size >= this.minWords ? this.signature(words) : null,
+        };
+    }
+
+    /**
+     * Compute the MinHash signature of a set of words: for each of the hash functions, the smallest hash of the words
+     *
+     * The hash functions are derived from two hashes of each word, which is as good as independent hash functions for MinHash and much cheaper. They must never change, otherwise the signatures that are stored wouldn't match the new ones.
+     *
+     * @see https://www.eecs.harvard.edu/~michaelm/postscripts/rsa2008.pdf
+     *
+     * @param {Set<string>} words
+     * @returns {number[]} Signed 32-bit integers, as Postgres stores them
+     */
+    signature = (words: Set<string>): number[] => {
+        const signature: number[] = new Array(this.signatureSize).fill(0xffffffff);
+
+        for (const word of words) {
+            const first = hashString(word);
+            const second = mix(first ^ 0x9e3779b9) | 1;
+
+            for (let i = 0; i < this.signatureSize; i++) {
+                const hash = mix((first + Math.imul(i, second)) >>> 0);
+
+                if (hash < signature[i]) {
+                    signature[i] = hash;
+                }
+            }
+        }
+
+        return signature.map((hash) => hash | 0);
+    }
+
+    /**
+     * Estimate how similar two articles are from their signatures
+     *
+     * @param {number[]} a
+     * @param {number[]} b
+     * @returns {number} The share of the positions where the signatures agree, between 0 and 1
+     */
+    similarity = (a: number[], b: number[]): number => {
+        let same = 0;
+
+        for (let i = 0; i < a.length; i++) {
+            if (a[i] === b[i]) {
+                same++;
+            }
+        }
+
+        return same / a.length;
+    }
+
+    /**
+     * Hash each band of a signature
+     *
+     * @param {number[]} signature
+     * @returns {number[]} The hash of each band, as signed 32-bit integers
+     */
+    bands = (signature: number[]): number[] => {
+        const hashes: number[] = [];
+
+        for (let start = 0; start < signature.length; start += this.bandSize) {
+            let hash = mix(start + 1);
+
+            for (const value of signature.slice(start, start + this.bandSize)) {
+                hash = mix(hash ^ value);
+            }
+
+            hashes.push(hash | 0);
+        }
+
+        return hashes;
+    }
+
+    /**
+     * Find the items of a feed that are articles of the feed we already have, or earlier items of the same feed, under another ID. Items whose ID we already have are never duplicates, since importing them updates their article.
+     *
+     * @param {pg.PoolClient} client The client of the transaction of the import
+     * @param {number} feedId
+     * @param {FingerprintedItem[]} items In the order of the feed
+     * @returns {Promise<Set<string>>} The IDs of the items that are duplicates
+     */
+    findDuplicates = async (client: pg.PoolClient, feedId: number, items: FingerprintedItem[]): Promise<Set<string>> => {
+        const { rows } = await client.query(
+            `SELECT externalId AS "externalId", canonicalLink AS "canonicalLink", contentHash AS "contentHash" FROM articles
+            WHERE feedId = $1 AND (externalId = ANY($2) OR canonicalLink = ANY($3) OR contentHash = ANY($4))`,
+            [
+                feedId,
+                items.map((item) => item.externalId),
+                items.map((item) => item.fingerprint.canonicalLink).filter((link) => link !== null),
+                items.map((item) => item.fingerprint.contentHash),
+            ]
+        );
+
+        const existingIds = new Set(rows.map((row) => row.externalId));
+        const links = new Set(rows.map((row) => row.canonicalLink).filter((link) => link !== null));
+        const hashes = new Set(rows.map((row) => row.contentHash));
+        const duplicates = new Set<string>();
+
+        // The items we already have come first, so that an article that is still in the feed under its old ID is kept rather than one of its copies
+        const ordered = [...items.filter((item) => existingIds.has(item.externalId)), ...items.filter((item) => !existingIds.has(item.externalId))];
+
+        for (const { externalId, fingerprint } of ordered) {
+            if (!existingIds.has(externalId) && ((fingerprint.canonicalLink !== null && links.has(fingerprint.canonicalLink)) || hashes.has(fingerprint.contentHash))) {
+                duplicates.add(externalId);
+                continue;
+            }
+
+            if (fingerprint.canonicalLink !== null) {
+                links.add(fingerprint.canonicalLink);
+            }
+
+            hashes.add(fingerprint.contentHash);
+        }
+
+        return duplicates;
+    }
+
+    /**
+     * Replace the bands of articles whose content was updated, so that the articles imported from now on are compared with what they say now rather than with what they used to say. The articles stay in their stories, since a story rarely changes with a correction.
+     *
+     * @param {pg.PoolClient} client The client of the transaction of the import
+     * @param {FingerprintedArticle[]} articles
+     * @returns {Promise<void>}
+     */
+    updateBands = async (client: pg.PoolClient, articles: FingerprintedArticle[]): Promise<void> => {
+        if (articles.length === 0) {
+            return;
+        }
+
+        // An article that now has too few words to compare loses its bands altogether
+        await client.query("DELETE FROM articleBands WHERE articleId = ANY($1)", [articles.map((article) => article.id)]);
+        await this.storeBands(client, articles.filter((article) => article.signature !== null));
+    }
+
+    /**
+     * Add newly imported articles to the stories of the articles they are similar to, or start new stories with them. Each article joins the story of the article it is the most similar to, among those published within the window.
+     *
+     * Everything is done in a handful of queries, however many articles there are, since a feed can have thousands of new items.
+     *
+     * @param {pg.PoolClient} client The client of the transaction of the import
+     * @param {FingerprintedArticle[]} articles
+     * @returns {Promise<number>} The number of articles that were added to a story, including the articles they were grouped with if that started a story
+     */
+    cluster = async (client: pg.PoolClient, articles: FingerprintedArticle[]): Promise<number> => {
+        const fingerprinted = articles.filter((article) => article.signature !== null);
+
+        if (fingerprinted.length === 0) {
+            return 0;
+        }
+
+        // The imports of different feeds can match the same article, and would both put it in a new story if they clustered at the same time. The lock is held until the import is committed, so the next import sees the stories this one made.
+        await client.query("SELECT pg_advisory_xact_lock($1, $2)", clusteringLock);
+
+        // The bands of the new articles are stored first, so that the new articles are candidates of each other too
+        await this.storeBands(client, fingerprinted);
+
+        const ids = fingerprinted.map((article) => article.id);
+        const { rows } = await client.query(
+            `WITH shared AS (
+                SELECT band, hash FROM articleBands
+                WHERE (band, hash) IN (SELECT band, hash FROM articleBands WHERE articleId = ANY($1))
+                GROUP BY band, hash
+                HAVING count(*) BETWEEN 2 AND $2
+            ), pairs AS (
+                SELECT DISTINCT mine.articleId, theirs.articleId AS candidateId
+                FROM shared
+                JOIN articleBands mine ON mine.band = shared.band AND mine.hash = shared.hash AND mine.articleId = ANY($1)
+                JOIN articleBands theirs ON theirs.band = shared.band AND theirs.hash = shared.hash AND theirs.articleId <> mine.articleId
+            )
+            SELECT pairs.articleId AS "articleId", candidate.id, candidate.minHash AS "minHash", candidate.publicationDate AS "publicationDate", storyArticles.storyId AS "storyId"
+            FROM pairs
+            JOIN articles candidate ON candidate.id = pairs.candidateId
+            LEFT JOIN storyArticles ON storyArticles.articleId = candidate.id`,
+            [ids, this.maxBucketSize]
+        );
+
+        const candidates = new Map<number, Candidate[]>();
+
+        for (const row of rows as Candidate[]) {
+            candidates.set(row.articleId, [...(candidates.get(row.articleId) ?? []), row]);
+        }
+
+        // The story of each article, which is either the ID of a stored story, or the index of a story to create
+        const stories = new Map<number, { id: number } | { index: number }>();
+        const memberships: { articleId: number, story: { id: number } | { index: number }, similarity: number }[] = [];
+        let newStories = 0;
+
+        for (const row of rows as Candidate[]) {
+            if (row.storyId !== null) {
+                stories.set(row.id, { id: row.storyId });
+            }
+        }
+
+        for (const article of fingerprinted) {
+            // The article was grouped with a new article that came before it
+            if (stories.has(article.id)) {
+                continue;
+            }
+
+            let best: { candidate: Candidate, similarity: number } | null = null;
+
+            for (const candidate of candidates.get(article.id) ?? []) {
+                if (Math.abs(candidate.publicationDate.getTime() - article.publicationDate.getTime()) > this.window) {
+                    continue;
+                }
+
+                const similarity = this.similarity(article.signature!, candidate.minHash);
+
+                if (similarity >= this.threshold && (best === null || similarity > best.similarity)) {
+                    best = { candidate, similarity };
+                }
+            }
+
+            if (best === null) {
+                continue;
+            }
+
+            let story = stories.get(best.candidate.id);
+
+            if (story === undefined) {
+                story = { index: newStories++ };
+                stories.set(best.candidate.id, story);
+                memberships.push({ articleId: best.candidate.id, story, similarity: best.similarity });
+            }
+
+            stories.set(article.id, story);
+            memberships.push({ articleId: article.id, story, similarity: best.similarity });
+        }
+
+        if (memberships.length === 0) {
+            return 0;
+        }
+
+        // The new stories have nothing but their ID, so it doesn't matter which one goes to which group
+        const { rows: created } = newStories > 0
+            ? await client.query("INSERT INTO stories (createdAt) SELECT now() FROM generate_series(1, $1) RETURNING id", [newStories])
+            : { rows: [] };
+
+        const storyId = (story: { id: number } | { index: number }): number => "id" in story ? story.id : created[story.index].id;
+
+        await client.query(
+            "INSERT INTO storyArticles (articleId, storyId, similarity) SELECT * FROM unnest($1::int[], $2::int[], $3::real[])",
+            [memberships.map((membership) => membership.articleId), memberships.map((membership) => storyId(membership.story)), memberships.map((membership) => membership.similarity)]
+        );
+
+        const grownStories = [...new Set(memberships.filter((membership) => "id" in membership.story).map((membership) => storyId(membership.story)))];
+
+        if (grownStories.length > 0) {
+            await client.query("UPDATE stories SET updatedAt = now() WHERE id = ANY($1)", [grownStories]);
+        }
+
+        return memberships.length;
+    }
+
+    /**
+     * Store the bands of articles, which must all have a signature
+     *
+     * @param {pg.PoolClient} client The client of the transaction of the import
+     * @param {FingerprintedArticle[]} articles
+     * @returns {Promise<void>}
+     */
+    private storeBands = async (client: pg.PoolClient, articles: FingerprintedArticle[]): Promise<void> => {
+        if (articles.length === 0) {
+            return;
+        }
+
+        // The bands are inserted in the order of the primary key, which is much faster than in random order when there are thousands of them
+        const bands = articles
+            .flatMap((article) => this.bands(article.signature!).map((hash, band) => ({ articleId: article.id, band, hash })))
+            .sort((a, b) => a.band - b.band || a.hash - b.hash || a.articleId - b.articleId);
+
+        await client.query(
+            "INSERT INTO articleBands (articleId, band, hash) SELECT * FROM unnest($1::int[], $2::smallint[], $3::int[]) ON CONFLICT DO NOTHING",
+            [bands.map((row) => row.articleId), bands.map((row) => row.band), bands.map((row) => row.hash)]
+        );
+    }
+}
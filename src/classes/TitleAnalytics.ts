@@ -0,0 +1,204 @@
+import { primaryLanguage, vowelSets } from "./../utils/language.js";
+import { stopWords } from "./../utils/stopWords.js";
+
+/**
+ * What the analytics compute for an article
+ */
+export interface ArticleAnalytics {
+    wordCount: number;
+    // In seconds
+    readingTime: number;
+    // The most frequent words, most frequent first
+    keywords: string[];
+    wordWithMostVowels: string;
+}
+
+/**
+ * How often a keyword appears across articles
+ */
+export interface KeywordCount {
+    keyword: string;
+    // The number of articles the keyword appears in
+    count: number;
+}
+
+// A word is a run of letters, marks and digits, which may be joined by apostrophes or hyphens, as in "aujourd'hui" or "vingt-deux"
+const wordPattern = /[\p{L}\p{M}\p{N}]+(?:['’\-][\p{L}\p{M}\p{N}]+)*/gu;
+
+// The elided articles and pronouns in front of words, as in "l'énergie" or "dell'Europa". These aren't part of the word.
+const elisions: Record<string, RegExp> = {
+    fr: /^(?:l|d|j|m|n|s|t|c|qu|jusqu|lorsqu|puisqu|quoiqu)['’]/i,
+    it: /^(?:l|d|dell|dall|nell|sull|all|un|quest|quell)['’]/i,
+};
+
+// The possessive in English, as in "Europe's"
+const possessive = /['’]s$/i;
+
+// The average adult reads about 230 words per minute
+const wordsPerMinute = 230;
+
+/**
+ * A class for analysing the titles and descriptions of articles: splitting them into words, counting them and finding what they're about.
+ *
+ * Text is normalized to the composed Unicode form first, so that an "é" counts as one letter whether the feed wrote it as one character or as an "e" followed by an accent. The language of the article decides which letters are vowels, which elisions are removed, and which words are too common to be keywords.
+ */
+export class TitleAnalytics {
+
+    /**
+     * The number of keywords computed for each article
+     *
+     * @type {number}
+     */
+    keywordsPerArticle: number = 5;
+
+    /**
+     * Split a text into words, without punctuation and elisions
+     *
+     * @param {string} text
+     * @param {string | null} language The language of the text, such as fr or en-GB
+     * @returns {string[]} The words as written, in order
+     */
+    tokenize = (text: string, language: string | null = null): string[] => {
+        const code = primaryLanguage(language) ?? "";
+        const words = (text ?? "").normalize("NFC").match(wordPattern) ?? [];
+
+        return words.map((word) => {
+            if (elisions[code]) {
+                word = word.replace(elisions[code], "");
+            }
+
+            if (code === "en") {
+                word = word.replace(possessive, "");
+            }
+
+            return word;
+        }).filter((word) => word !== "");
+    }
+
+    /**
+     * Get the word with the most vowels. If two words have as many vowels, the longer one wins, and if they are as long too, the first one.
+     *
+     * @param {string} title
+     * @param {string | null} language The language of the title, which decides what counts as a vowel
+     * @returns {string}
+     */
+    wordWithMostVowels = (title: string, language: string | null = null): string => {
+        let wordWithMostVowels = "";
+        let mostVowels = 0;
+
+        for (const word of this.tokenize(title, language)) {
+            const vowelCount = this.countVowels(word, language);
+
+            if (vowelCount > mostVowels || (vowelCount === mostVowels && [...word].length > [...wordWithMostVowels].length)) {
+                mostVowels = vowelCount;
+                wordWithMostVowels = word;
+            }
+        }
+
+        return wordWithMostVowels;
+    }
+
+    /**
+     * Count the vowels in a word, in upper or lower case
+     *
+     * @param {string} word
+     * @param {string | null} language
+     * @returns {number}
+     */
+    countVowels = (word: string, language: string | null = null): number => {
+        const code = primaryLanguage(language) ?? "";
+        const vowels = vowelSets[code];
+        let count = 0;
+
+        for (const letter of word.normalize("NFC").toLocaleLowerCase(code || undefined)) {
+            // Without a vowel set for the language, any letter that is a Latin vowel once its accents are removed counts
+            if (vowels ? vowels.has(letter) : /^[aeiouyæœø]/.test(letter.normalize("NFD"))) {
+                count++;
+            }
+        }
+
+        return count;
+    }
+
+    /**
+     * Get the words of a text that say what it is about: lowercase, without stop words, numbers and single letters
+     *
+     * @param {string} text
+     * @param {string | null} language
+     * @returns {string[]} The words in order, with repetitions
+     */
+    terms = (text: string, language: string | null = null): string[] => {
+        const code = primaryLanguage(language) ?? "";
+        const stop = stopWords[code];
+
+        return this.tokenize(text, language)
+            .map((word) => word.toLocaleLowerCase(code || undefined))
+            .filter((word) => [...word].length > 1 && !/^[\p{N}\-]+$/u.test(word) && !stop?.has(word));
+    }
+
+    /**
+     * Get the most frequent terms of a text. Terms that are as frequent are in the order they first appear, so the words of the title come before those of the description.
+     *
+     * @param {string} text
+     * @param {string | null} language
+     * @param {number} limit
+     * @returns {string[]}
+     */
+    keywords = (text: string, language: string | null = null, limit: number = this.keywordsPerArticle): string[] => {
+        const counts = new Map<string, number>();
+
+        for (const term of this.terms(text, language)) {
+            counts.set(term, (counts.get(term) ?? 0) + 1);
+        }
+
+        // Sorting is stable, and a map keeps the order its keys were added in
+        return [...counts.entries()].sort(([, a], [, b]) => b - a).slice(0, limit).map(([term]) => term);
+    }
+
+    /**
+     * Compute the analytics of an article
+     *
+     * @param {{ title: string, description?: string | null, language?: string | null }} article
+     * @returns {ArticleAnalytics}
+     */
+    analyze = (article: { title: string, description?: string | null, language?: string | null }): ArticleAnalytics => {
+        const language = article.language ?? null;
+        const text = `${article.title}\n${article.description ?? ""}`;
+        const wordCount = this.tokenize(text, language).length;
+
+        return {
+            wordCount,
+            readingTime: Math.round(wordCount / wordsPerMinute * 60),
+            keywords: this.keywords(text, language),
+            wordWithMostVowels: this.wordWithMostVowels(article.title, language),
+        };
+    }
+
+    /**
+     * Count in how many articles each term appears, to find what is trending. Counting articles rather than occurrences means an article that repeats a word many times doesn't make it trend on its own.
+     *
+     * @param {AsyncIterable<{ title: string, description?: string | null, language?: string | null }>} articles
+     * @param {number} limit The number of keywords to return
+     * @returns {Promise<{ articleCount: number, keywords: KeywordCount[] }>} The keywords, most frequent first
+     */
+    trending = async (articles: AsyncIterable<{ title: string, description?: string | null, language?: string | null }>, limit: number = 20): Promise<{ articleCount: number, keywords: KeywordCount[] }> => {
+        const counts = new Map<string, number>();
+        let articleCount = 0;
+
+        for await (const article of articles) {
+            articleCount++;
+
+            for (const term of new Set(this.terms(`${article.title}\n${article.description ?? ""}`, article.language ?? null))) {
+                counts.set(term, (counts.get(term) ?? 0) + 1);
+            }
+        }
+
+        return {
+            articleCount,
+            keywords: [...counts.entries()]
+                .sort(([termA, a], [termB, b]) => b - a || termA.localeCompare(termB))
+                .slice(0, limit)
+                .map(([keyword, count]) => ({ keyword, count })),
+        };
+    }
+}
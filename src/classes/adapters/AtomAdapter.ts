@@ -0,0 +1,111 @@
+import Parser from 'rss-parser';
+import { FeedAdapter, FeedItem, ParsedFeed, ParseOptions } from "./../FeedParser.js";
+import { parseDate } from "./../../utils/dates.js";
+import { htmlToText, pickId, pickPicture, xmlRootElement } from "./../../utils/feedItems.js";
+import { mediaFields, mediaOf, text } from "./RssAdapter.js";
+
+/**
+ * rss-parser reads Atom feeds too, but it converts the dates of the entries itself and fails on the whole feed as soon as one of them is invalid. It also leaves out the language of the feed and the links other than the main one. This subclass keeps the raw dates, the links and the language, so that the adapter can make sense of them itself.
+ */
+class AtomParser extends Parser<any, any> {
+    parseItemAtom(entry: any) {
+        const item = (Parser.prototype as any).parseItemAtom.call(this, { ...entry, published: undefined, updated: undefined });
+
+        item.published = textOf(entry.published?.[0]);
+        item.updated = textOf(entry.updated?.[0]);
+        item.links = (entry.link ?? []).map((link: any) => link?.$ ?? {});
+
+        return item;
+    }
+
+    buildAtomFeed(xmlObject: any) {
+        const feed = (Parser.prototype as any).buildAtomFeed.call(this, xmlObject);
+
+        feed.language = xmlObject.feed?.$?.["xml:lang"];
+
+        return feed;
+    }
+}
+
+const parser = new AtomParser({
+    customFields: {
+        feed: ["logo", "icon"],
+        item: mediaFields,
+    },
+});
+
+/**
+ * Get the text of an element as parsed by xml2js, which is an object rather than a string when the element has attributes
+ *
+ * @param {any} element
+ * @returns {string | undefined}
+ */
+const textOf = (element: any): string | undefined => {
+    return typeof element === "string" ? element : element?._;
+}
+
+/**
+ * An adapter for Atom feeds
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4287
+ */
+export class AtomAdapter implements FeedAdapter {
+
+    format: "atom" = "atom";
+
+    /**
+     * Whether the body is an Atom feed. Its root element is feed, with or without a namespace prefix.
+     *
+     * @param {string} body
+     * @returns {boolean}
+     */
+    canParse = (body: string): boolean => {
+        return xmlRootElement(body)?.split(":").pop() === "feed";
+    }
+
+    /**
+     * Parse an Atom feed
+     *
+     * @param {string} body
+     * @param {ParseOptions} options
+     * @returns {Promise<ParsedFeed>}
+     */
+    parse = async (body: string, options: ParseOptions): Promise<ParsedFeed> => {
+        const results = await parser.parseString(body);
+        // The logo is the larger picture, the icon is more like a favicon
+        const image = text(results.logo) ?? text(results.icon);
+
+        return {
+            format: this.format,
+            title: text(results.title),
+            link: text(results.link),
+            language: text(results.language),
+            image,
+            items: (results.items ?? []).map((item: any) => this.toItem(item, options.primaryKey ?? "guid", image)),
+        };
+    }
+
+    /**
+     * Turn an entry as parsed by the AtomParser into a FeedItem
+     *
+     * @param {any} item
+     * @param {string} primaryKey
+     * @param {string | null} feedImage The picture of the feed, for entries without their own
+     * @returns {FeedItem}
+     */
+    private toItem = (item: any, primaryKey: string, feedImage: string | null): FeedItem => {
+        const link = text(item.link);
+        const enclosures = item.links.filter((link: any) => link.rel === "enclosure").map((link: any) => ({ url: link.href, type: link.type }));
+
+        return {
+            id: pickId([item[primaryKey], item.guid, item.id], link),
+            title: text(item.title),
+            link,
+            // The summary is meant to be short, while the content is usually the whole article
+            description: htmlToText(item.summary) || (item.contentSnippet ?? ""),
+            // The published date is optional in Atom, but the updated date is required
+            publishedAt: parseDate(item.published) ?? parseDate(item.updated),
+            mainPicture: pickPicture([...mediaOf(item), enclosures]) ?? feedImage,
+        };
+    }
+}
@@ -0,0 +1,85 @@
+import { FeedAdapter, FeedItem, ParsedFeed, ParseOptions } from "./../FeedParser.js";
+import { parseDate } from "./../../utils/dates.js";
+import { htmlToText, pickId, pickPicture } from "./../../utils/feedItems.js";
+import { text } from "./RssAdapter.js";
+
+/**
+ * An adapter for JSON Feed 1.0 and 1.1
+ *
+ * @see https://www.jsonfeed.org/version/1.1/
+ */
+export class JsonFeedAdapter implements FeedAdapter {
+
+    format: "json" = "json";
+
+    /**
+     * Whether the body is a JSON Feed. Any JSON object is accepted here, and the version is checked when parsing, so that a JSON document that isn't a feed gets a clear error.
+     *
+     * @param {string} body
+     * @returns {boolean}
+     */
+    canParse = (body: string): boolean => {
+        return body.trimStart().startsWith("{");
+    }
+
+    /**
+     * Parse a JSON Feed
+     *
+     * @param {string} body
+     * @param {ParseOptions} options
+     * @returns {Promise<ParsedFeed>}
+     * @throws {Error} If the body isn't valid JSON or isn't a JSON Feed
+     */
+    parse = async (body: string, options: ParseOptions): Promise<ParsedFeed> => {
+        let results: any;
+
+        try {
+            results = JSON.parse(body);
+        } catch (error: any) {
+            throw new Error(`The feed is not valid JSON: ${error.message}`);
+        }
+
+        if (typeof results?.version !== "string" || !results.version.startsWith("https://jsonfeed.org/version/")) {
+            throw new Error("The feed is JSON, but not a JSON Feed");
+        }
+
+        const image = text(results.icon) ?? text(results.favicon);
+
+        return {
+            format: this.format,
+            title: text(results.title),
+            link: text(results.home_page_url),
+            // The language was added in version 1.1
+            language: text(results.language),
+            image,
+            items: (Array.isArray(results.items) ? results.items : []).map((item: any) => this.toItem(item ?? {}, options.primaryKey ?? "guid", image)),
+        };
+    }
+
+    /**
+     * Turn an item of a JSON Feed into a FeedItem
+     *
+     * @param {any} item
+     * @param {string} primaryKey
+     * @param {string | null} feedImage The picture of the feed, for items without their own
+     * @returns {FeedItem}
+     */
+    private toItem = (item: any, primaryKey: string, feedImage: string | null): FeedItem => {
+        // The external URL is for link blogs, where the item is about another page
+        const link = text(item.url) ?? text(item.external_url);
+        const attachments = Array.isArray(item.attachments) ? item.attachments : [];
+
+        return {
+            id: pickId([item[primaryKey], item.id], link),
+            title: text(item.title),
+            link,
+            description: text(item.summary) ?? text(item.content_text) ?? htmlToText(item.content_html),
+            publishedAt: parseDate(item.date_published) ?? parseDate(item.date_modified),
+            mainPicture: pickPicture([
+                [{ url: item.image }],
+                [{ url: item.banner_image }],
+                attachments.map((attachment: any) => ({ url: attachment?.url, type: attachment?.mime_type })),
+            ]) ?? feedImage,
+        };
+    }
+}
@@ -0,0 +1,118 @@
+import Parser from 'rss-parser';
+import { FeedAdapter, FeedItem, ParsedFeed, ParseOptions } from "./../FeedParser.js";
+import { parseDate } from "./../../utils/dates.js";
+import { PictureCandidate, pickId, pickPicture, xmlRootElement } from "./../../utils/feedItems.js";
+
+// The Media RSS elements, which is where most publishers put the pictures of their articles. rss-parser doesn't read them by default.
+export const mediaFields: [string, string, { keepArray: boolean }][] = [
+    ["media:content", "mediaContent", { keepArray: true }],
+    ["media:thumbnail", "mediaThumbnail", { keepArray: true }],
+    ["media:group", "mediaGroup", { keepArray: true }],
+];
+
+const parser = new Parser<any, any>({
+    // Feeds that don't say which version of RSS they are are most likely RSS 2.0
+    defaultRSS: 2,
+    customFields: {
+        item: [...mediaFields, ["image", "image"], ["id", "id"]],
+    },
+});
+
+/**
+ * Get the Media RSS pictures of a parsed item, grouped for pickPicture: the media:content elements (including the ones in media:group), then the thumbnails
+ *
+ * @param {any} item An item as parsed by rss-parser with the mediaFields
+ * @returns {PictureCandidate[][]}
+ */
+export const mediaOf = (item: any): PictureCandidate[][] => {
+    const toCandidate = (media: any): PictureCandidate => ({ url: media?.$?.url, type: media?.$?.type, medium: media?.$?.medium, width: media?.$?.width });
+    const list = (value: any): any[] => Array.isArray(value) ? value : [];
+
+    const groups = list(item.mediaGroup).flatMap((group) => list(group?.["media:content"]));
+    const thumbnails = [...list(item.mediaThumbnail), ...list(item.mediaGroup).flatMap((group) => list(group?.["media:thumbnail"]))];
+
+    return [[...list(item.mediaContent), ...groups].map(toCandidate), thumbnails.map(toCandidate)];
+}
+
+/**
+ * Get a trimmed string, or null if the value isn't a non-empty string
+ *
+ * @param {unknown} value
+ * @returns {string | null}
+ */
+export const text = (value: unknown): string | null => {
+    return typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+}
+
+/**
+ * An adapter for RSS feeds. Besides RSS 2.0, this also reads the older RSS 0.9x and RSS 1.0 (RDF) feeds, which have the same items.
+ *
+ * @see https://www.rssboard.org/rss-specification
+ */
+export class RssAdapter implements FeedAdapter {
+
+    format: "rss" = "rss";
+
+    /**
+     * Whether the body is an RSS feed
+     *
+     * @param {string} body
+     * @returns {boolean}
+     */
+    canParse = (body: string): boolean => {
+        const root = xmlRootElement(body);
+
+        return root === "rss" || root === "rdf:RDF";
+    }
+
+    /**
+     * Parse an RSS feed
+     *
+     * @param {string} body
+     * @param {ParseOptions} options
+     * @returns {Promise<ParsedFeed>}
+     */
+    parse = async (body: string, options: ParseOptions): Promise<ParsedFeed> => {
+        const results = await parser.parseString(body);
+        const image = text(results.image?.url) ?? text(results.itunes?.image);
+
+        return {
+            format: this.format,
+            title: text(results.title),
+            link: text(results.link),
+            language: text(results.language),
+            image,
+            items: (results.items ?? []).map((item: any) => this.toItem(item, options.primaryKey ?? "guid", image)),
+        };
+    }
+
+    /**
+     * Turn an item as parsed by rss-parser into a FeedItem
+     *
+     * @param {any} item
+     * @param {string} primaryKey
+     * @param {string | null} feedImage The picture of the feed, for items without their own
+     * @returns {FeedItem}
+     */
+    private toItem = (item: any, primaryKey: string, feedImage: string | null): FeedItem => {
+        const link = text(item.link);
+
+        // Some feeds have a non-standard image element in their items, either with the URL as its text or in a url element like the channel image
+        const image = typeof item.image === "string" ? item.image : item.image?.url?.[0] ?? item.image?.$?.url;
+
+        return {
+            id: pickId([item[primaryKey], item.guid, item.id], link),
+            title: text(item.title),
+            link,
+            description: item.contentSnippet ?? item["content:encodedSnippet"] ?? "",
+            // The date is in pubDate, or in dc:date in RSS 1.0 feeds
+            publishedAt: parseDate(item.pubDate) ?? parseDate(item.date),
+            mainPicture: pickPicture([
+                ...mediaOf(item),
+                [{ url: item.enclosure?.url, type: item.enclosure?.type }],
+                [{ url: image }],
+                [{ url: item.itunes?.image }],
+            ]) ?? feedImage,
+        };
+    }
+}
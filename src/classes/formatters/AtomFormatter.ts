@@ -0,0 +1,49 @@
+import { ArticleFormatter, ExportChannel } from "./../ArticleExporter.js";
+import { escapeXml } from "./../../utils/xml.js";
+import { articleTag } from "./../../utils/urls.js";
+
+/**
+ * Writes articles as an Atom feed, with the main pictures as Media RSS
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4287
+ */
+export class AtomFormatter implements ArticleFormatter {
+
+    contentType = "application/atom+xml; charset=utf-8";
+
+    /**
+     * Render the articles as Atom
+     *
+     * @param {AsyncIterable<any>} articles
+     * @param {ExportChannel} channel
+     * @returns {AsyncGenerator<string>}
+     */
+    async *render(articles: AsyncIterable<any>, channel: ExportChannel): AsyncGenerator<string> {
+        // Atom requires an ID, an updated date and an author for the feed. The URL of the export is as good an ID as any, since it's unique to the filters.
+        yield '<?xml version="1.0" encoding="UTF-8"?>\n'
+            + '<feed xmlns="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/">\n'
+            + `<id>${escapeXml(channel.selfUrl)}</id>\n`
+            + `<title>${escapeXml(channel.title)}</title>\n`
+            + `<subtitle>${escapeXml(channel.description)}</subtitle>\n`
+            + `<updated>${channel.updated.toISOString()}</updated>\n`
+            + `<author><name>${escapeXml(channel.title)}</name></author>\n`
+            + `<link rel="alternate" href="${escapeXml(channel.link)}"/>\n`
+            + `<link rel="self" type="application/atom+xml" href="${escapeXml(channel.selfUrl)}"/>\n`;
+
+        for await (const article of articles) {
+            const published = new Date(article.publicationdate).toISOString();
+
+            yield '<entry>\n'
+                + `<id>${escapeXml(articleTag(channel.link, article.feedid, article.id))}</id>\n`
+                + `<title type="text">${escapeXml(article.title)}</title>\n`
+                + `<link rel="alternate" href="${escapeXml(article.link)}"/>\n`
+                + `<published>${published}</published>\n`
+                + `<updated>${published}</updated>\n`
+                + `<summary type="text">${escapeXml(article.description)}</summary>\n`
+                + (article.mainpicture ? `<media:content url="${escapeXml(article.mainpicture)}" medium="image"/>\n` : "")
+                + '</entry>\n';
+        }
+
+        yield '</feed>\n';
+    }
+}
@@ -0,0 +1,63 @@
+import { ArticleFormatter, ExportChannel } from "./../ArticleExporter.js";
+
+// The columns of the export, and how to get each one from an article
+const columns: [string, (article: any) => unknown][] = [
+    ["id", (article) => article.id],
+    ["feedId", (article) => article.feedid],
+    ["externalId", (article) => article.externalid],
+    ["title", (article) => article.title],
+    ["description", (article) => article.description],
+    ["link", (article) => article.link],
+    ["mainPicture", (article) => article.mainpicture],
+    ["language", (article) => article.language],
+    ["publicationDate", (article) => new Date(article.publicationdate).toISOString()],
+    ["importDate", (article) => new Date(article.importdate).toISOString()],
+];
+
+/**
+ * Writes articles as CSV, for spreadsheets
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4180
+ */
+export class CsvFormatter implements ArticleFormatter {
+
+    contentType = "text/csv; charset=utf-8";
+
+    filename = "articles.csv";
+
+    /**
+     * Render the articles as CSV, with a header row
+     *
+     * @param {AsyncIterable<any>} articles
+     * @param {ExportChannel} channel
+     * @returns {AsyncGenerator<string>}
+     */
+    async *render(articles: AsyncIterable<any>, channel: ExportChannel): AsyncGenerator<string> {
+        // The byte order mark tells Excel the file is UTF-8, otherwise it reads accented characters as Windows-1252
+        yield "\uFEFF" + columns.map(([name]) => name).join(",") + "\r\n";
+
+        for await (const article of articles) {
+            yield columns.map(([, value]) => this.escape(value(article))).join(",") + "\r\n";
+        }
+    }
+
+    /**
+     * Escape a value for CSV
+     *
+     * Values with commas, quotes or line breaks are quoted, with their quotes doubled. Values that a spreadsheet would run as a formula are prefixed with a quote, since titles and descriptions come from third parties and a title like "=HYPERLINK(...)" would otherwise become a live link.
+     *
+     * @see https://owasp.org/www-community/attacks/CSV_Injection
+     *
+     * @param {unknown} value
+     * @returns {string}
+     */
+    private escape = (value: unknown): string => {
+        let text = value === null || value === undefined ? "" : String(value);
+
+        if (/^[=+\-@\t\r]/.test(text)) {
+            text = "'" + text;
+        }
+
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }
+}
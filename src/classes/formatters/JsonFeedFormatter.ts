@@ -0,0 +1,53 @@
+import { ArticleFormatter, ExportChannel } from "./../ArticleExporter.js";
+import { articleTag } from "./../../utils/urls.js";
+
+/**
+ * Writes articles as a JSON Feed 1.1
+ *
+ * @see https://www.jsonfeed.org/version/1.1/
+ */
+export class JsonFeedFormatter implements ArticleFormatter {
+
+    contentType = "application/feed+json; charset=utf-8";
+
+    /**
+     * Render the articles as JSON Feed. The feed is one JSON object, so it is written in pieces: the feed without its items, then each item, then the end of the object.
+     *
+     * @param {AsyncIterable<any>} articles
+     * @param {ExportChannel} channel
+     * @returns {AsyncGenerator<string>}
+     */
+    async *render(articles: AsyncIterable<any>, channel: ExportChannel): AsyncGenerator<string> {
+        const feed = {
+            version: "https://jsonfeed.org/version/1.1",
+            title: channel.title,
+            description: channel.description,
+            home_page_url: channel.link,
+            feed_url: channel.selfUrl,
+        };
+
+        // Everything but the closing brace, so that the items can follow
+        yield JSON.stringify(feed).slice(0, -1) + ',"items":[';
+
+        let first = true;
+
+        for await (const article of articles) {
+            const item = {
+                id: articleTag(channel.link, article.feedid, article.id),
+                url: article.link,
+                title: article.title,
+                // An item needs either content_html or content_text. The description is all the content we have.
+                content_text: article.description,
+                summary: article.description,
+                image: article.mainpicture || undefined,
+                date_published: new Date(article.publicationdate).toISOString(),
+                language: article.language ?? undefined,
+            };
+
+            yield (first ? "\n" : ",\n") + JSON.stringify(item);
+            first = false;
+        }
+
+        yield "\n]}\n";
+    }
+}
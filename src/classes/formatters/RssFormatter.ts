@@ -0,0 +1,45 @@
+import { ArticleFormatter, ExportChannel } from "./../ArticleExporter.js";
+import { escapeXml } from "./../../utils/xml.js";
+import { articleTag } from "./../../utils/urls.js";
+
+/**
+ * Writes articles as an RSS 2.0 feed, with the main pictures as Media RSS
+ *
+ * @see https://www.rssboard.org/rss-specification
+ */
+export class RssFormatter implements ArticleFormatter {
+
+    contentType = "application/rss+xml; charset=utf-8";
+
+    /**
+     * Render the articles as RSS
+     *
+     * @param {AsyncIterable<any>} articles
+     * @param {ExportChannel} channel
+     * @returns {AsyncGenerator<string>}
+     */
+    async *render(articles: AsyncIterable<any>, channel: ExportChannel): AsyncGenerator<string> {
+        yield '<?xml version="1.0" encoding="UTF-8"?>\n'
+            + '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/">\n'
+            + '<channel>\n'
+            + `<title>${escapeXml(channel.title)}</title>\n`
+            + `<link>${escapeXml(channel.link)}</link>\n`
+            + `<description>${escapeXml(channel.description)}</description>\n`
+            + `<lastBuildDate>${channel.updated.toUTCString()}</lastBuildDate>\n`
+            + `<atom:link href="${escapeXml(channel.selfUrl)}" rel="self" type="application/rss+xml"/>\n`;
+
+        for await (const article of articles) {
+            yield '<item>\n'
+                + `<title>${escapeXml(article.title)}</title>\n`
+                + `<link>${escapeXml(article.link)}</link>\n`
+                + `<guid isPermaLink="false">${escapeXml(articleTag(channel.link, article.feedid, article.id))}</guid>\n`
+                + `<description>${escapeXml(article.description)}</description>\n`
+                // toUTCString gives the RFC 822 format RSS expects, for example "Thu, 15 Dec 2022 09:30:00 GMT"
+                + `<pubDate>${new Date(article.publicationdate).toUTCString()}</pubDate>\n`
+                + (article.mainpicture ? `<media:content url="${escapeXml(article.mainpicture)}" medium="image"/>\n` : "")
+                + '</item>\n';
+        }
+
+        yield '</channel>\n</rss>\n';
+    }
+}
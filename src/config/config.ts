@@ -0,0 +1,376 @@
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { FetcherLimits } from "./../classes/FeedFetcher.js";
+import { FeedAttributes } from "./../classes/FeedRegistry.js";
+import { LogLevel, logLevels } from "./../classes/Logger.js";
+
+/**
+ * How to connect to the database
+ */
+export interface DatabaseConfig {
+    host: string;
+    port: number;
+    name: string;
+    user: string;
+    password: string;
+    // The maximum number of connections the app keeps open
+    poolSize: number;
+}
+
+/**
+ * The defaults of the background imports. Feeds can still have their own poll interval.
+ */
+export interface PollingConfig {
+    // Seconds between two imports of a feed that doesn't have its own poll interval
+    defaultInterval: number;
+    // How much each delay may randomly differ from the interval, as a fraction of it
+    jitter: number;
+    // The longest we'll wait before retrying a failing feed, in seconds
+    maxBackoff: number;
+    // Seconds between two checks of the registry for added, changed or removed feeds
+    refreshInterval: number;
+}
+
+/**
+ * Who can call the API
+ */
+export interface AuthConfig {
+    // Whether the read endpoints can be called without a key. When false, they need a reader or admin key.
+    publicReads: boolean;
+    // An admin key that is stored when migrating, so that there is a key to create the other keys with. Empty for none.
+    adminKey: string;
+}
+
+/**
+ * What the app logs
+ */
+export interface LogConfig {
+    // The lowest level that is logged, or silent to log nothing
+    level: LogLevel;
+}
+
+/**
+ * The configuration of the app
+ */
+export interface Config {
+    // The port the server listens on
+    port: number;
+    database: DatabaseConfig;
+    fetch: FetcherLimits;
+    polling: PollingConfig;
+    auth: AuthConfig;
+    log: LogConfig;
+    // The feeds added to the registry when migrating, if they aren't registered yet
+    feeds: FeedAttributes[];
+}
+
+// The shortest poll interval a feed can have, in seconds. Polling more often than this is unlikely to find anything new and may get us rate limited by the publisher.
+export const minPollInterval = 60;
+
+// The longest poll interval a feed can have, and the longest backoff, in seconds. Timers can't wait longer than about 24.8 days, so this leaves room for the jitter.
+export const maxPollInterval = 7 * 24 * 60 * 60;
+
+// A setting: where it lives in the config file, the environment variable that overrides it, its default, and how its value is checked
+interface Setting {
+    path: [keyof Config, string] | [keyof Config];
+    env: string;
+    default: string | number | boolean | number[] | null;
+    type: "string" | "integer" | "number" | "boolean" | "ports";
+    min?: number;
+    max?: number;
+    // The only values a string setting can have
+    values?: readonly string[];
+}
+
+const settings: Setting[] = [
+    { path: ["port"], env: "PORT", default: 3001, type: "integer", min: 1, max: 65535 },
+    { path: ["database", "host"], env: "DB_HOST", default: "localhost", type: "string" },
+    { path: ["database", "port"], env: "DB_PORT", default: 5432, type: "integer", min: 1, max: 65535 },
+    { path: ["database", "name"], env: "DB_NAME", default: "postgres", type: "string" },
+    { path: ["database", "user"], env: "DB_USER", default: "postgres", type: "string" },
+    { path: ["database", "password"], env: "DB_PASSWORD", default: "postgres", type: "string" },
+    { path: ["database", "poolSize"], env: "DB_POOL_SIZE", default: 10, type: "integer", min: 1 },
+    { path: ["fetch", "timeout"], env: "FETCH_TIMEOUT", default: 10_000, type: "integer", min: 1 },
+    { path: ["fetch", "maxBodySize"], env: "FETCH_MAX_BODY_SIZE", default: 5 * 1024 * 1024, type: "integer", min: 1 },
+    { path: ["fetch", "maxRedirects"], env: "FETCH_MAX_REDIRECTS", default: 5, type: "integer", min: 0 },
+    { path: ["fetch", "allowPrivateAddresses"], env: "FETCH_ALLOW_PRIVATE_ADDRESSES", default: false, type: "boolean" },
+    // A list of ports, or null (* in the environment variable) for any port
+    { path: ["fetch", "allowedPorts"], env: "FETCH_ALLOWED_PORTS", default: [80, 443, 8080, 8443], type: "ports" },
+    { path: ["polling", "defaultInterval"], env: "POLL_INTERVAL", default: 15 * 60, type: "integer", min: minPollInterval, max: maxPollInterval },
+    { path: ["polling", "jitter"], env: "POLL_JITTER", default: 0.1, type: "number", min: 0, max: 1 },
+    { path: ["polling", "maxBackoff"], env: "POLL_MAX_BACKOFF", default: 6 * 60 * 60, type: "integer", min: minPollInterval, max: maxPollInterval },
+    { path: ["polling", "refreshInterval"], env: "POLL_REFRESH_INTERVAL", default: 60, type: "integer", min: 1, max: maxPollInterval },
+    { path: ["auth", "publicReads"], env: "AUTH_PUBLIC_READS", default: true, type: "boolean" },
+    // Short keys could be guessed, so the admin key must be at least as long as the keys we generate
+    { path: ["auth", "adminKey"], env: "AUTH_ADMIN_KEY", default: "", type: "string", min: 32 },
+    { path: ["log", "level"], env: "LOG_LEVEL", default: "info", type: "string", values: logLevels },
+];
+
+// The feeds that are registered when none are configured
+const defaultFeeds: FeedAttributes[] = [
+    { url: "https://www.lemonde.fr/rss/une.xml", name: "Le Monde" },
+    { url: "https://www.theguardian.com/world/europe-news/rss", name: "The Guardian - Europe" },
+];
+
+/**
+ * Load the configuration from the environment variables, and from the file in the CONFIG_FILE environment variable if there is one. Environment variables take precedence over the file, so that a single setting can be changed for one deployment without editing the file. Anything that is in neither falls back to a default that works for local development.
+ *
+ * Every problem is collected before throwing, so that a broken configuration can be fixed in one go rather than one error at a time.
+ *
+ * @param {NodeJS.ProcessEnv} env
+ * @returns {Config}
+ * @throws {Error} If the file can't be read, or if any setting is invalid
+ */
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): Config => {
+    const file = env.CONFIG_FILE ? readConfigFile(env.CONFIG_FILE) : {};
+    const problems: string[] = [];
+    const config: any = { database: {}, fetch: {}, polling: {}, auth: {}, log: {} };
+
+    problems.push(...unknownKeys(file));
+
+    for (const setting of settings) {
+        const [section, key] = setting.path;
+        const name = setting.path.join(".");
+        const fromFile = key ? file[section]?.[key] : file[section];
+        let value: unknown = setting.default;
+
+        if (env[setting.env] !== undefined && env[setting.env] !== "") {
+            value = parseEnv(setting, env[setting.env]!);
+        } else if (fromFile !== undefined) {
+            value = fromFile;
+        }
+
+        const problem = validateSetting(setting, value);
+
+        if (problem) {
+            problems.push(`${name} (${setting.env}) ${problem}`);
+        }
+
+        if (key) {
+            config[section][key] = value;
+        } else {
+            config[section] = value;
+        }
+    }
+
+    config.feeds = file.feeds ?? defaultFeeds;
+    problems.push(...validateFeeds(config.feeds));
+
+    if (problems.length > 0) {
+        throw new Error(`The configuration is invalid:\n- ${problems.join("\n- ")}`);
+    }
+
+    return config;
+}
+
+// How booleans can be written in environment variables
+const booleans: Record<string, boolean> = { true: true, "1": true, false: false, "0": false };
+
+/**
+ * Parse the environment variable of a setting. Values that can't be parsed are returned as they are, so that validating them reports the problem.
+ *
+ * @param {Setting} setting
+ * @param {string} value
+ * @returns {unknown}
+ */
+const parseEnv = (setting: Setting, value: string): unknown => {
+    switch (setting.type) {
+        case "string":
+            return value;
+        case "boolean":
+            return booleans[value.toLowerCase()] ?? value;
+        case "ports":
+            return value.trim() === "*" ? null : value.split(",").map((port) => Number(port.trim()));
+        default:
+            return Number(value);
+    }
+}
+
+/**
+ * Read a JSON or YAML config file, depending on its extension
+ *
+ * @param {string} file
+ * @returns {any}
+ * @throws {Error}
+ */
+const readConfigFile = (file: string): any => {
+    const extension = path.extname(file).toLowerCase();
+
+    if (![".json", ".yaml", ".yml"].includes(extension)) {
+        throw new Error(`The config file ${file} must be a .json, .yaml or .yml file`);
+    }
+
+    let content: any;
+
+    try {
+        const text = fs.readFileSync(file, "utf8");
+        content = extension === ".json" ? JSON.parse(text) : YAML.parse(text);
+    } catch (error) {
+        throw new Error(`The config file ${file} could not be read: ${(error as Error).message}`);
+    }
+
+    // An empty YAML file is null, which is as good as no settings at all
+    if (content === null || content === undefined) {
+        return {};
+    }
+
+    if (typeof content !== "object" || Array.isArray(content)) {
+        throw new Error(`The config file ${file} must contain an object`);
+    }
+
+    return content;
+}
+
+/**
+ * Find the keys of the config file that aren't settings. These are most likely typos, which would otherwise be silently ignored.
+ *
+ * @param {any} file
+ * @returns {string[]} A problem for each unknown key
+ */
+const unknownKeys = (file: any): string[] => {
+    const known = new Set([...settings.map((setting) => setting.path.join(".")), "feeds"]);
+    const sections = new Set(settings.filter((setting) => setting.path.length === 2).map((setting) => setting.path[0]));
+    const problems: string[] = [];
+
+    for (const [key, value] of Object.entries(file)) {
+        if (sections.has(key as keyof Config) && value && typeof value === "object" && !Array.isArray(value)) {
+            problems.push(...Object.keys(value).filter((child) => !known.has(`${key}.${child}`)).map((child) => `${key}.${child} is not a setting`));
+        } else if (sections.has(key as keyof Config)) {
+            problems.push(`${key} must be an object`);
+        } else if (!known.has(key)) {
+            problems.push(`${key} is not a setting`);
+        }
+    }
+
+    return problems;
+}
+
+/**
+ * Check the value of a setting
+ *
+ * @param {Setting} setting
+ * @param {unknown} value
+ * @returns {string | null} What is wrong with the value, or null if it is valid
+ */
+const validateSetting = (setting: Setting, value: unknown): string | null => {
+    if (setting.type === "string") {
+        if (typeof value !== "string") {
+            return "must be a string";
+        }
+
+        if (setting.values && !setting.values.includes(value)) {
+            return `must be one of ${setting.values.join(", ")}`;
+        }
+
+        // An empty string means the setting isn't set
+        return value !== "" && setting.min !== undefined && value.length < setting.min ? `must be at least ${setting.min} characters long` : null;
+    }
+
+    if (setting.type === "boolean") {
+        return typeof value === "boolean" ? null : "must be true or false";
+    }
+
+    if (setting.type === "ports") {
+        const valid = value === null || (Array.isArray(value) && value.length > 0 && value.every((port) => Number.isInteger(port) && port >= 1 && port <= 65535));
+
+        return valid ? null : "must be a list of ports, or * (null in the config file) for any port";
+    }
+
+    const integer = setting.type === "integer";
+
+    if (typeof value !== "number" || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+        return `must be ${integer ? "an integer" : "a number"}`;
+    }
+
+    if (setting.min !== undefined && value < setting.min) {
+        return `must be at least ${setting.min}`;
+    }
+
+    if (setting.max !== undefined && value > setting.max) {
+        return `must be at most ${setting.max}`;
+    }
+
+    return null;
+}
+
+/**
+ * Check the feeds to seed the registry with
+ *
+ * @param {unknown} feeds
+ * @returns {string[]} A problem for each invalid feed
+ */
+const validateFeeds = (feeds: unknown): string[] => {
+    if (!Array.isArray(feeds)) {
+        return ["feeds must be a list"];
+    }
+
+    const problems: string[] = [];
+    const urls = new Set<string>();
+
+    feeds.forEach((feed, index) => {
+        const name = `feeds[${index}]`;
+
+        if (!feed || typeof feed !== "object") {
+            problems.push(`${name} must be an object`);
+            return;
+        }
+
+        if (typeof feed.url !== "string" || !/^https?:$/.test(safeProtocol(feed.url))) {
+            problems.push(`${name}.url must be an http or https URL`);
+        } else if (urls.has(feed.url)) {
+            problems.push(`${name}.url is listed more than once`);
+        } else {
+            urls.add(feed.url);
+        }
+
+        if (typeof feed.name !== "string" || feed.name.trim() === "") {
+            problems.push(`${name}.name must be a non-empty string`);
+        }
+
+        if (feed.primaryKey !== undefined && (typeof feed.primaryKey !== "string" || feed.primaryKey.trim() === "")) {
+            problems.push(`${name}.primaryKey must be a non-empty string`);
+        }
+
+        if (feed.enabled !== undefined && typeof feed.enabled !== "boolean") {
+            problems.push(`${name}.enabled must be a boolean`);
+        }
+
+        if (feed.language !== undefined && feed.language !== null && (typeof feed.language !== "string" || !/^[a-z]{2,3}([-_][a-z0-9]{1,8})*$/i.test(feed.language))) {
+            problems.push(`${name}.language must be a language tag such as fr or en-GB`);
+        }
+
+        if (feed.pollInterval !== undefined && feed.pollInterval !== null && (!Number.isInteger(feed.pollInterval) || feed.pollInterval < minPollInterval || feed.pollInterval > maxPollInterval)) {
+            problems.push(`${name}.pollInterval must be a number of seconds between ${minPollInterval} and ${maxPollInterval}`);
+        }
+
+        for (const key of Object.keys(feed)) {
+            if (!["url", "name", "primaryKey", "enabled", "language", "pollInterval"].includes(key)) {
+                problems.push(`${name}.${key} is not a setting`);
+            }
+        }
+    });
+
+    return problems;
+}
+
+/**
+ * Get the protocol of a URL, or an empty string if it isn't a URL
+ *
+ * @param {string} url
+ * @returns {string}
+ */
+const safeProtocol = (url: string): string => {
+    try {
+        return new URL(url).protocol;
+    } catch (error) {
+        return "";
+    }
+}
+
+/**
+ * The configuration of this process, loaded once when the app or the migrations start. Importing this module with an invalid configuration throws, so that the app fails at startup rather than on the first request that needs the broken setting.
+ */
+const config: Config = loadConfig();
+
+export default config;
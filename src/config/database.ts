@@ -1,10 +1,13 @@
-// Normally you'd have a .env file with these values and use dotenv to load them into process.env, but for simplicity we'll just hardcode them here
+import config from "./config.js";
+
+// The database settings in the shape that pg and postgres-migrations expect. They come from the environment variables or the config file, see config.ts.
 export default {
-    database: "postgres",
-    user: "postgres",
-    password: "postgres",
-    host: "localhost",
-    port: 5432,
+    database: config.database.name,
+    user: config.database.user,
+    password: config.database.password,
+    host: config.database.host,
+    port: config.database.port,
+    max: config.database.poolSize,
     ensureDatabaseExists: true,
     defaultDatabase: "postgres"
-}
\ No newline at end of file
+}
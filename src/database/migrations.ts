@@ -0,0 +1,36 @@
+import { migrate } from "postgres-migrations";
+import dbConfig from "./../config/database.js";
+import config from "./../config/config.js";
+import { FeedRegistry } from "./../classes/FeedRegistry.js";
+import { ApiKeyRegistry } from "./../classes/ApiKeyRegistry.js";
+
+/**
+ * What running the migrations did
+ */
+export interface MigrationResult {
+    // The file names of the migrations that were run, in the order they ran
+    migrations: string[];
+    // The number of configured feeds that weren't registered yet
+    addedFeeds: number;
+    // Whether the configured admin key was stored
+    addedAdminKey: boolean;
+}
+
+/**
+ * Run the migrations that haven't been run yet, then register the configured feeds and admin key. Both npm run migrate and the command line use this, so that a new deployment ends up the same whichever way it is set up.
+ *
+ * @param {string} directory Where the migrations are
+ * @returns {Promise<MigrationResult>}
+ * @throws {Error} If a migration fails, in which case that migration was rolled back
+ */
+export const runMigrations = async (directory: string = "./migrations"): Promise<MigrationResult> => {
+    const migrations = await migrate(dbConfig, directory);
+
+    // Register the configured feeds, so that a new deployment can import them straight away
+    const addedFeeds = await new FeedRegistry().seed(config.feeds);
+
+    // Store the configured admin key, which is the only way to get a first key to create the others with
+    const addedAdminKey = Boolean(config.auth.adminKey) && await new ApiKeyRegistry().seed(config.auth.adminKey, "Configured admin key", "admin");
+
+    return { migrations: migrations.map((migration) => migration.fileName), addedFeeds, addedAdminKey };
+}
@@ -0,0 +1,32 @@
+import pg from 'pg'
+import dbConfig from "./../config/database.js";
+
+/**
+ * The shared connection pool. Every class that talks to the database should use this pool rather than creating its own, otherwise each class would hold its own set of connections and we could quickly run out of them.
+ */
+export const pool = new pg.Pool(dbConfig);
+
+/**
+ * Run a query against the database. This is a helper function that we can use to run any query against the database. Its a good idea to have this function here because it can ensure that we always have a connection to the database, and that we always release the connection when we're done with it.
+ *
+ * @param {string} query
+ * @param {any[]} data
+ * @returns {Promise<any[]>}
+ * @throws {Error}
+ */
+export const runQuery = async (query: string, data: any[] = [] as any[]): Promise<any[]> => {
+    const client = await pool.connect();
+
+    try {
+        const result = await client.query(query, data);
+
+        return result.rows;
+
+    } catch (error) {
+        throw error;
+    }
+
+    finally {
+        client.release();
+    }
+}
@@ -0,0 +1,60 @@
+import { NextFunction, Request, Response } from "express";
+import { ApiKeyRegistry, Role } from "./../classes/ApiKeyRegistry.js";
+import { Forbidden, Unauthorized } from "./../classes/HttpError.js";
+
+/**
+ * Create a middleware that only lets requests with a key of the given role through. Admin keys can do everything reader keys can.
+ *
+ * The errors are passed on to the error handler. Requests without a key get a 401 (unauthorized), so that the client knows to send one, and requests with a key that doesn't have the role get a 403 (forbidden), since sending the same key again won't help. A key that is sent is always checked, even when the route doesn't need one, so that clients find out about a wrong or revoked key straight away rather than on their first write.
+ *
+ * The key is sent as "Authorization: Bearer <key>", and the key that was used is available to the route in res.locals.apiKey.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc6750
+ *
+ * @param {ApiKeyRegistry} apiKeys
+ * @param {() => Role | null} requiredRole Returns the role the route needs, or null if it doesn't need a key. It is a function so that the requirement follows the configuration.
+ * @returns {(req: Request, res: Response, next: NextFunction) => Promise<void>}
+ */
+export const authorize = (apiKeys: ApiKeyRegistry, requiredRole: () => Role | null) => async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const role = requiredRole();
+    const header = req.headers.authorization;
+
+    if (header === undefined) {
+        if (role === null) {
+            next();
+            return;
+        }
+
+        next(new Unauthorized("An API key is required. Send it in the Authorization header as Bearer <key>", 'Bearer realm="api"'));
+        return;
+    }
+
+    const match = /^Bearer\s+(\S+)\s*$/i.exec(header);
+
+    if (!match) {
+        next(new Unauthorized("The Authorization header must be Bearer <key>", 'Bearer realm="api", error="invalid_request"'));
+        return;
+    }
+
+    let apiKey;
+
+    try {
+        apiKey = await apiKeys.authenticate(match[1]);
+    } catch (error) {
+        next(error);
+        return;
+    }
+
+    if (!apiKey) {
+        next(new Unauthorized("The API key is invalid or has been revoked", 'Bearer realm="api", error="invalid_token"'));
+        return;
+    }
+
+    if (role === "admin" && apiKey.role !== "admin") {
+        next(new Forbidden("This endpoint needs an admin API key"));
+        return;
+    }
+
+    res.locals.apiKey = apiKey;
+    next();
+}
@@ -0,0 +1,69 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { InternalServerError, NotFound, toHttpError } from "./../classes/HttpError.js";
+import { logger } from "./../utils/logger.js";
+
+/**
+ * Wrap an async route, so that whatever it throws reaches the error handler. Express 4 doesn't wait on the promises routes return, so without this a failing query would be an unhandled rejection and the request would never get a response.
+ *
+ * @param {(req: Request, res: Response, next: NextFunction) => Promise<void>} handler
+ * @returns {RequestHandler}
+ */
+export const asyncHandler = (handler: (req: Request, res: Response, next: NextFunction) => Promise<void>): RequestHandler => (req: Request, res: Response, next: NextFunction): void => {
+    handler(req, res, next).catch(next);
+}
+
+/**
+ * Answer the requests that no route matched. It must come after every route.
+ *
+ * @param {Request} req
+ * @param {Response} res
+ * @param {NextFunction} next
+ */
+export const notFoundHandler = (req: Request, res: Response, next: NextFunction): void => {
+    next(new NotFound(`There is no ${req.method} ${req.path} endpoint`));
+}
+
+/**
+ * Send any error as an RFC 7807 problem document. It must be the last middleware.
+ *
+ * Errors that aren't HttpErrors are logged, since they are bugs or outages, and the client only gets a generic 500 or 503.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc7807
+ *
+ * @param {any} error
+ * @param {Request} req
+ * @param {Response} res
+ * @param {NextFunction} next
+ */
+export const errorHandler = (error: any, req: Request, res: Response, next: NextFunction): void => {
+    const httpError = toHttpError(error);
+
+    if (httpError instanceof InternalServerError) {
+        // The logger of the request adds its ID, which the client can quote when reporting the error
+        (res.locals.logger ?? logger).error("The request failed", { method: req.method, path: req.originalUrl, error });
+    }
+
+    // If the response has already started, such as a streamed export, there is nothing we can send anymore. Express then cuts the connection.
+    if (res.headersSent) {
+        next(error);
+        return;
+    }
+
+    sendProblem(httpError, req, res);
+}
+
+/**
+ * Send an error as an RFC 7807 problem document, for the routes that can't leave it to the error handler, such as a streamed export. The response must not have started yet.
+ *
+ * @param {any} error
+ * @param {Request} req
+ * @param {Response} res
+ */
+export const sendProblem = (error: any, req: Request, res: Response): void => {
+    const httpError = toHttpError(error);
+
+    res.status(httpError.status)
+        .set(httpError.headers)
+        .type("application/problem+json")
+        .send(JSON.stringify(httpError.toProblem(req.originalUrl)));
+}
@@ -0,0 +1,46 @@
+import { NextFunction, Request, Response } from "express";
+import { randomUUID } from "crypto";
+import { Logger } from "./../classes/Logger.js";
+import { Histogram } from "./../classes/Metrics.js";
+
+// A request ID sent by the client or a proxy is only reused if it is short and plain, since it ends up in the logs and the response headers
+const requestIdPattern = /^[\w.-]{1,128}$/;
+
+/**
+ * Create a middleware that gives every request an ID, a logger and a measure of how long it takes. It must come before every route.
+ *
+ * The ID is taken from the X-Request-Id header if there is a usable one, so that a request can be followed from a proxy to the API, and is generated otherwise. It is sent back in the X-Request-Id header. The routes find a logger that adds the ID to every entry in res.locals.logger, and pass it on to what they call.
+ *
+ * Once the response is sent, the request is logged and its duration is observed. The route is the path of the matched route, like /api/feeds/:id, rather than the path of the request, so that the metrics don't get a series per ID.
+ *
+ * @param {Logger} logger
+ * @param {Histogram} duration The histogram of the durations, by method, route and status
+ * @param {string[]} quietPaths The paths that are only logged at debug level, such as the probes that are requested every few seconds
+ * @returns {(req: Request, res: Response, next: NextFunction) => void}
+ */
+export const requestContext = (logger: Logger, duration: Histogram, quietPaths: string[] = []) => (req: Request, res: Response, next: NextFunction): void => {
+    const header = req.get("X-Request-Id");
+    const requestId = header !== undefined && requestIdPattern.test(header) ? header : randomUUID();
+    const startedAt = process.hrtime.bigint();
+
+    res.locals.requestId = requestId;
+    res.locals.logger = logger.child({ requestId });
+    res.set("X-Request-Id", requestId);
+
+    res.on("finish", () => {
+        const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+        const route = req.route ? req.baseUrl + req.route.path : "unmatched";
+
+        duration.observe({ method: req.method, route, status: res.statusCode }, seconds);
+
+        res.locals.logger.log(quietPaths.includes(req.path) ? "debug" : "info", "Handled the request", {
+            method: req.method,
+            path: req.originalUrl,
+            route,
+            status: res.statusCode,
+            durationMs: Math.round(seconds * 1000),
+        });
+    });
+
+    next();
+}
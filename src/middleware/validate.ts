@@ -0,0 +1,57 @@
+import { NextFunction, Request, Response } from "express";
+import { InvalidParameter, NotFound, ValidationFailed } from "./../classes/HttpError.js";
+import { parseFields, RequestSchema, RequestValues } from "./../utils/schema.js";
+
+/**
+ * Create a middleware that validates the parameters of a request against a schema, and passes the parsed parameters to the route in res.locals.params, res.locals.query and res.locals.body. The route can then trust them, and only the parameters of the schema are passed, so that a client can't sneak in attributes the route doesn't expect.
+ *
+ * Every invalid parameter is reported at once, as a 422. An invalid path parameter is a 404 instead, since the path doesn't point to anything.
+ *
+ * @param {RequestSchema} schema
+ * @returns {(req: Request, res: Response, next: NextFunction) => Promise<void>}
+ */
+export const validate = (schema: RequestSchema) => async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const params = await parseFields(schema.params ?? {}, req.params, true);
+        const paramErrors = Object.values(params.errors);
+
+        if (paramErrors.length > 0) {
+            throw new NotFound(paramErrors[0]);
+        }
+
+        const errors: InvalidParameter[] = [];
+        const query = await parseFields(schema.query ?? {}, req.query, true);
+        errors.push(...Object.entries(query.errors).map(([name, detail]) => ({ name, in: "query" as const, detail })));
+
+        let body: Record<string, unknown> = {};
+
+        if (schema.body) {
+            // Without a body, or without the JSON content type, the body parser leaves an empty object
+            if (!req.body || typeof req.body !== "object" || Array.isArray(req.body)) {
+                throw new ValidationFailed([{ name: "body", in: "body", detail: "The request body must be a JSON object" }]);
+            }
+
+            const parsed = await parseFields(schema.body, req.body, false);
+            errors.push(...Object.entries(parsed.errors).map(([name, detail]) => ({ name, in: "body" as const, detail })));
+            body = parsed.values;
+        }
+
+        if (errors.length > 0) {
+            throw new ValidationFailed(errors);
+        }
+
+        const values: RequestValues = { params: params.values, query: query.values, body };
+        const checked = schema.check ? await schema.check(values) : true;
+
+        if (checked !== true) {
+            throw new ValidationFailed([{ name: "request", in: schema.body ? "body" : "query", detail: checked }]);
+        }
+
+        res.locals.params = values.params;
+        res.locals.query = values.query;
+        res.locals.body = values.body;
+        next();
+    } catch (error) {
+        next(error);
+    }
+}
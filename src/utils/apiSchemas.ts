@@ -0,0 +1,227 @@
+import { JsonSchema } from "./../classes/ApiRouter.js";
+
+/**
+ * The schemas of what the API sends back, which the routes refer to as #/components/schemas/<name>. They follow the interfaces of the classes that produce the responses, so a change to one of those interfaces must be made here too; the contract test checks the real responses against them.
+ */
+
+const date: JsonSchema = { type: "string", format: "date-time" };
+const nullable = (schema: JsonSchema): JsonSchema => ({ ...schema, type: [schema.type, "null"] });
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+/**
+ * An object whose properties are all required. The responses always contain every property, using null for the missing values.
+ *
+ * @param {string} description
+ * @param {Record<string, JsonSchema>} properties
+ * @returns {JsonSchema}
+ */
+const object = (description: string, properties: Record<string, JsonSchema>): JsonSchema => {
+    return { type: "object", description, properties, required: Object.keys(properties) };
+}
+
+// The article columns are returned as Postgres names them, in lowercase
+const articleProperties: Record<string, JsonSchema> = {
+    id: { type: "integer" },
+    externalid: { type: "string", description: "The ID of the article in its feed" },
+    importdate: { ...date, description: "When the article was first imported" },
+    title: { type: "string" },
+    description: { type: "string" },
+    publicationdate: date,
+    link: { type: "string" },
+    mainpicture: nullable({ type: "string", description: "The URL of the main picture of the article" }),
+    feedid: nullable({ type: "integer", description: "The ID of the feed the article was imported from" }),
+    language: nullable({ type: "string", description: "The language of the article, such as fr or en-GB" }),
+    wordwithmostvowels: { type: "string", description: "The word of the title with the most vowels" },
+    wordcount: { type: "integer", description: "The number of words in the title and description" },
+    readingtime: { type: "integer", description: "How long the title and description take to read, in seconds" },
+    keywords: { type: "array", items: { type: "string" }, description: "The most frequent words of the title and description, without stop words" },
+};
+
+const importReportProperties: Record<string, JsonSchema> = {
+    id: nullable({ type: "integer", description: "The ID of the stored report, or null if it wasn't stored" }),
+    feedId: { type: "integer" },
+    url: { type: "string" },
+    status: { type: "string", enum: ["success", "partial", "failed", "not-modified"], description: "partial: some items were rejected. failed: nothing was imported. not-modified: the feed hasn't changed since the last import" },
+    importDate: date,
+    durationMs: { type: "integer" },
+    itemCount: { type: "integer" },
+    inserted: { type: "integer" },
+    updated: { type: "integer", description: "Only articles whose content actually changed count as updated" },
+    unchanged: { type: "integer" },
+    rejected: { type: "integer" },
+    duplicates: { type: "integer", description: "The items that were skipped because their article was already imported under another ID" },
+    rejections: {
+        type: "array",
+        items: object("An item that couldn't be imported, and why", {
+            externalId: nullable({ type: "string" }),
+            title: nullable({ type: "string" }),
+            reason: { type: "string" },
+        }),
+    },
+    error: nullable({ type: "string", description: "Why the import failed, if it did" }),
+};
+
+const checkProperties: Record<string, JsonSchema> = {
+    status: { type: "string", enum: ["ok", "failed"] },
+    error: nullable({ type: "string", description: "What went wrong, if the check failed" }),
+};
+
+const apiKeyProperties: Record<string, JsonSchema> = {
+    id: { type: "integer" },
+    name: { type: "string" },
+    role: { type: "string", enum: ["reader", "admin"] },
+    prefix: { type: "string", description: "The start of the key, to tell keys apart" },
+    createdAt: date,
+    lastUsedAt: nullable(date),
+    revokedAt: nullable(date),
+};
+
+export const apiSchemas: Record<string, JsonSchema> = {
+    Article: object("An imported article, with analytics computed from its title and description", articleProperties),
+    ArticlePage: object("A page of articles", {
+        data: {
+            type: "array",
+            items: {
+                ...ref("Article"),
+                properties: {
+                    storyid: nullable({ type: "integer", description: "When collapsing, the ID of the story of the article, or null if it isn't in one" }),
+                    storysize: { type: "integer", description: "When collapsing, the number of articles of the story that match the filters" },
+                },
+            },
+        },
+        nextCursor: nullable({ type: "string", description: "The cursor of the next page, or null if this is the last page" }),
+    }),
+    SearchResults: object("The articles matching a search, most relevant first", {
+        data: {
+            type: "array",
+            items: object("An article matching a search", {
+                ...articleProperties,
+                rank: { type: "number", description: "How relevant the article is" },
+                titlehighlight: { type: "string", description: "The title, with the matches between <mark> and </mark>" },
+                snippet: { type: "string", description: "The parts of the description with matches, with the matches between <mark> and </mark>" },
+            }),
+        },
+    }),
+    StoryList: object("The stories, most recently published first", {
+        data: {
+            type: "array",
+            items: object("The articles of every feed about the same story", {
+                id: { type: "integer" },
+                title: { type: "string", description: "The title of the first article of the story" },
+                articleCount: { type: "integer" },
+                feedCount: { type: "integer", description: "The number of feeds the articles come from" },
+                firstPublishedAt: date,
+                lastPublishedAt: date,
+                articles: { type: "array", items: ref("Article"), description: "The articles, first published first" },
+            }),
+        },
+    }),
+    KeywordTrends: object("The keywords that appear in the most articles within a time window", {
+        from: date,
+        to: date,
+        articleCount: { type: "integer", description: "The number of articles published within the window" },
+        data: { type: "array", items: object("A keyword, and the number of articles it appears in", { keyword: { type: "string" }, count: { type: "integer" } }) },
+    }),
+    ImportReport: object("The report of an import", importReportProperties),
+    ImportReportWithContent: object("The report of an import, with what was imported", {
+        ...importReportProperties,
+        rawContent: { description: "The parsed feed that was imported, or null if nothing was" },
+    }),
+    ImportPage: object("A page of import reports", {
+        data: { type: "array", items: ref("ImportReport") },
+        nextCursor: nullable({ type: "string", description: "The cursor of the next page, or null if this is the last page" }),
+    }),
+    Feed: object("A registered feed", {
+        id: { type: "integer" },
+        url: { type: "string" },
+        name: { type: "string" },
+        primaryKey: { type: "string", description: "The item property that uniquely identifies an article" },
+        enabled: { type: "boolean" },
+        language: nullable({ type: "string", description: "Overrides the language the feed declares" }),
+        pollInterval: nullable({ type: "integer", description: "Seconds between two background imports, or null for the default" }),
+        lastSuccessAt: nullable(date),
+        lastErrorAt: nullable(date),
+        lastError: nullable({ type: "string", description: "Why importing the feed last failed" }),
+        etag: nullable({ type: "string" }),
+        lastModified: nullable({ type: "string" }),
+        createdAt: date,
+        updatedAt: date,
+    }),
+    ApiKey: object("An API key. The key itself is only sent when it is created", apiKeyProperties),
+    NewApiKey: object("A new API key, with the key itself", { ...apiKeyProperties, key: { type: "string", description: "The key. This is the only time it is sent" } }),
+    SchedulerStatus: object("The state of the background imports", {
+        started: { type: "boolean" },
+        feeds: {
+            type: "array",
+            items: object("The background imports of a feed", {
+                feedId: { type: "integer" },
+                url: { type: "string" },
+                name: { type: "string" },
+                interval: { type: "integer", description: "Seconds between two imports, when the feed isn't failing" },
+                nextRunAt: nullable({ ...date, description: "When the next import will start, or null if one is running" }),
+                running: { type: "boolean" },
+                consecutiveFailures: { type: "integer" },
+                lastSuccessAt: nullable(date),
+                lastErrorAt: nullable(date),
+                lastError: nullable({ type: "string" }),
+            }),
+        },
+    }),
+    Liveness: object("The API is alive", { status: { type: "string", enum: ["ok"] } }),
+    Readiness: object("The API can serve requests, and the outcome of each check", {
+        status: { type: "string", enum: ["ready"] },
+        checks: ref("ReadinessChecks"),
+    }),
+    ReadinessChecks: object("The outcome of each readiness check", {
+        database: object("Whether the database can be reached", checkProperties),
+        migrations: object("Whether every migration has been run", {
+            ...checkProperties,
+            pending: { type: "array", items: { type: "string" }, description: "The file names of the migrations that haven't been run" },
+        }),
+    }),
+    EndpointSummaries: object("A summary of the endpoints. The full details are in the OpenAPI document", {
+        authentication: { type: "string", description: "How to send an API key" },
+        documentation: { type: "string", description: "The path of the OpenAPI document" },
+        endpoints: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    endpoint: { type: "string" },
+                    method: { type: "string" },
+                    description: { type: "string" },
+                    role: { type: "string", enum: ["admin"], description: "Set for the endpoints that need an admin key" },
+                    parameters: {
+                        type: "array",
+                        items: object("A parameter", {
+                            name: { type: "string" },
+                            in: { type: "string", enum: ["path", "query", "body"] },
+                            description: { type: "string" },
+                            required: { type: "boolean" },
+                        }),
+                    },
+                },
+                required: ["endpoint", "method", "description"],
+            },
+        },
+    }),
+    Problem: {
+        type: "object",
+        description: "An RFC 7807 problem document, which every error is sent as",
+        properties: {
+            type: { type: "string", description: "Identifies the kind of problem. about:blank means the problem is just what the status code says" },
+            title: { type: "string", description: "A short summary of the kind of problem" },
+            status: { type: "integer" },
+            detail: { type: "string", description: "What went wrong this time" },
+            instance: { type: "string", description: "The request the problem happened on" },
+            errors: {
+                type: "array",
+                description: "Every invalid parameter, when the parameters are invalid",
+                items: object("An invalid parameter", { name: { type: "string" }, in: { type: "string", enum: ["path", "query", "body"] }, detail: { type: "string" } }),
+            },
+            report: { ...ref("ImportReport"), description: "The report of the import, when an import failed" },
+            checks: { ...ref("ReadinessChecks"), description: "The outcome of each readiness check, when the API isn't ready" },
+        },
+        required: ["type", "title", "status", "detail"],
+    },
+};
@@ -0,0 +1,31 @@
+/**
+ * The source of time for anything that runs on a timer. Classes take a clock rather than calling Date.now() and setTimeout() themselves, so that tests can swap in a fake clock and move time forward without actually waiting.
+ */
+export interface Clock {
+    /**
+     * The current time in milliseconds since the epoch
+     */
+    now(): number;
+
+    /**
+     * Call the callback once, after the given number of milliseconds
+     */
+    setTimeout(callback: () => void, ms: number): unknown;
+
+    /**
+     * Cancel a callback that was set with setTimeout
+     */
+    clearTimeout(handle: unknown): void;
+}
+
+/**
+ * The real clock
+ */
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    setTimeout: (callback: () => void, ms: number) => {
+        // Unref the timer so that a pending timer on its own doesn't keep the process running
+        return setTimeout(callback, ms).unref();
+    },
+    clearTimeout: (handle: unknown) => clearTimeout(handle as NodeJS.Timeout),
+};
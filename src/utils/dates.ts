@@ -0,0 +1,88 @@
+// The offsets of the timezone abbreviations found in feeds. RFC 822 only defines the North American ones, but European publishers often use their own.
+const timezoneOffsets: Record<string, string> = {
+    UT: "+00:00",
+    UTC: "+00:00",
+    GMT: "+00:00",
+    Z: "+00:00",
+    WET: "+00:00",
+    WEST: "+01:00",
+    BST: "+01:00",
+    CET: "+01:00",
+    MET: "+01:00",
+    CEST: "+02:00",
+    MEST: "+02:00",
+    EET: "+02:00",
+    EEST: "+03:00",
+    EST: "-05:00",
+    EDT: "-04:00",
+    CST: "-06:00",
+    CDT: "-05:00",
+    MST: "-07:00",
+    MDT: "-06:00",
+    PST: "-08:00",
+    PDT: "-07:00",
+};
+
+const months = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// For example "Thu, 15 Dec 2022 09:30:00 GMT", or without the weekday, seconds or timezone
+const rfc822 = /^(?:[a-z]+\.?,?\s*)?(\d{1,2})\s+([a-z]+)\.?,?\s+(\d{2}|\d{4}),?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([+-]\d{2}:?\d{2}|[a-z]+)?$/i;
+
+// For example "2022-12-15T09:30:00Z", or with a space instead of the T, fractions of seconds, or no time at all
+const iso8601 = /^(\d{4})-(\d{2})-(\d{2})(?:[t\s](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?\s*(z|[+-]\d{2}(?::?\d{2})?)?$/i;
+
+/**
+ * Parse a date as found in feeds
+ *
+ * RSS uses RFC 822 dates and Atom and JSON Feed use ISO 8601 dates, but publishers get both wrong in many ways: named timezones other than the few RFC 822 knows, no timezone at all, the wrong weekday, two-digit years... A date without a timezone is taken as UTC rather than as the server's local time, so that the same feed gives the same dates wherever it's imported.
+ *
+ * @param {unknown} value
+ * @returns {Date | null} The date, or null if it can't be parsed
+ */
+export const parseDate = (value: unknown): Date | null => {
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? null : value;
+    }
+
+    if (typeof value !== "string" || value.trim() === "") {
+        return null;
+    }
+
+    const text = value.trim().replace(/\s+/g, " ");
+    let date: Date;
+
+    const rfc = rfc822.exec(text);
+    const iso = iso8601.exec(text);
+
+    if (rfc) {
+        const [, day, monthName, yearText, hours, minutes, seconds = "00", timezone = "GMT"] = rfc;
+        const month = months.indexOf(monthName.slice(0, 3).toLowerCase());
+        // Two-digit years are from the RFC 822 days, so they can only be this century or the last
+        const year = yearText.length === 2 ? (Number(yearText) < 50 ? 2000 : 1900) + Number(yearText) : Number(yearText);
+        const offset = timezoneOffsets[timezone.toUpperCase()] ?? (/^[+-]\d{2}:?\d{2}$/.test(timezone) ? timezone.replace(/^([+-]\d{2}):?(\d{2})$/, "$1:$2") : null);
+
+        if (month === -1 || offset === null) {
+            return null;
+        }
+
+        date = new Date(`${year}-${pad(month + 1)}-${pad(day)}T${pad(hours)}:${minutes}:${seconds}${offset}`);
+    } else if (iso) {
+        const [, year, month, day, hours = "00", minutes = "00", seconds = "00", fraction = "0", timezone = "Z"] = iso;
+        const offset = timezone.toUpperCase() === "Z" ? "+00:00" : timezone.replace(/^([+-]\d{2}):?(\d{2})?$/, (_, h, m) => `${h}:${m ?? "00"}`);
+
+        date = new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}.${fraction.padEnd(3, "0").slice(0, 3)}${offset}`);
+    } else {
+        // Anything else is left to the JavaScript parser, which understands a few more formats
+        date = new Date(text);
+    }
+
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Pad a number to two digits
+ *
+ * @param {number | string} value
+ * @returns {string}
+ */
+const pad = (value: number | string): string => String(value).padStart(2, "0");
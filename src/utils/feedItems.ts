@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+
+/**
+ * A picture an item links to, and whatever the feed tells us about it
+ */
+export interface PictureCandidate {
+    url: unknown;
+    // The MIME type, for example image/jpeg
+    type?: unknown;
+    // The kind of media, for example image or video (media:content only)
+    medium?: unknown;
+    width?: unknown;
+}
+
+// The extensions of files that are clearly not pictures, for media that doesn't tell us its type
+const notPictures = /\.(mp3|m4a|aac|ogg|oga|wav|mp4|m4v|mov|webm|avi|pdf|zip)$/i;
+
+/**
+ * Pick the ID of an item: the first candidate that is a non-empty string or a number, or else a hash of the item's link
+ *
+ * The link is hashed rather than used as it is because links can be longer than the externalId column allows. The hash is stable, so the same link always gives the same ID and the item is updated rather than duplicated on the next import.
+ *
+ * @param {unknown[]} candidates The possible IDs, best first
+ * @param {string | null} link
+ * @returns {string | null} The ID, or null if there is neither a candidate nor a link
+ */
+export const pickId = (candidates: unknown[], link: string | null): string | null => {
+    for (const candidate of candidates) {
+        if (typeof candidate === "string" && candidate.trim() !== "") {
+            return candidate.trim();
+        }
+
+        if (typeof candidate === "number" && isFinite(candidate)) {
+            return String(candidate);
+        }
+    }
+
+    if (link) {
+        return "sha256:" + crypto.createHash("sha256").update(link).digest("hex");
+    }
+
+    return null;
+}
+
+/**
+ * Pick the main picture among the media of an item: the widest picture of the first group that has one
+ *
+ * Feeds often list the same picture in several sizes, or a video alongside a picture, so each group is filtered down to pictures and the widest is taken.
+ *
+ * @param {PictureCandidate[][]} groups The media of the item grouped by where they come from, best first. For example media:content before media:thumbnail before enclosures.
+ * @returns {string | null} The URL of the picture, or null if there is none
+ */
+export const pickPicture = (groups: PictureCandidate[][]): string | null => {
+    for (const group of groups) {
+        const pictures = group.filter(isPicture);
+
+        if (pictures.length === 0) {
+            continue;
+        }
+
+        const widest = pictures.reduce((best, picture) => (Number(picture.width) || 0) > (Number(best.width) || 0) ? picture : best);
+
+        return (widest.url as string).trim();
+    }
+
+    return null;
+}
+
+/**
+ * Whether a media candidate is a picture. Media that doesn't say what it is counts as a picture, unless its extension says otherwise: most feeds only use media:content for pictures and don't bother with the medium.
+ *
+ * @param {PictureCandidate} candidate
+ * @returns {boolean}
+ */
+const isPicture = (candidate: PictureCandidate): boolean => {
+    if (typeof candidate.url !== "string" || !/^https?:\/\//i.test(candidate.url.trim())) {
+        return false;
+    }
+
+    if (typeof candidate.medium === "string") {
+        return candidate.medium.toLowerCase() === "image";
+    }
+
+    if (typeof candidate.type === "string") {
+        return candidate.type.toLowerCase().startsWith("image/");
+    }
+
+    return !notPictures.test(candidate.url.trim().split(/[?#]/)[0]);
+}
+
+// The named entities that are common in feeds. Numeric entities are decoded separately, so this doesn't need to list every entity HTML has.
+const entities: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: "\"",
+    apos: "'",
+    nbsp: " ",
+    hellip: "…",
+    mdash: "—",
+    ndash: "–",
+    lsquo: "‘",
+    rsquo: "’",
+    ldquo: "“",
+    rdquo: "”",
+    laquo: "«",
+    raquo: "»",
+    euro: "€",
+    copy: "©",
+};
+
+/**
+ * Turn HTML into plain text, for the description of an article. Block elements become line breaks, other tags are removed and entities are decoded.
+ *
+ * @param {unknown} html
+ * @returns {string}
+ */
+export const htmlToText = (html: unknown): string => {
+    if (typeof html !== "string") {
+        return "";
+    }
+
+    return html
+        .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, "")
+        .replace(/<\/?(br|p|div|li|ul|ol|h[1-6]|blockquote|section|table|tr)\b[^>]*>/gi, "\n")
+        .replace(/<[^>]*>/g, "")
+        .replace(/&#x([0-9a-f]+);/gi, (entity, code) => safeCodePoint(parseInt(code, 16)) ?? entity)
+        .replace(/&#(\d+);/g, (entity, code) => safeCodePoint(Number(code)) ?? entity)
+        .replace(/&([a-z]+);/gi, (entity, name) => entities[name.toLowerCase()] ?? entity)
+        .replace(/[ \t]+/g, " ")
+        .replace(/\s*\n\s*/g, "\n")
+        .trim();
+}
+
+/**
+ * Get the character of a code point, or null if there is no such character
+ *
+ * @param {number} code
+ * @returns {string | null}
+ */
+const safeCodePoint = (code: number): string | null => {
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : null;
+}
+
+/**
+ * Get the name of the root element of an XML document, skipping the declaration, comments and doctype before it
+ *
+ * @param {string} xml
+ * @returns {string | null} The name, with its prefix if it has one, or null if the text doesn't start like XML
+ */
+export const xmlRootElement = (xml: string): string | null => {
+    return /^\s*(?:(?:<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>)\s*)*<([\w.:-]+)/i.exec(xml)?.[1] ?? null;
+}
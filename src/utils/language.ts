@@ -0,0 +1,61 @@
+/**
+ * The PostgreSQL text search configurations for the languages we know how to stem, keyed by their ISO 639-1 code. These are all built into PostgreSQL, so adding a language here is enough to support it.
+ *
+ * @see https://www.postgresql.org/docs/current/textsearch-configuration.html
+ */
+export const searchConfigs: Record<string, string> = {
+    da: "danish",
+    de: "german",
+    en: "english",
+    es: "spanish",
+    fi: "finnish",
+    fr: "french",
+    it: "italian",
+    nl: "dutch",
+    no: "norwegian",
+    pt: "portuguese",
+    ru: "russian",
+    sv: "swedish",
+};
+
+/**
+ * Get the primary language code from a language tag, for example "fr" from "fr-FR" or "en" from "en_GB"
+ *
+ * @param {string | null | undefined} language A language tag as found in feeds
+ * @returns {string | null} The lowercase primary language code, or null if there is no language
+ */
+export const primaryLanguage = (language: string | null | undefined): string | null => {
+    if (!language || typeof language !== "string") {
+        return null;
+    }
+
+    return language.trim().toLowerCase().split(/[-_]/)[0] || null;
+}
+
+/**
+ * Get the text search configuration for a language. Languages we don't know fall back to the "simple" configuration, which still allows searching but without stemming.
+ *
+ * @param {string | null | undefined} language A language tag as found in feeds
+ * @returns {string}
+ */
+export const searchConfigFor = (language: string | null | undefined): string => {
+    return searchConfigs[primaryLanguage(language) ?? ""] ?? "simple";
+}
+
+/**
+ * The vowels of the languages we know, keyed by their ISO 639-1 code. Accented vowels count as vowels too, so that "élection" has four of them in French. Languages that aren't listed fall back to any Latin vowel, with or without an accent.
+ */
+export const vowelSets: Record<string, Set<string>> = {
+    da: new Set("aeiouyæøåé"),
+    de: new Set("aeiouyäöü"),
+    en: new Set("aeiouy"),
+    es: new Set("aeiouáéíóúü"),
+    fi: new Set("aeiouyäö"),
+    fr: new Set("aeiouyàâæéèêëîïôœùûüÿ"),
+    it: new Set("aeiouàèéìíîòóùú"),
+    nl: new Set("aeiouyäëïöüéè"),
+    no: new Set("aeiouyæøåé"),
+    pt: new Set("aeiouáâãàéêíóôõúü"),
+    ru: new Set("аеёиоуыэюя"),
+    sv: new Set("aeiouyåäöé"),
+};
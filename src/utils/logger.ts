@@ -0,0 +1,7 @@
+import { Logger } from "./../classes/Logger.js";
+import config from "./../config/config.js";
+
+/**
+ * The logger of the app. Every part of the app logs through it, or through one of its children, so that all the entries have the same format and follow the configured level.
+ */
+export const logger = new Logger(config.log.level, { service: "rss-api" });
@@ -0,0 +1,49 @@
+import { Counter, Gauge, Histogram, MetricsRegistry } from "./../classes/Metrics.js";
+import { pool } from "./../database/pool.js";
+import config from "./../config/config.js";
+
+/**
+ * The metrics of the app, which /metrics exposes to Prometheus. They are shared like the pool, so that any part of the app can record what it does.
+ */
+export const metrics = new MetricsRegistry();
+
+// The route is the path of the route (/api/feeds/:id) rather than of the request, otherwise every ID would be its own series
+export const httpRequestDuration = metrics.register(new Histogram(
+    "http_request_duration_seconds",
+    "How long the HTTP requests took to handle, until the response was sent",
+    ["method", "route", "status"],
+    [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+));
+
+export const importDuration = metrics.register(new Histogram(
+    "rss_import_duration_seconds",
+    "How long the feed imports took, from fetching the feed to saving its articles",
+    ["status"],
+    [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+));
+
+export const importItems = metrics.register(new Histogram(
+    "rss_import_items",
+    "The number of items per import, by what happened to them: inserted, updated, unchanged or rejected",
+    ["outcome"],
+    [0, 1, 5, 10, 25, 50, 100, 250, 500, 1000, 5000],
+));
+
+export const fetchErrors = metrics.register(new Counter(
+    "rss_fetch_errors_total",
+    "The number of times a feed couldn't be fetched",
+    ["feed"],
+));
+
+// The pool is read when the metrics are scraped, since it keeps the counts itself
+export const poolConnections = metrics.register(new Gauge(
+    "db_pool_connections",
+    "The connections of the database pool: total (open), idle, waiting (clients waiting for a connection) and max (the size of the pool)",
+    ["state"],
+    (gauge) => {
+        gauge.set({ state: "total" }, pool.totalCount);
+        gauge.set({ state: "idle" }, pool.idleCount);
+        gauge.set({ state: "waiting" }, pool.waitingCount);
+        gauge.set({ state: "max" }, config.database.poolSize);
+    },
+));
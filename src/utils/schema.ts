@@ -0,0 +1,235 @@
+/**
+ * The description of a request parameter: what type it has, what values it accepts, and what it is for. The descriptions are what the API documentation is made of, so they should make sense to someone who hasn't read the code.
+ */
+export interface Field {
+    // Dates are sent as ISO 8601 strings, and URLs as http or https URLs
+    type: "string" | "integer" | "number" | "boolean" | "date" | "url";
+    description: string;
+    required?: boolean;
+    // Whether null is accepted, which only body parameters can send. It usually means "go back to the default".
+    nullable?: boolean;
+    // The lowest and highest numbers, or the shortest and longest strings
+    min?: number;
+    max?: number;
+    // The only values that are accepted
+    enum?: readonly string[];
+    // A pattern strings must match
+    pattern?: RegExp;
+    // The value the server uses when the parameter isn't sent. It is only documented; the classes apply their own defaults, which may depend on the other parameters.
+    default?: string | number | boolean;
+    // The message when the value is invalid, when the generated one doesn't say enough
+    message?: string;
+    // Turn the valid value into what the route needs, or null if it turns out to be invalid, like decoding a cursor
+    parse?: (value: any) => unknown | null;
+    // A check that needs more than the value itself, and may be async, like resolving the host of a URL. Returns true, or the message if the value is rejected.
+    check?: (value: any) => true | string | Promise<true | string>;
+}
+
+/**
+ * The parameters of a request, as sent in the path, the query string and the JSON body
+ */
+export interface RequestSchema {
+    params?: Record<string, Field>;
+    query?: Record<string, Field>;
+    body?: Record<string, Field>;
+    // A check that involves several parameters, once each of them is valid. Returns true, or the message if the request is rejected.
+    check?: (values: RequestValues) => true | string | Promise<true | string>;
+}
+
+/**
+ * The parsed parameters of a request. Only the parameters of the schema are kept, and those that weren't sent are left out.
+ */
+export interface RequestValues {
+    params: Record<string, any>;
+    query: Record<string, any>;
+    body: Record<string, any>;
+}
+
+/**
+ * List values in a sentence, like "a, b or c"
+ *
+ * @param {readonly string[]} values
+ * @returns {string}
+ */
+const listValues = (values: readonly string[]): string => {
+    return values.length > 1 ? `${values.slice(0, -1).join(", ")} or ${values[values.length - 1]}` : values.join("");
+}
+
+/**
+ * Describe what a parameter accepts, for the error message
+ *
+ * @param {string} name
+ * @param {Field} field
+ * @returns {string}
+ */
+export const describeField = (name: string, field: Field): string => {
+    if (field.message) {
+        return field.message;
+    }
+
+    let expected: string;
+
+    if (field.enum) {
+        expected = field.enum.length === 2 ? `either ${field.enum[0]} or ${field.enum[1]}` : `one of ${listValues(field.enum)}`;
+    } else if (field.type === "integer" || field.type === "number") {
+        const article = field.type === "integer" ? "an integer" : "a number";
+
+        if (field.min !== undefined && field.max !== undefined) {
+            expected = `${article} between ${field.min} and ${field.max}`;
+        } else if (field.min !== undefined) {
+            expected = `${article} of at least ${field.min}`;
+        } else {
+            expected = article;
+        }
+    } else if (field.type === "string") {
+        expected = field.max !== undefined ? `a non-empty string of at most ${field.max} characters` : "a non-empty string";
+    } else {
+        expected = { boolean: "a boolean", date: "a valid date", url: "a valid http or https URL" }[field.type];
+    }
+
+    return `The ${name} parameter ${field.required ? "is required and " : ""}must be ${expected}${field.nullable ? ", or null" : ""}`;
+}
+
+/**
+ * Parse the value of a parameter. Query parameters are always strings, so their numbers and booleans are converted; body parameters are JSON, so they must already have the right type.
+ *
+ * @param {unknown} value
+ * @param {Field} field
+ * @param {boolean} fromString Whether the value comes from the path or the query string
+ * @returns {{ value: unknown } | null} The parsed value, or null if it is invalid
+ */
+const parseValue = (value: unknown, field: Field, fromString: boolean): { value: unknown } | null => {
+    if (value === null) {
+        return field.nullable && !fromString ? { value: null } : null;
+    }
+
+    // Repeating a query parameter makes it an array, and brackets make it an object
+    if (fromString && typeof value !== "string") {
+        return null;
+    }
+
+    let parsed: unknown;
+
+    switch (field.type) {
+        case "integer":
+        case "number": {
+            // Number("") is 0, so empty strings are rejected first
+            const number = fromString ? (value === "" ? NaN : Number(value)) : value;
+
+            if (typeof number !== "number" || !Number.isFinite(number) || (field.type === "integer" && !Number.isInteger(number))) {
+                return null;
+            }
+
+            if ((field.min !== undefined && number < field.min) || (field.max !== undefined && number > field.max)) {
+                return null;
+            }
+
+            parsed = number;
+            break;
+        }
+        case "boolean": {
+            const boolean = fromString ? { true: true, false: false }[value as string] : value;
+
+            if (typeof boolean !== "boolean") {
+                return null;
+            }
+
+            parsed = boolean;
+            break;
+        }
+        case "date": {
+            const date = typeof value === "string" ? new Date(value) : null;
+
+            if (!date || isNaN(date.getTime())) {
+                return null;
+            }
+
+            parsed = date;
+            break;
+        }
+        case "url": {
+            // The same check as RssModule.isWellFormedUrl: the URL constructor alone would accept http:hello
+            if (typeof value !== "string" || !/^https?:\/\//i.test(value)) {
+                return null;
+            }
+
+            try {
+                new URL(value);
+            } catch (error) {
+                return null;
+            }
+
+            parsed = value;
+            break;
+        }
+        case "string": {
+            if (typeof value !== "string" || value.trim() === "" || (field.max !== undefined && value.length > field.max)) {
+                return null;
+            }
+
+            parsed = value;
+            break;
+        }
+    }
+
+    if (field.enum && !field.enum.includes(parsed as string)) {
+        return null;
+    }
+
+    if (field.pattern && !field.pattern.test(String(parsed))) {
+        return null;
+    }
+
+    if (field.parse) {
+        parsed = field.parse(parsed);
+
+        if (parsed === null) {
+            return null;
+        }
+    }
+
+    return { value: parsed };
+}
+
+/**
+ * Validate and parse a set of parameters
+ *
+ * @param {Record<string, Field>} fields
+ * @param {Record<string, unknown>} values The parameters as they were sent
+ * @param {boolean} fromString Whether the values come from the path or the query string
+ * @returns {Promise<{ values: Record<string, unknown>, errors: Record<string, string> }>} The valid parameters, and the messages of the invalid ones
+ */
+export const parseFields = async (fields: Record<string, Field>, values: Record<string, unknown>, fromString: boolean): Promise<{ values: Record<string, unknown>, errors: Record<string, string> }> => {
+    const parsed: Record<string, unknown> = {};
+    const errors: Record<string, string> = {};
+
+    for (const [name, field] of Object.entries(fields)) {
+        if (values[name] === undefined) {
+            if (field.required) {
+                errors[name] = describeField(name, field);
+            }
+
+            continue;
+        }
+
+        const result = parseValue(values[name], field, fromString);
+
+        if (!result) {
+            errors[name] = describeField(name, field);
+            continue;
+        }
+
+        if (field.check && result.value !== null) {
+            const checked = await field.check(result.value);
+
+            if (checked !== true) {
+                errors[name] = checked;
+                continue;
+            }
+        }
+
+        parsed[name] = result.value;
+    }
+
+    return { values: parsed, errors };
+}
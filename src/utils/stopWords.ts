@@ -0,0 +1,28 @@
+/**
+ * The most common words of each language, which say nothing about what an article is about and are left out of its keywords. The lists are deliberately short: they only need to cover the words that would otherwise top every list of keywords.
+ *
+ * Words are lowercase, and without the elided forms (l', d'...) since the tokenizer already removes those.
+ */
+export const stopWords: Record<string, Set<string>> = {
+    en: new Set([
+        "a", "about", "after", "all", "also", "an", "and", "any", "are", "as", "at", "be", "been", "before", "being", "but", "by", "can", "could", "did", "do", "does", "for", "from", "had", "has", "have", "he", "her", "his", "how", "i", "if", "in", "into", "is", "it", "its", "just", "more", "most", "new", "no", "not", "now", "of", "on", "one", "or", "our", "out", "over", "says", "she", "so", "some", "than", "that", "the", "their", "them", "there", "they", "this", "to", "up", "us", "was", "we", "were", "what", "when", "where", "which", "who", "why", "will", "with", "would", "you", "your",
+    ]),
+    fr: new Set([
+        "a", "à", "au", "aux", "avec", "ce", "ces", "cette", "dans", "de", "des", "du", "elle", "elles", "en", "est", "et", "été", "être", "il", "ils", "la", "le", "les", "leur", "leurs", "lui", "mais", "même", "ne", "ni", "nous", "on", "ont", "ou", "où", "par", "pas", "plus", "pour", "qu", "que", "qui", "sa", "sans", "se", "ses", "son", "sont", "sur", "tout", "très", "un", "une", "vous", "y", "après", "avant", "contre", "depuis", "entre", "fait", "face", "selon", "sous", "va", "comme", "c", "d", "l", "j", "n", "s",
+    ]),
+    de: new Set([
+        "als", "am", "an", "auch", "auf", "aus", "bei", "bis", "das", "dass", "dem", "den", "der", "des", "die", "doch", "durch", "ein", "eine", "einem", "einen", "einer", "er", "es", "für", "gegen", "hat", "ich", "im", "in", "ist", "mit", "nach", "nicht", "noch", "nur", "oder", "sich", "sie", "sind", "so", "über", "um", "und", "uns", "vom", "von", "vor", "war", "was", "wie", "wir", "wird", "zu", "zum", "zur",
+    ]),
+    es: new Set([
+        "a", "al", "como", "con", "de", "del", "el", "ella", "en", "entre", "es", "esta", "este", "ha", "la", "las", "le", "lo", "los", "más", "no", "o", "para", "pero", "por", "que", "se", "sin", "sobre", "su", "sus", "tras", "un", "una", "y", "ya",
+    ]),
+    it: new Set([
+        "a", "al", "alla", "anche", "che", "chi", "con", "da", "dal", "dalla", "dei", "del", "della", "delle", "di", "e", "è", "gli", "ha", "i", "il", "in", "la", "le", "lo", "ma", "nel", "nella", "non", "o", "per", "più", "se", "si", "su", "sul", "sulla", "tra", "un", "una", "uno",
+    ]),
+    pt: new Set([
+        "a", "ao", "as", "com", "como", "da", "das", "de", "do", "dos", "e", "é", "em", "entre", "mais", "mas", "na", "nas", "no", "nos", "não", "o", "os", "ou", "para", "pela", "pelo", "por", "que", "se", "sem", "sobre", "um", "uma",
+    ]),
+    nl: new Set([
+        "aan", "als", "bij", "dat", "de", "die", "dit", "door", "een", "en", "er", "het", "hij", "in", "is", "met", "na", "naar", "niet", "nog", "of", "om", "op", "over", "te", "tegen", "uit", "van", "voor", "wat", "zijn", "ze",
+    ]),
+};
@@ -0,0 +1,220 @@
+import dns from "dns";
+import net from "net";
+
+/**
+ * Which URLs the server may fetch
+ */
+export interface UrlPolicy {
+    // Whether private and loopback addresses may be fetched, for example to import feeds from the local network in development. Link-local and metadata addresses are never allowed.
+    allowPrivateAddresses: boolean;
+    // The ports that may be fetched, or null for any port
+    allowedPorts: number[] | null;
+}
+
+// A range of addresses the server shouldn't fetch, and how it is described in the rejection
+interface AddressRange {
+    label: string;
+    // Whether allowPrivateAddresses allows the range
+    private: boolean;
+    list: net.BlockList;
+}
+
+/**
+ * Build a list of address ranges
+ *
+ * @param {string[]} subnets In CIDR notation
+ * @returns {net.BlockList}
+ */
+const blockList = (subnets: string[]): net.BlockList => {
+    const list = new net.BlockList();
+
+    for (const subnet of subnets) {
+        const [address, prefix] = subnet.split("/");
+        list.addSubnet(address, Number(prefix), net.isIPv6(address) ? "ipv6" : "ipv4");
+    }
+
+    return list;
+}
+
+// The ranges are checked in order, so the metadata addresses come before the ranges that contain them. IPv4 addresses mapped into IPv6 (::ffff:10.0.0.1) are matched by the IPv4 ranges.
+// @see https://www.iana.org/assignments/iana-ipv4-special-registry/ and https://www.iana.org/assignments/iana-ipv6-special-registry/
+const addressRanges: AddressRange[] = [
+    { label: "a cloud metadata address", private: false, list: blockList(["169.254.169.254/32", "100.100.100.200/32", "fd00:ec2::254/128"]) },
+    { label: "a loopback address", private: true, list: blockList(["127.0.0.0/8", "::1/128"]) },
+    { label: "a private address", private: true, list: blockList(["10.0.0.0/8", "172.16.0.0/12", "192.168.0.0/16", "100.64.0.0/10", "fc00::/7"]) },
+    { label: "a link-local address", private: false, list: blockList(["169.254.0.0/16", "fe80::/10"]) },
+    { label: "a reserved address", private: false, list: blockList(["0.0.0.0/8", "192.0.0.0/24", "192.0.2.0/24", "198.18.0.0/15", "198.51.100.0/24", "203.0.113.0/24", "224.0.0.0/4", "240.0.0.0/4", "::/128", "64:ff9b::/96", "100::/64", "2001:db8::/32", "ff00::/8"]) },
+];
+
+/**
+ * Normalize a URL, so that the different ways of writing the same feed URL are stored once. The scheme and host are lowercased (the URL parser does that, and removes the default port), the fragment is removed since it is never sent to the server, and so is a trailing slash at the end of the path, unless the path is just "/".
+ *
+ * Removing the trailing slash is a guess: "/rss/" and "/rss" could in theory be different feeds, but in practice they are the same, and a server that only serves one of them redirects from the other.
+ *
+ * @param {string} url
+ * @returns {string} The normalized URL, or the URL as it was if it can't be parsed
+ */
+export const normalizeUrl = (url: string): string => {
+    let parsedUrl: URL;
+
+    try {
+        parsedUrl = new URL(url);
+    } catch (error) {
+        return url;
+    }
+
+    parsedUrl.hash = "";
+
+    if (parsedUrl.pathname.length > 1 && parsedUrl.pathname.endsWith("/")) {
+        parsedUrl.pathname = parsedUrl.pathname.replace(/\/+$/, "") || "/";
+    }
+
+    return parsedUrl.toString();
+}
+
+// The query parameters that only say where a click came from. Le Monde adds xtor, the Guardian CMP, and most feeds utm_*.
+const trackingParameters = /^(utm_.*|xtor|cmp|at_.*|fbclid|gclid|mc_cid|mc_eid|ito|ns_.*|ref|src)$/i;
+
+/**
+ * Get the tag URI of an exported article, which identifies it for good, unlike its link: the same link can be in several feeds, and the link of an article can change when it's updated. The date is when these tags were first minted, so it must never change.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4151
+ *
+ * @param {string} baseUrl A URL of the app, whose host names the tags
+ * @param {number} feedId
+ * @param {number} articleId
+ * @returns {string} For example tag:example.com,2024:articles/3/42
+ */
+export const articleTag = (baseUrl: string, feedId: number, articleId: number): string => {
+    return `tag:${new URL(baseUrl).hostname},2024:articles/${feedId}/${articleId}`;
+}
+
+/**
+ * Get the canonical form of the link of an article: normalized, without its tracking parameters, and over https. Publishers often republish an article with new tracking parameters, or switch between http and https, so the links of the same article only match once those are removed.
+ *
+ * @param {string} url
+ * @returns {string} The canonical link, or the URL as it was if it can't be parsed
+ */
+export const canonicalLink = (url: string): string => {
+    let parsedUrl: URL;
+
+    try {
+        parsedUrl = new URL(normalizeUrl(url));
+    } catch (error) {
+        return url;
+    }
+
+    if (parsedUrl.protocol === "http:") {
+        parsedUrl.protocol = "https:";
+    }
+
+    for (const name of [...parsedUrl.searchParams.keys()]) {
+        if (trackingParameters.test(name)) {
+            parsedUrl.searchParams.delete(name);
+        }
+    }
+
+    // The rest of the query can identify the article, as in ?p=123, so it is kept, but in a fixed order
+    parsedUrl.searchParams.sort();
+
+    return parsedUrl.toString();
+}
+
+/**
+ * Check whether the server may connect to an IP address
+ *
+ * @param {string} address An IPv4 or IPv6 address
+ * @param {UrlPolicy} policy
+ * @returns {true | string} True if the address is allowed, or what kind of address it is if it isn't
+ */
+export const checkAddress = (address: string, policy: UrlPolicy): true | string => {
+    const type = net.isIPv6(address) ? "ipv6" : "ipv4";
+
+    for (const range of addressRanges) {
+        if (range.list.check(address, type) && !(range.private && policy.allowPrivateAddresses)) {
+            return range.label;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Check whether the server may fetch a URL: it must be http or https, on an allowed port, and every address its host resolves to must be public. This is what stops users from making the server fetch internal services (server-side request forgery).
+ *
+ * The host is resolved here to give a clear reason, but it could resolve differently by the time we connect, so fetches must also use safeLookup.
+ *
+ * @see https://owasp.org/www-community/attacks/Server_Side_Request_Forgery
+ *
+ * @param {string} url
+ * @param {UrlPolicy} policy
+ * @returns {Promise<true | string>} True if the URL may be fetched, or why it may not
+ */
+export const checkUrl = async (url: string, policy: UrlPolicy): Promise<true | string> => {
+    let parsedUrl: URL;
+
+    try {
+        parsedUrl = new URL(url);
+    } catch (error) {
+        return "The URL is not valid";
+    }
+
+    if (parsedUrl.protocol !== "http:" && parsedUrl.protocol !== "https:") {
+        return `The URL must use http or https, not ${parsedUrl.protocol.slice(0, -1)}`;
+    }
+
+    const port = Number(parsedUrl.port || (parsedUrl.protocol === "https:" ? 443 : 80));
+
+    if (policy.allowedPorts && !policy.allowedPorts.includes(port)) {
+        return `The URL uses port ${port}, but feeds can only be fetched from ports ${policy.allowedPorts.join(", ")}`;
+    }
+
+    // IPv6 hosts are written between brackets, which aren't part of the address
+    const host = parsedUrl.hostname.replace(/^\[(.*)\]$/, "$1");
+    let addresses: string[];
+
+    try {
+        addresses = net.isIP(host) ? [host] : (await dns.promises.lookup(host, { all: true, verbatim: true })).map((result) => result.address);
+    } catch (error) {
+        return `The host ${host} could not be found`;
+    }
+
+    for (const address of addresses) {
+        const problem = checkAddress(address, policy);
+
+        if (problem !== true) {
+            return `The host ${host} resolves to ${address}, which is ${problem} that feeds can't be fetched from`;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Create a DNS lookup function for http.request that refuses to connect to addresses the policy doesn't allow. Checking the address at the moment we connect stops DNS rebinding, where a host resolves to a public address when the URL is checked and to an internal one when it is fetched.
+ *
+ * @param {UrlPolicy} policy
+ * @returns {net.LookupFunction}
+ */
+export const safeLookup = (policy: UrlPolicy): net.LookupFunction => (hostname: string, options: dns.LookupOptions, callback: any): void => {
+    dns.lookup(hostname, { ...options, verbatim: true }, (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => {
+        if (error) {
+            callback(error, address, family);
+            return;
+        }
+
+        // Newer versions of Node ask for all the addresses, to try them in turn
+        const addresses = typeof address === "string" ? [address] : address.map((result) => result.address);
+
+        for (const candidate of addresses) {
+            const problem = checkAddress(candidate, policy);
+
+            if (problem !== true) {
+                callback(new Error(`The host ${hostname} resolves to ${candidate}, which is ${problem} that feeds can't be fetched from`), address, family);
+                return;
+            }
+        }
+
+        callback(null, address, family);
+    });
+}
@@ -0,0 +1,20 @@
+// The characters XML 1.0 doesn't allow at all, not even escaped: most control characters, lone surrogates and the two non-characters. They sometimes end up in feeds copied from word processors.
+const invalidCharacters = /[^\t\n\r\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+
+const escapes: Record<string, string> = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    "\"": "&quot;",
+    "'": "&apos;",
+};
+
+/**
+ * Escape a value for use in XML, as text or as an attribute value. Characters that can't appear in XML are removed.
+ *
+ * @param {unknown} value
+ * @returns {string}
+ */
+export const escapeXml = (value: unknown): string => {
+    return String(value ?? "").replace(invalidCharacters, "").replace(/[&<>"']/g, (character) => escapes[character]);
+}
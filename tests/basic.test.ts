@@ -3,18 +3,34 @@ import request from 'supertest';
 import pg from 'pg'
 import dbConfig from "../src/config/database";
 import { exec } from "child_process";
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { FeedParser } from '../src/classes/FeedParser';
+import config from '../src/config/config';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { logger } from '../src/utils/logger';
+import { Cli, exitCodes } from '../src/classes/Cli';
+import { FeedRegistry } from '../src/classes/FeedRegistry';
+import { StoryClusterer } from '../src/classes/StoryClusterer';
+import { CsvFormatter } from '../src/classes/formatters/CsvFormatter';
+import { Writable } from 'stream';
 
 
-// Rebuild the database before running the tests. Its a good idea to do this because it allows us to test from a clean slate, and it ensures that the tests are not dependent on some data that we haven't created in the test itself. The way we do it here is a bit of a hack; on larger projects, you'd probably want to use a test database that is separate from the development database or use a library that can handle this for you.
+// The admin key stored by the migrations (see setup.ts), for the endpoints that change something
+const admin = { Authorization: `Bearer ${process.env.AUTH_ADMIN_KEY}` };
+
+// Rebuild the database before running the tests. Its a good idea to do this because it allows us to test from a clean slate, and it ensures that the tests are not dependent on some data that we haven't created in the test itself. The tests have their own database (see setup.ts), so we can drop it entirely and let the migrations create it again.
 beforeAll(async () => {
-  const pool = new pg.Pool(dbConfig);
-  await pool.query("DROP TABLE IF EXISTS migrations");
-  await pool.query("DROP TABLE IF EXISTS imports");
-  await pool.query("DROP TABLE IF EXISTS articles");
+  const pool = new pg.Pool({ ...dbConfig, database: dbConfig.defaultDatabase });
+  await pool.query(`DROP DATABASE IF EXISTS "${dbConfig.database}"`);
+  await pool.end();
 
-  // Call the NPM script to run the migrations using exec, wrap it in a promise so we can await it
+  // Call the NPM script to run the migrations using exec, wrap it in a promise so we can await it. The environment is passed explicitly, since Jest's process.env (with the test database set by setup.ts) isn't the one child processes inherit.
   await new Promise((resolve, reject) => {
-    exec("npm run migrate", (error, stdout, stderr) => {
+    exec("npm run migrate", { env: process.env }, (error, stdout, stderr) => {
       if (error) {
         console.warn(error);
       }
@@ -39,31 +55,54 @@ describe('GET /api/articles', () => {
   it('should return an array of articles', async () => {
     const response = await request(server).get('/api/articles');
     expect(response.status).toBe(200);
-    expect(response.body).toBeInstanceOf(Array);
-    // Check that the array is empty
-    expect(response.body.length).toBe(0);
+    expect(response.body.data).toBeInstanceOf(Array);
+    // Check that the array is empty, and that there is no next page
+    expect(response.body.data.length).toBe(0);
+    expect(response.body.nextCursor).toBeNull();
+  });
+
+  it('should return 422 when the pagination parameters are invalid', async () => {
+    expect((await request(server).get('/api/articles').query({ limit: 0 })).status).toBe(422);
+    expect((await request(server).get('/api/articles').query({ limit: 'all' })).status).toBe(422);
+    expect((await request(server).get('/api/articles').query({ sort: 'title' })).status).toBe(422);
+    expect((await request(server).get('/api/articles').query({ order: 'up' })).status).toBe(422);
+    expect((await request(server).get('/api/articles').query({ from: 'yesterday' })).status).toBe(422);
+    expect((await request(server).get('/api/articles').query({ cursor: 'not a cursor' })).status).toBe(422);
+  });
+});
+
+describe('GET /api/articles/search', () => {
+  it('should return 422 when no search terms are provided', async () => {
+    const response = await request(server).get('/api/articles/search');
+    expect(response.status).toBe(422);
+  });
+
+  it('should return an empty array when nothing matches', async () => {
+    const response = await request(server).get('/api/articles/search').query({ q: 'nothing has been imported yet' });
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual([]);
   });
 });
 
 // Check that the /api/articles/import endpoint
 describe('POST /api/articles/import', () => {
   it('should return 422 when no URL is provided', async () => {
-    const response = await request(server).post('/api/articles/import');
+    const response = await request(server).post('/api/articles/import').set(admin);
     expect(response.status).toBe(422);
   });
 
   it('should return 422 when an invalid URL is provided', async () => {
-    const response = await request(server).post('/api/articles/import').query({ siteRssUrl: 'not a valid URL' });
+    const response = await request(server).post('/api/articles/import').set(admin).query({ siteRssUrl: 'not a valid URL' });
     expect(response.status).toBe(422);
   });
 
   it('should return 422 when an unsupported RSS feed URL is provided', async () => {
-    const response = await request(server).post('/api/articles/import').query({ siteRssUrl: 'https://www.theguardian.com/world/world-news/rss' });
+    const response = await request(server).post('/api/articles/import').set(admin).query({ siteRssUrl: 'https://www.theguardian.com/world/world-news/rss' });
     expect(response.status).toBe(422);
   });
 
   it('should return 201 when a valid URL is provided', async () => {
-    const response = await request(server).post('/api/articles/import').query({ siteRssUrl: 'https://www.theguardian.com/world/europe-news/rss' });
+    const response = await request(server).post('/api/articles/import').set(admin).query({ siteRssUrl: 'https://www.theguardian.com/world/europe-news/rss' });
     expect(response.status).toBe(201);
   });
 
@@ -71,28 +110,849 @@ describe('POST /api/articles/import', () => {
   it('should return an array of articles', async () => {
     const response = await request(server).get('/api/articles');
     expect(response.status).toBe(200);
-    expect(response.body).toBeInstanceOf(Array);
+    expect(response.body.data).toBeInstanceOf(Array);
 
     // Check that the array is not empty
-    expect(response.body.length).toBeGreaterThan(0);
+    expect(response.body.data.length).toBeGreaterThan(0);
 
     // Check that the first article has the expected properties
-    expect(response.body[0]).toHaveProperty('id');
-    expect(response.body[0]).toHaveProperty('externalid');
-    expect(response.body[0]).toHaveProperty('importdate');
-    expect(response.body[0]).toHaveProperty('title');
-    expect(response.body[0]).toHaveProperty('description');
-    expect(response.body[0]).toHaveProperty('publicationdate');
-    expect(response.body[0]).toHaveProperty('link');
-    expect(response.body[0]).toHaveProperty('mainpicture');
+    expect(response.body.data[0]).toHaveProperty('id');
+    expect(response.body.data[0]).toHaveProperty('externalid');
+    expect(response.body.data[0]).toHaveProperty('importdate');
+    expect(response.body.data[0]).toHaveProperty('title');
+    expect(response.body.data[0]).toHaveProperty('description');
+    expect(response.body.data[0]).toHaveProperty('publicationdate');
+    expect(response.body.data[0]).toHaveProperty('link');
+    expect(response.body.data[0]).toHaveProperty('mainpicture');
+
+    expect(response.body.data[0]).toHaveProperty('wordwithmostvowels');
+    expect(response.body.data[0]).toHaveProperty('feedid');
+  });
+
+  it('should page through the articles without skipping or repeating any', async () => {
+    const all = await request(server).get('/api/articles').query({ limit: 500 });
+    const seen: number[] = [];
+    let cursor: string | null = null;
 
-    expect(response.body[0]).toHaveProperty('wordwithmostvowels');
+    do {
+      const query: any = { limit: 2, ...(cursor ? { cursor } : {}) };
+      const page = await request(server).get('/api/articles').query(query);
+      expect(page.status).toBe(200);
+      expect(page.body.data.length).toBeLessThanOrEqual(2);
+      seen.push(...page.body.data.map((article: any) => article.id));
+      cursor = page.body.nextCursor;
+    } while (cursor);
+
+    expect(seen).toEqual(all.body.data.map((article: any) => article.id));
+  });
+
+  it('should sort and filter the articles by date', async () => {
+    const response = await request(server).get('/api/articles').query({ sort: 'publicationDate', order: 'asc' });
+    const dates = response.body.data.map((article: any) => new Date(article.publicationdate).getTime());
+    expect(dates).toEqual([...dates].sort((a, b) => a - b));
+
+    const future = await request(server).get('/api/articles').query({ from: '2999-01-01' });
+    expect(future.body.data.length).toBe(0);
+  });
+
+  it('should only return the articles of the given feed', async () => {
+    const guardian = await request(server).get('/api/articles').query({ feed: 'https://www.theguardian.com/world/europe-news/rss' });
+    expect(guardian.status).toBe(200);
+    expect(guardian.body.data.length).toBeGreaterThan(0);
+
+    const leMonde = await request(server).get('/api/articles').query({ feed: 'https://www.lemonde.fr/rss/une.xml' });
+    expect(leMonde.status).toBe(200);
+    expect(leMonde.body.data.length).toBe(0);
+
+    // The feed can also be given by its ID
+    const byId = await request(server).get('/api/articles').query({ feed: String(guardian.body.data[0].feedid) });
+    expect(byId.body.data.length).toBe(guardian.body.data.length);
+  });
+
+  it('should find an imported article by a word of its title', async () => {
+    const articles = await request(server).get('/api/articles').query({ limit: 1 });
+    const article = articles.body.data[0];
+    // The search columns are internal
+    expect(article).not.toHaveProperty('searchvector');
+    expect(article).not.toHaveProperty('searchconfig');
+    const word = article.title.split(/\s+/).sort((a: string, b: string) => b.length - a.length)[0];
+
+    const response = await request(server).get('/api/articles/search').query({ q: word });
+    expect(response.status).toBe(200);
+    expect(response.body.data.map((result: any) => result.id)).toContain(article.id);
+    expect(response.body.data[0]).toHaveProperty('rank');
+    expect(response.body.data[0]).toHaveProperty('snippet');
+    expect(response.body.data[0].titlehighlight).toContain('<mark>');
+  });
+
+  it('should return 404 when filtering by an unknown feed', async () => {
+    const response = await request(server).get('/api/articles').query({ feed: 'https://example.com/rss' });
+    expect(response.status).toBe(404);
   });
 
   // Re-running the import should return 201
   it('should return 201 when a valid URL is provided for a second time', async () => {
-    const response = await request(server).post('/api/articles/import').query({ siteRssUrl: 'https://www.theguardian.com/world/europe-news/rss' });
+    const response = await request(server).post('/api/articles/import').set(admin).query({ siteRssUrl: 'https://www.theguardian.com/world/europe-news/rss' });
+    expect(response.status).toBe(201);
+  });
+});
+
+// Check the feed registry endpoints
+describe('/api/feeds', () => {
+  // Registering a feed resolves its host, so the feed is on localhost to not depend on the network
+  const feed = { url: 'http://localhost/world/world-news/rss', name: 'The Guardian - World' };
+  let feedId: number;
+
+  it('should return the seeded feeds', async () => {
+    const response = await request(server).get('/api/feeds');
+    expect(response.status).toBe(200);
+    expect(response.body).toBeInstanceOf(Array);
+    expect(response.body.map((feed: any) => feed.url)).toContain('https://www.lemonde.fr/rss/une.xml');
+  });
+
+  it('should return 422 when the URL is missing', async () => {
+    const response = await request(server).post('/api/feeds').set(admin).send({ name: feed.name });
+    expect(response.status).toBe(422);
+  });
+
+  it('should return 201 when a new feed is registered', async () => {
+    const response = await request(server).post('/api/feeds').set(admin).send(feed);
+    expect(response.status).toBe(201);
+    expect(response.body).toHaveProperty('id');
+    expect(response.body.primaryKey).toBe('guid');
+    expect(response.body.enabled).toBe(true);
+    feedId = response.body.id;
+  });
+
+  it('should return 409 when the feed is already registered', async () => {
+    const response = await request(server).post('/api/feeds').set(admin).send(feed);
+    expect(response.status).toBe(409);
+
+    // The same URL, written differently
+    const normalized = await request(server).post('/api/feeds').set(admin).send({ ...feed, url: 'HTTP://LocalHost/world/world-news/rss/#latest' });
+    expect(normalized.status).toBe(409);
+  });
+
+  it('should return 422 when the feed URL points to an address that is not allowed', async () => {
+    const metadata = await request(server).post('/api/feeds').set(admin).send({ ...feed, url: 'http://169.254.169.254/latest/meta-data/' });
+    expect(metadata.status).toBe(422);
+    expect(metadata.body.detail).toBe('The url parameter can\'t be fetched. The host 169.254.169.254 resolves to 169.254.169.254, which is a cloud metadata address that feeds can\'t be fetched from');
+
+    const linkLocal = await request(server).patch(`/api/feeds/${feedId}`).set(admin).send({ url: 'http://[fe80::1]/rss' });
+    expect(linkLocal.status).toBe(422);
+    expect(linkLocal.body.detail).toContain('link-local address');
+
+    const imported = await request(server).post('/api/articles/import').set(admin).query({ siteRssUrl: 'http://169.254.169.254/latest/meta-data/' });
+    expect(imported.status).toBe(422);
+    expect(imported.body.detail).toContain('cloud metadata address');
+  });
+
+  it('should update a feed', async () => {
+    const response = await request(server).patch(`/api/feeds/${feedId}`).set(admin).send({ enabled: false, primaryKey: 'link' });
+    expect(response.status).toBe(200);
+    expect(response.body.enabled).toBe(false);
+    expect(response.body.primaryKey).toBe('link');
+    expect(response.body.name).toBe(feed.name);
+  });
+
+  it('should clear the cache validators when the URL or the primary key changes', async () => {
+    const registry = new FeedRegistry();
+    const validators = { etag: '"v1"', lastModified: 'Wed, 14 Dec 2022 21:00:00 GMT' };
+
+    await registry.saveCacheValidators(feedId, validators.etag, validators.lastModified);
+    const renamed = await request(server).patch(`/api/feeds/${feedId}`).set(admin).send({ name: 'Renamed', primaryKey: 'link' });
+    expect(renamed.body).toMatchObject(validators);
+
+    const rekeyed = await request(server).patch(`/api/feeds/${feedId}`).set(admin).send({ primaryKey: 'guid' });
+    expect(rekeyed.body).toMatchObject({ etag: null, lastModified: null });
+
+    await registry.saveCacheValidators(feedId, validators.etag, validators.lastModified);
+    const moved = await request(server).patch(`/api/feeds/${feedId}`).set(admin).send({ url: 'http://localhost/world/rss/moved' });
+    expect(moved.body).toMatchObject({ etag: null, lastModified: null });
+
+    await request(server).patch(`/api/feeds/${feedId}`).set(admin).send({ url: feed.url, name: feed.name, primaryKey: 'link' });
+  });
+
+  it('should set and clear the language of a feed', async () => {
+    const set = await request(server).patch(`/api/feeds/${feedId}`).set(admin).send({ language: 'en-GB' });
+    expect(set.body.language).toBe('en-GB');
+
+    const cleared = await request(server).patch(`/api/feeds/${feedId}`).set(admin).send({ language: null });
+    expect(cleared.body.language).toBeNull();
+
+    const invalid = await request(server).patch(`/api/feeds/${feedId}`).set(admin).send({ language: 'not a language' });
+    expect(invalid.status).toBe(422);
+  });
+
+  it('should validate the poll interval of a feed', async () => {
+    const set = await request(server).patch(`/api/feeds/${feedId}`).set(admin).send({ pollInterval: 300 });
+    expect(set.body.pollInterval).toBe(300);
+
+    const tooShort = await request(server).patch(`/api/feeds/${feedId}`).set(admin).send({ pollInterval: 5 });
+    expect(tooShort.status).toBe(422);
+
+    // Longer than a timer can wait
+    const tooLong = await request(server).patch(`/api/feeds/${feedId}`).set(admin).send({ pollInterval: 60 * 24 * 60 * 60 });
+    expect(tooLong.status).toBe(422);
+  });
+
+  it('should return 422 when importing a disabled feed', async () => {
+    const response = await request(server).post('/api/articles/import').set(admin).query({ siteRssUrl: feed.url });
+    expect(response.status).toBe(422);
+  });
+
+  it('should delete a feed', async () => {
+    const response = await request(server).delete(`/api/feeds/${feedId}`).set(admin);
+    expect(response.status).toBe(204);
+  });
+
+  it('should return 404 when the feed does not exist', async () => {
+    const response = await request(server).patch(`/api/feeds/${feedId}`).set(admin).send({ enabled: true });
+    expect(response.status).toBe(404);
+  });
+});
+
+// The scheduler isn't started while testing, but its status should still be available
+describe('GET /api/scheduler/status', () => {
+  it('should return the state of the scheduler', async () => {
+    const response = await request(server).get('/api/scheduler/status');
+    expect(response.status).toBe(200);
+    expect(response.body.started).toBe(false);
+    expect(response.body.feeds).toEqual([]);
+  });
+});
+
+// These tests import feeds from a local server rather than from the real publishers, so that we control what the feeds contain
+describe('Import reports', () => {
+  const fixture = fs.readFileSync(path.join(__dirname, 'fixtures', 'rss.xml')).toString();
+  const bodies: Record<string, string | null> = {};
+  // The ETags of the bodies that are served with one, which are then only sent again if the client doesn't have them
+  const etags: Record<string, string> = {};
+  let stub: http.Server;
+  let baseUrl: string;
+
+  const importFeed = (file: string) => request(server).post('/api/articles/import').set(admin).query({ siteRssUrl: `${baseUrl}/${file}` });
+
+  // Download an export as text, whatever its content type
+  const download = (path: string, query: Record<string, unknown>) => request(server).get(path).query(query).buffer(true).parse((res, callback) => {
+    let text = '';
+    res.setEncoding('utf8');
+    res.on('data', (chunk: string) => text += chunk);
+    res.on('end', () => callback(null, text));
+  });
+
+  beforeAll(async () => {
+    // Serves whatever body is set for the path, or a 500 if it is null
+    stub = http.createServer((req, res) => {
+      const file = req.url!.slice(1);
+      const body = bodies[file];
+
+      if (etags[file]) {
+        res.setHeader('ETag', etags[file]);
+
+        if (req.headers['if-none-match'] === etags[file]) {
+          res.statusCode = 304;
+          res.end();
+          return;
+        }
+      }
+
+      res.statusCode = body === null ? 500 : 200;
+      res.end(body ?? '');
+    });
+    await new Promise<void>((resolve) => stub.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+
+    bodies['feed.xml'] = fixture;
+    // The same feed, with one more item that has no guid or link
+    bodies['partial.xml'] = fixture.replace('<item>', '<item><title>No guid</title><pubDate>Thu, 15 Dec 2022 10:00:00 GMT</pubDate></item><item>');
+    bodies['atom.xml'] = fs.readFileSync(path.join(__dirname, 'fixtures', 'atom.xml')).toString();
+    bodies['feed.json'] = fs.readFileSync(path.join(__dirname, 'fixtures', 'feed.json')).toString();
+    // An item with everything that needs escaping, in XML and in CSV
+    bodies['special.xml'] = fixture.replace('Heavy snow disrupts travel across the Alps', '=SUM(1), &quot;Q&amp;A&quot; &lt;b&gt;snow&lt;/b&gt; &amp; ice');
+    bodies['down.xml'] = null;
+    bodies['broken.xml'] = '<html><body>Not a feed</body></html>';
+
+    for (const file of Object.keys(bodies)) {
+      await request(server).post('/api/feeds').set(admin).send({ url: `${baseUrl}/${file}`, name: file });
+    }
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => stub.close(resolve));
+  });
+
+  it('should report the inserted articles', async () => {
+    const response = await importFeed('feed.xml');
+    expect(response.status).toBe(201);
+    expect(response.body).toMatchObject({ status: 'success', url: `${baseUrl}/feed.xml`, itemCount: 2, inserted: 2, updated: 0, unchanged: 0, rejected: 0, error: null });
+    expect(response.body.id).toEqual(expect.any(Number));
+    expect(response.body.durationMs).toEqual(expect.any(Number));
+  });
+
+  it('should only count the articles whose content changed as updated', async () => {
+    const unchanged = await importFeed('feed.xml');
+    expect(unchanged.body).toMatchObject({ status: 'success', inserted: 0, updated: 0, unchanged: 2 });
+
+    bodies['feed.xml'] = fixture.replace('Heavy snow', 'Very heavy snow');
+    const updated = await importFeed('feed.xml');
+    expect(updated.body).toMatchObject({ status: 'success', inserted: 0, updated: 1, unchanged: 1 });
+  });
+
+  it('should report the rejected items and why', async () => {
+    const response = await importFeed('partial.xml');
+    expect(response.status).toBe(201);
+    expect(response.body).toMatchObject({ status: 'partial', itemCount: 3, inserted: 2, rejected: 1 });
+    expect(response.body.rejections).toEqual([{ externalId: null, title: 'No guid', reason: expect.stringContaining('no guid') }]);
+  });
+
+  it('should import Atom feeds and JSON Feeds', async () => {
+    const atom = await importFeed('atom.xml');
+    expect(atom.status).toBe(201);
+    // The entry without a valid date is rejected
+    expect(atom.body).toMatchObject({ status: 'partial', itemCount: 3, inserted: 2, rejected: 1 });
+    expect(atom.body.rejections[0].reason).toContain('publication date');
+
+    const json = await importFeed('feed.json');
+    expect(json.body).toMatchObject({ status: 'partial', itemCount: 3, inserted: 2, rejected: 1 });
+    expect(json.body.rejections[0]).toMatchObject({ externalId: 'ohne-titel', reason: expect.stringContaining('no title') });
+
+    const articles = await request(server).get('/api/articles').query({ feed: `${baseUrl}/feed.json` });
+    expect(articles.body.data.map((article: any) => article.externalid).sort()).toEqual(['42', 'https://nachrichten.example.com/energie']);
+    expect(articles.body.data.find((article: any) => article.externalid === '42')).toMatchObject({ language: 'de', mainpicture: 'https://nachrichten.example.com/images/schnee.webp' });
+  });
+
+  it('should report a failed import', async () => {
+    const response = await importFeed('down.xml');
+    expect(response.status).toBe(502);
+    expect(response.type).toBe('application/problem+json');
+    expect(response.body).toMatchObject({ type: '/problems/feed-fetch-failed', status: 502, instance: expect.stringContaining('/api/articles/import') });
+    expect(response.body.detail).toContain('500');
+    expect(response.body.report).toMatchObject({ status: 'failed', url: `${baseUrl}/down.xml` });
+  });
+
+  it('should accept the URL in a JSON body', async () => {
+    const response = await request(server).post('/api/articles/import').set(admin).send({ siteRssUrl: `${baseUrl}/atom.xml` });
+    expect(response.status).toBe(201);
+    expect(response.body.url).toBe(`${baseUrl}/atom.xml`);
+  });
+
+  it('should report a feed that cannot be parsed', async () => {
+    const response = await importFeed('broken.xml');
+    expect(response.status).toBe(502);
+    expect(response.body.type).toBe('/problems/feed-parse-failed');
+    expect(response.body.report.status).toBe('failed');
+  });
+
+  it('should log the imports with the ID of the request', async () => {
+    const lines: string[] = [];
+    const write = jest.spyOn(process.stdout, 'write').mockImplementation((line) => lines.push(String(line)) > 0);
+    logger.level = 'info';
+
+    try {
+      const response = await importFeed('down.xml').set('X-Request-Id', 'import-down-1');
+      expect(response.headers['x-request-id']).toBe('import-down-1');
+    } finally {
+      logger.level = 'silent';
+      write.mockRestore();
+    }
+
+    const entries = lines.map((line) => JSON.parse(line));
+    expect(entries).toContainEqual(expect.objectContaining({ level: 'warn', message: 'The feed could not be imported', requestId: 'import-down-1', url: `${baseUrl}/down.xml`, problem: '/problems/feed-fetch-failed' }));
+    expect(entries).toContainEqual(expect.objectContaining({ level: 'info', message: 'Handled the request', requestId: 'import-down-1', route: '/api/articles/import', status: 502 }));
+  });
+
+  it('should list the imports, newest first', async () => {
+    const response = await request(server).get('/api/imports').query({ feed: `${baseUrl}/feed.xml` });
+    expect(response.status).toBe(200);
+    expect(response.body.data.map((report: any) => report.updated)).toEqual([1, 0, 0]);
+    expect(response.body.data[0]).not.toHaveProperty('rawContent');
+
+    const failed = await request(server).get('/api/imports').query({ status: 'failed' });
+    expect(failed.body.data.map((report: any) => report.url)).toContain(`${baseUrl}/down.xml`);
+    expect(failed.body.data.every((report: any) => report.status === 'failed')).toBe(true);
+
+    const paged = await request(server).get('/api/imports').query({ feed: `${baseUrl}/feed.xml`, limit: 2 });
+    const next = await request(server).get('/api/imports').query({ feed: `${baseUrl}/feed.xml`, limit: 2, cursor: paged.body.nextCursor });
+    expect([...paged.body.data, ...next.body.data]).toEqual(response.body.data);
+    expect(next.body.nextCursor).toBeNull();
+  });
+
+  // This counts the round trips to the database of importing a large feed. Writing the articles one by one took at least one round trip per item, so 10k items took 10k+ round trips; the batched upserts need a couple of dozen.
+  it('should import a large feed in few round trips', async () => {
+    const items = Array.from({ length: 10000 }, (_, i) => `<item><title>Synthetic article ${i}</title><link>https://news.example.com/synthetic/${i}</link><guid>synthetic-${i}</guid><pubDate>${new Date(Date.UTC(2022, 11, 1) + i * 60000).toUTCString()}</pubDate><description>Body of article ${i}</description></item>`);
+    bodies['large.xml'] = `<?xml version="1.0"?><rss version="2.0"><channel><title>Synthetic</title><link>https://news.example.com</link><description>Synthetic</description><language>en</language>${items.join('')}</channel></rss>`;
+    await request(server).post('/api/feeds').set(admin).send({ url: `${baseUrl}/large.xml`, name: 'large.xml' });
+
+    const query = jest.spyOn(pg.Client.prototype, 'query');
+
+    try {
+      const inserted = await importFeed('large.xml');
+
+      expect(inserted.body).toMatchObject({ status: 'success', itemCount: 10000, inserted: 10000, updated: 0, unchanged: 0 });
+      expect(query.mock.calls.length).toBeLessThan(50);
+
+      query.mockClear();
+      const unchanged = await importFeed('large.xml');
+
+      expect(unchanged.body).toMatchObject({ status: 'success', inserted: 0, updated: 0, unchanged: 10000 });
+      expect(query.mock.calls.length).toBeLessThan(50);
+    } finally {
+      query.mockRestore();
+    }
+  }, 60000);
+
+  it('should skip the articles that are republished under a new guid', async () => {
+    bodies['republished.xml'] = fixture;
+    await request(server).post('/api/feeds').set(admin).send({ url: `${baseUrl}/republished.xml`, name: 'republished.xml' });
+    expect((await importFeed('republished.xml')).body).toMatchObject({ inserted: 2, duplicates: 0 });
+
+    // One article with a new guid and a tracking parameter in its link, the other with a new guid and link but the same content
+    bodies['republished.xml'] = fixture
+      .replace('<guid>https://news.example.com/europe/energy-summit</guid>', '<guid>energy-summit-2</guid>')
+      .replace('<link>https://news.example.com/europe/energy-summit</link>', '<link>http://news.example.com/europe/energy-summit?utm_source=rss</link>')
+      .replace(/alps-snow</g, 'alps-snow-2<');
+
+    const response = await importFeed('republished.xml');
+    expect(response.body).toMatchObject({ status: 'success', itemCount: 2, inserted: 0, updated: 0, unchanged: 0, duplicates: 2 });
+    expect((await request(server).get('/api/articles').query({ feed: `${baseUrl}/republished.xml` })).body.data).toHaveLength(2);
+  });
+
+  it('should group the articles of every feed about the same story', async () => {
+    bodies['story.xml'] = `<?xml version="1.0"?><rss version="2.0"><channel><title>Other News</title><link>https://other.example.com</link><description>Other</description><language>en</language>
+      <item><title>Alps snowfall disrupts travel as roads close</title><link>https://other.example.com/alps</link><guid>alps</guid><description>Heavy snow closed roads and railways across the Alps after a night of snowfall.</description><pubDate>Wed, 14 Dec 2022 21:00:00 GMT</pubDate></item>
+      <item><title>Central bank raises interest rates again</title><link>https://other.example.com/rates</link><guid>rates</guid><description>The bank raised its main rate by half a point to curb inflation.</description><pubDate>Wed, 14 Dec 2022 22:00:00 GMT</pubDate></item>
+    </channel></rss>`;
+    await request(server).post('/api/feeds').set(admin).send({ url: `${baseUrl}/story.xml`, name: 'story.xml' });
+    await importFeed('story.xml');
+
+    const response = await request(server).get('/api/stories').query({ feed: `${baseUrl}/story.xml` });
+    expect(response.status).toBe(200);
+    expect(response.body.data).toHaveLength(1);
+
+    const [story] = response.body.data;
+    expect(story.articleCount).toBe(story.articles.length);
+    expect(story.feedCount).toBeGreaterThanOrEqual(2);
+    expect(story.title).toBe(story.articles[0].title);
+    expect(story.articles.map((article: any) => article.link)).toEqual(expect.arrayContaining(['https://other.example.com/alps', 'https://news.example.com/europe/alps-snow']));
+    expect(story.articles.map((article: any) => article.link)).not.toContain('https://other.example.com/rates');
+    expect(new Date(story.firstPublishedAt).getTime()).toBeLessThanOrEqual(new Date(story.lastPublishedAt).getTime());
+
+    expect((await request(server).get('/api/stories').query({ limit: 0 })).status).toBe(422);
+    expect((await request(server).get('/api/stories').query({ feed: `${baseUrl}/story.xml`, from: '2023-01-01' })).body.data).toEqual([]);
+  });
+
+  it('should only list the first article of each story when collapsing', async () => {
+    const window = { from: '2022-12-14', to: '2022-12-16', limit: 500 };
+    const all = (await request(server).get('/api/articles').query(window)).body.data;
+    const collapsed = (await request(server).get('/api/articles').query({ ...window, collapse: true })).body.data;
+
+    expect(collapsed.length).toBeLessThan(all.length);
+    expect(collapsed.map((article: any) => article.storysize).reduce((sum: number, size: number) => sum + size, 0)).toBe(all.length);
+
+    const storyIds = collapsed.map((article: any) => article.storyid).filter((id: number | null) => id !== null);
+    expect(new Set(storyIds).size).toBe(storyIds.length);
+    // The collapsed articles keep the sort order
+    const positions = collapsed.map((article: any) => all.findIndex((other: any) => other.id === article.id));
+    expect(positions).not.toContain(-1);
+    expect(positions).toEqual([...positions].sort((a, b) => a - b));
+
+    // Paging through the collapsed articles gives the same articles
+    const paged: any[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const page: request.Response = await request(server).get('/api/articles').query({ ...window, collapse: true, limit: 2, ...(cursor ? { cursor } : {}) });
+      paged.push(...page.body.data);
+      cursor = page.body.nextCursor;
+    } while (cursor);
+
+    expect(paged.map((article) => article.id)).toEqual(collapsed.map((article: any) => article.id));
+  });
+
+  it('should group the articles of feeds that are imported at the same time', async () => {
+    const feed = (name: string, title: string) => `<?xml version="1.0"?><rss version="2.0"><channel><title>${name}</title><link>https://${name}.example.com</link><description>${name}</description><language>en</language>
+      <item><title>${title}</title><link>https://${name}.example.com/volcano</link><guid>volcano</guid><description>Lava from the volcano reached the coastal village overnight, and thousands of residents were evacuated by boat.</description><pubDate>Mon, 01 Feb 2021 09:00:00 GMT</pubDate></item>
+    </channel></rss>`;
+    bodies['volcano-first.xml'] = feed('first', 'Volcano erupts near coastal village');
+    bodies['volcano-second.xml'] = feed('second', 'Volcano eruption forces village evacuation');
+    bodies['volcano-third.xml'] = feed('third', 'Residents flee volcano by boat');
+
+    for (const file of ['volcano-first.xml', 'volcano-second.xml', 'volcano-third.xml']) {
+      await request(server).post('/api/feeds').set(admin).send({ url: `${baseUrl}/${file}`, name: file });
+    }
+
+    await importFeed('volcano-first.xml');
+
+    // Both imports find the article of the first feed, which isn't in a story yet. Adding the articles to their stories is slowed down, so that the imports are both clustering at the same time.
+    const query = pg.Client.prototype.query;
+    const slowed = jest.spyOn(pg.Client.prototype, 'query').mockImplementation(function (this: pg.Client, ...args: any[]) {
+      const delay = typeof args[0] === 'string' && args[0].startsWith('INSERT INTO storyArticles') ? 200 : 0;
+      return new Promise((resolve) => setTimeout(resolve, delay)).then(() => (query as any).apply(this, args));
+    } as any);
+
+    try {
+      const responses = await Promise.all([importFeed('volcano-second.xml'), importFeed('volcano-third.xml')]);
+      expect(responses.map((response) => response.status)).toEqual([201, 201]);
+    } finally {
+      slowed.mockRestore();
+    }
+
+    const stories = await request(server).get('/api/stories').query({ feed: `${baseUrl}/volcano-first.xml` });
+    expect(stories.body.data).toHaveLength(1);
+    expect(stories.body.data[0].articleCount).toBe(3);
+  });
+
+  it('should compare the articles with the new content of an updated article', async () => {
+    const feed = (description: string) => `<?xml version="1.0"?><rss version="2.0"><channel><title>Corrections</title><link>https://news.example.com</link><description>Corrections</description><language>en</language>
+      <item><title>Museum reopens after renovation</title><link>https://news.example.com/museum</link><guid>museum-reopens</guid><description>${description}</description><pubDate>Mon, 01 Mar 2021 09:00:00 GMT</pubDate></item>
+    </channel></rss>`;
+    bodies['corrected.xml'] = feed('The city museum opened its doors again after two years of work on the roof.');
+    await request(server).post('/api/feeds').set(admin).send({ url: `${baseUrl}/corrected.xml`, name: 'corrected.xml' });
+    await importFeed('corrected.xml');
+
+    const description = 'The national gallery welcomed visitors again after three years of restoring its paintings.';
+    bodies['corrected.xml'] = feed(description);
+    expect((await importFeed('corrected.xml')).body).toMatchObject({ updated: 1 });
+
+    const clusterer = new StoryClusterer();
+    const { signature } = clusterer.fingerprint({ title: 'Museum reopens after renovation', description, link: null }, 'en');
+    const pool = new pg.Pool(dbConfig);
+
+    try {
+      const { rows } = await pool.query(
+        'SELECT hash FROM articleBands JOIN articles ON articles.id = articleBands.articleId WHERE articles.externalId = $1 ORDER BY band',
+        ['museum-reopens']
+      );
+      expect(rows.map((row) => row.hash)).toEqual(clusterer.bands(signature!));
+    } finally {
+      await pool.end();
+    }
+  });
+
+  it('should not import a feed twice at the same time', async () => {
+    bodies['locked.xml'] = `<?xml version="1.0"?><rss version="2.0"><channel><title>Locked</title><link>https://news.example.com</link><description>Locked</description><language>en</language>
+      <item><title>Harbour bridge closes for repairs</title><link>https://news.example.com/bridge</link><guid>bridge-closes</guid><description>The harbour bridge will be closed to traffic for a month while its cables are replaced.</description><pubDate>Tue, 02 Mar 2021 09:00:00 GMT</pubDate></item>
+    </channel></rss>`;
+    etags['locked.xml'] = '"locked-1"';
+    await request(server).post('/api/feeds').set(admin).send({ url: `${baseUrl}/locked.xml`, name: 'locked.xml' });
+
+    // The second import waits for the first, and then sends the ETag the first one saved
+    const responses = await Promise.all([importFeed('locked.xml'), importFeed('locked.xml')]);
+    expect(responses.map((response) => response.body.status).sort()).toEqual(['not-modified', 'success']);
+  });
+
+  it('should export the articles as RSS, Atom and JSON Feed', async () => {
+    await importFeed('special.xml');
+    const original = await request(server).get('/api/articles').query({ feed: `${baseUrl}/special.xml` });
+    const titles = original.body.data.map((article: any) => article.title);
+    expect(titles).toContain('=SUM(1), "Q&A" <b>snow</b> & ice');
+
+    for (const [format, contentType] of [['rss', 'application/rss+xml'], ['atom', 'application/atom+xml'], ['json', 'application/feed+json']]) {
+      const response = await download(`/api/articles.${format}`, { feed: `${baseUrl}/special.xml` });
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe(`${contentType}; charset=utf-8`);
+
+      // Reading the export back gives the same articles, which can only work if everything was escaped correctly
+      const feed = await new FeedParser().parse(response.body);
+      expect(feed.format).toBe(format);
+      expect(feed.title).toBe('Articles from special.xml');
+      expect(feed.items.map((item) => item.title)).toEqual(titles);
+      expect(feed.items[0]).toMatchObject({ link: original.body.data[0].link, publishedAt: new Date(original.body.data[0].publicationdate), mainPicture: original.body.data[0].mainpicture });
+      // The articles are identified by their ID rather than their link, which isn't unique
+      expect(feed.items[0].id).toMatch(new RegExp(`^tag:[^,]+,2024:articles/${original.body.data[0].feedid}/${original.body.data[0].id}$`));
+    }
+  });
+
+  it('should export the articles as CSV', async () => {
+    const response = await download('/api/articles.csv', { feed: `${baseUrl}/special.xml`, order: 'asc' });
+    expect(response.headers['content-type']).toBe('text/csv; charset=utf-8');
+    expect(response.headers['content-disposition']).toBe('attachment; filename="articles.csv"');
+
+    const lines = response.body.split('\r\n');
+    expect(lines[0]).toBe('\uFEFFid,feedId,externalId,title,description,link,mainPicture,language,publicationDate,importDate');
+    // Quoted because of the comma and quotes, and prefixed so that spreadsheets don't run it as a formula
+    expect(lines[1]).toContain(',"\'=SUM(1), ""Q&A"" <b>snow</b> & ice",');
+    expect(lines.length).toBe(4);
+  });
+
+  it('should stream every matching article when exporting without a limit', async () => {
+    const response = await download('/api/articles.csv', { feed: `${baseUrl}/large.xml` });
+    expect(response.headers['transfer-encoding']).toBe('chunked');
+    // The header, 10000 articles, and the empty string after the last line break
+    expect(response.body.split('\r\n').length).toBe(10002);
+
+    const limited = await download('/api/articles.csv', { feed: `${baseUrl}/large.xml`, limit: 3 });
+    expect(limited.body.split('\r\n').length).toBe(5);
+  });
+
+  it('should log a failed export, and send a problem if nothing was sent yet', async () => {
+    const render = jest.spyOn(CsvFormatter.prototype, 'render').mockImplementation(async function* () {
+      throw new Error('The database went away');
+    });
+    const lines: string[] = [];
+    const write = jest.spyOn(process.stdout, 'write').mockImplementation((line) => lines.push(String(line)) > 0);
+    logger.level = 'error';
+
+    try {
+      const response = await request(server).get('/api/articles.csv').set('X-Request-Id', 'export-failed-1');
+      expect(response.status).toBe(500);
+      expect(response.headers['content-type']).toContain('application/problem+json');
+      expect(response.headers['content-disposition']).toBeUndefined();
+    } finally {
+      logger.level = 'silent';
+      write.mockRestore();
+      render.mockRestore();
+    }
+
+    const entries = lines.map((line) => JSON.parse(line));
+    expect(entries).toContainEqual(expect.objectContaining({ level: 'error', message: 'The export failed', requestId: 'export-failed-1' }));
+  });
+
+  it('should add the analytics of each article', async () => {
+    const response = await request(server).get('/api/articles').query({ feed: `${baseUrl}/atom.xml` });
+    const article = response.body.data.find((article: any) => article.link === 'https://actu.example.com/energie');
+
+    // The accented vowels count, the elided article isn't part of the word, and the stop words aren't keywords
+    expect(article).toMatchObject({ language: 'fr', wordwithmostvowels: 'énergie', wordcount: 19, readingtime: 5 });
+    expect(article.keywords).toEqual(['énergie', 'prix', 'cœur', 'sommet', 'bruxelles']);
+  });
+
+  it('should return the trending keywords of a time window', async () => {
+    // The first ten synthetic articles, a minute apart
+    const response = await request(server).get('/api/analytics/keywords').query({ feed: `${baseUrl}/large.xml`, from: '2022-12-01T00:00:00Z', to: '2022-12-01T00:09:00Z' });
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ from: '2022-12-01T00:00:00.000Z', to: '2022-12-01T00:09:00.000Z', articleCount: 10 });
+    // Each article counts once, the numbers aren't keywords, and ties are in alphabetical order
+    expect(response.body.data).toEqual([{ keyword: 'article', count: 10 }, { keyword: 'body', count: 10 }, { keyword: 'synthetic', count: 10 }]);
+
+    const limited = await request(server).get('/api/analytics/keywords').query({ feed: `${baseUrl}/large.xml`, from: '2022-12-01T00:00:00Z', to: '2022-12-01T00:09:00Z', limit: 1 });
+    expect(limited.body.data).toEqual([{ keyword: 'article', count: 10 }]);
+  });
+
+  it('should validate the keyword parameters', async () => {
+    expect((await request(server).get('/api/analytics/keywords').query({ from: 'yesterday' })).status).toBe(422);
+    expect((await request(server).get('/api/analytics/keywords').query({ from: '2022-12-02', to: '2022-12-01' })).status).toBe(422);
+    expect((await request(server).get('/api/analytics/keywords').query({ limit: 0 })).status).toBe(422);
+    expect((await request(server).get('/api/analytics/keywords').query({ feed: 'https://unknown.example.com/rss' })).status).toBe(404);
+  });
+
+  it('should validate the export parameters', async () => {
+    expect((await request(server).get('/api/articles.xml')).status).toBe(404);
+    expect((await request(server).get('/api/articles.rss').query({ sort: 'title' })).status).toBe(422);
+    expect((await request(server).get('/api/articles.rss').query({ feed: 'https://unknown.example.com/rss' })).status).toBe(404);
+  });
+
+  it('should return a single import with its content', async () => {
+    const list = await request(server).get('/api/imports').query({ status: 'partial' });
+    const response = await request(server).get(`/api/imports/${list.body.data[0].id}`);
+    expect(response.status).toBe(200);
+    expect(response.body.rejections.length).toBe(1);
+    expect(response.body.rawContent.items.length).toBe(3);
+
+    const missing = await request(server).get('/api/imports/999999');
+    expect(missing.status).toBe(404);
+  });
+});
+
+// The command line uses the same classes as the API, so these tests check what it adds: the arguments, the output and the exit codes
+describe('Command line', () => {
+  const fixture = fs.readFileSync(path.join(__dirname, 'fixtures', 'rss.xml')).toString();
+  const bodies: Record<string, string | null> = {};
+  let stub: http.Server;
+  let baseUrl: string;
+
+  // A command line that keeps what it writes
+  const commandLine = () => {
+    const output = { stdout: '', stderr: '' };
+    const stream = (name: 'stdout' | 'stderr') => new Writable({ write: (chunk, encoding, callback) => { output[name] += chunk; callback(); } });
+
+    return { cli: new Cli({ stdout: stream('stdout'), stderr: stream('stderr') }), output };
+  };
+
+  const run = async (...args: string[]) => {
+    const { cli, output } = commandLine();
+    const code = await cli.run(args);
+
+    return { code, ...output };
+  };
+
+  beforeAll(async () => {
+    stub = http.createServer((req, res) => {
+      const body = bodies[req.url!.slice(1)];
+      res.statusCode = body === null ? 500 : 200;
+      res.end(body ?? '');
+    });
+    await new Promise<void>((resolve) => stub.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+
+    bodies['cli.xml'] = fixture;
+    bodies['cli-down.xml'] = null;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => stub.close(resolve));
+  });
+
+  it('should reject invalid commands with the usage exit code', async () => {
+    expect((await run()).code).toBe(exitCodes.usage);
+    expect((await run('feeds', 'rename')).code).toBe(exitCodes.usage);
+    expect((await run('feeds', 'list', '--verbose')).code).toBe(exitCodes.usage);
+    expect((await run('import')).code).toBe(exitCodes.usage);
+    expect((await run('articles', 'export', '--format', 'xml')).code).toBe(exitCodes.usage);
+
+    const missingName = await run('feeds', 'add', `${baseUrl}/cli.xml`);
+    expect(missingName.code).toBe(exitCodes.usage);
+    expect(missingName.stderr).toContain('The name option is required');
+    expect(missingName.stderr).toContain('Usage: feeds add <url>');
+
+    const tooOften = await run('feeds', 'add', `${baseUrl}/cli.xml`, '--name', 'CLI', '--poll-interval', '5', '--json');
+    expect(tooOften.code).toBe(exitCodes.usage);
+    expect(JSON.parse(tooOften.stdout)).toMatchObject({ type: '/problems/invalid-command', detail: expect.stringContaining('poll-interval option') });
+
+    const help = await run('--help');
+    expect(help.code).toBe(exitCodes.ok);
+    expect(help.stdout).toContain('db migrate');
+  });
+
+  it('should register, list and remove feeds', async () => {
+    const added = await run('feeds', 'add', `${baseUrl}/cli.xml`, '--name', 'CLI', '--language', 'en', '--json');
+    expect(added.code).toBe(exitCodes.ok);
+    expect(JSON.parse(added.stdout)).toMatchObject({ url: `${baseUrl}/cli.xml`, name: 'CLI', language: 'en', enabled: true });
+
+    const again = await run('feeds', 'add', `${baseUrl}/cli.xml`, '--name', 'CLI');
+    expect(again.code).toBe(exitCodes.failed);
+    expect(again.stderr).toContain('already registered');
+
+    const list = await run('feeds', 'list', '--json');
+    expect(JSON.parse(list.stdout).map((feed: any) => feed.url)).toContain(`${baseUrl}/cli.xml`);
+
+    const table = await run('feeds', 'list');
+    expect(table.stdout).toMatch(/^ID\s+STATUS\s+NAME\s+URL/);
+
+    await run('feeds', 'add', `${baseUrl}/cli-down.xml`, '--name', 'Down', '--disabled');
+    expect((await run('feeds', 'remove', `${baseUrl}/cli-down.xml`)).code).toBe(exitCodes.ok);
+    expect((await run('feeds', 'remove', `${baseUrl}/cli-down.xml`)).code).toBe(exitCodes.failed);
+  });
+
+  it('should show what an import would change without saving anything', async () => {
+    const dryRun = await run('import', `${baseUrl}/cli.xml`, '--dry-run', '--json');
+    expect(dryRun.code).toBe(exitCodes.ok);
+    expect(JSON.parse(dryRun.stdout)).toMatchObject({ dryRun: true, itemCount: 2, unchanged: 0, updated: [], duplicates: [], rejections: [] });
+    expect(JSON.parse(dryRun.stdout).inserted.length).toBe(2);
+    expect((await request(server).get('/api/articles').query({ feed: `${baseUrl}/cli.xml` })).body.data).toEqual([]);
+
+    const imported = await run('import', `${baseUrl}/cli.xml`, '--json');
+    expect(imported.code).toBe(exitCodes.ok);
+    expect(JSON.parse(imported.stdout)).toMatchObject({ status: 'success', inserted: 2 });
+
+    bodies['cli.xml'] = fixture.replace('Heavy snow disrupts travel across the Alps', 'Heavy snow still disrupts travel across the Alps');
+    const changed = await run('import', `${baseUrl}/cli.xml`, '--dry-run');
+    expect(changed.code).toBe(exitCodes.ok);
+    expect(changed.stdout).toContain('update  Heavy snow still disrupts travel across the Alps');
+    expect(changed.stdout).toContain('Would insert 0, update 1, leave 1 unchanged');
+  });
+
+  it('should import every enabled feed, and fail if one of them fails', async () => {
+    const { cli, output } = commandLine();
+    const down = await cli.rssModule.feedRegistry.create({ url: `${baseUrl}/cli-down.xml`, name: 'Down' });
+    const feeds = [(await cli.rssModule.feedRegistry.findByUrl(`${baseUrl}/cli.xml`))!, down];
+
+    // Only the feeds of these tests, rather than every feed registered by the other tests
+    jest.spyOn(cli.rssModule.feedRegistry, 'all').mockResolvedValue(feeds);
+
+    expect(await cli.run(['import', '--all', '--json'])).toBe(exitCodes.failed);
+
+    const outcomes = JSON.parse(output.stdout).data;
+    expect(outcomes[0]).toMatchObject({ url: `${baseUrl}/cli.xml`, status: 'success', updated: 1 });
+    expect(outcomes[1]).toMatchObject({ url: `${baseUrl}/cli-down.xml`, problem: { type: '/problems/feed-fetch-failed' } });
+  });
+
+  it('should export the articles', async () => {
+    const csv = await run('articles', 'export', '--feed', `${baseUrl}/cli.xml`);
+    expect(csv.code).toBe(exitCodes.ok);
+    expect(csv.stdout.split('\r\n').filter((line) => line !== '').length).toBe(3);
+    expect(csv.stdout).toContain('Heavy snow still disrupts travel across the Alps');
+
+    const json = await run('articles', 'export', '--format', 'json', '--feed', `${baseUrl}/cli.xml`, '--limit', '1');
+    expect(JSON.parse(json.stdout).items.length).toBe(1);
+
+    expect((await run('articles', 'export', '--feed', 'https://unknown.example.com/rss')).code).toBe(exitCodes.failed);
+  });
+
+  it('should report the status of the database', async () => {
+    const status = await run('db', 'status', '--json');
+    expect(status.code).toBe(exitCodes.ok);
+    expect(JSON.parse(status.stdout)).toMatchObject({ ready: true, checks: { database: { status: 'ok' }, migrations: { status: 'ok', pending: [] } } });
+
+    const migrated = await run('db', 'migrate', '--json');
+    expect(migrated.code).toBe(exitCodes.ok);
+    expect(JSON.parse(migrated.stdout)).toEqual({ migrations: [], addedFeeds: 0, addedAdminKey: false });
+  });
+});
+
+// Check that the API keys are required, and that their roles are enforced
+describe('Authentication', () => {
+  let reader: { id: number, key: string };
+
+  it('should return 401 when no API key is provided', async () => {
+    const response = await request(server).post('/api/articles/import').query({ siteRssUrl: 'https://www.lemonde.fr/rss/une.xml' });
+    expect(response.status).toBe(401);
+    expect(response.headers['www-authenticate']).toContain('Bearer');
+  });
+
+  it('should return 401 when the API key is invalid', async () => {
+    expect((await request(server).post('/api/feeds').set('Authorization', 'Basic dXNlcjpwYXNz').send({})).status).toBe(401);
+    expect((await request(server).post('/api/feeds').set('Authorization', 'Bearer rss_not-a-key').send({})).status).toBe(401);
+    // A wrong key is rejected even where no key is needed
+    expect((await request(server).get('/api/articles').set('Authorization', 'Bearer rss_not-a-key')).status).toBe(401);
+  });
+
+  it('should create API keys and only return the key once', async () => {
+    const response = await request(server).post('/api/keys').set(admin).send({ name: 'Dashboard', role: 'reader' });
     expect(response.status).toBe(201);
+    expect(response.body).toMatchObject({ name: 'Dashboard', role: 'reader', revokedAt: null });
+    expect(response.body.key).toMatch(/^rss_[\w-]{43}$/);
+    expect(response.body.prefix).toBe(response.body.key.slice(0, 10));
+    reader = response.body;
+
+    const list = await request(server).get('/api/keys').set(admin);
+    expect(list.status).toBe(200);
+    expect(list.body.map((apiKey: any) => apiKey.name)).toEqual(['Configured admin key', 'Dashboard']);
+    expect(list.body.every((apiKey: any) => !('key' in apiKey) && !('keyhash' in apiKey))).toBe(true);
+
+    expect((await request(server).post('/api/keys').set(admin).send({ name: 'Owner', role: 'owner' })).status).toBe(422);
+    expect((await request(server).post('/api/keys').set(admin).send({ role: 'reader' })).status).toBe(422);
+  });
+
+  it('should return 403 when the API key does not have the role', async () => {
+    const auth = { Authorization: `Bearer ${reader.key}` };
+    expect((await request(server).get('/api/articles').set(auth)).status).toBe(200);
+    expect((await request(server).post('/api/articles/import').set(auth).query({ siteRssUrl: 'https://www.lemonde.fr/rss/une.xml' })).status).toBe(403);
+    expect((await request(server).delete('/api/feeds/1').set(auth)).status).toBe(403);
+    expect((await request(server).post('/api/keys').set(auth).send({ name: 'Escalation', role: 'admin' })).status).toBe(403);
+  });
+
+  it('should require a key to read when the reads are not public', async () => {
+    config.auth.publicReads = false;
+
+    try {
+      expect((await request(server).get('/api/articles')).status).toBe(401);
+      expect((await request(server).get('/api/feeds')).status).toBe(401);
+      expect((await request(server).get('/api/articles').set('Authorization', `Bearer ${reader.key}`)).status).toBe(200);
+      expect((await request(server).get('/api/articles').set(admin)).status).toBe(200);
+    } finally {
+      config.auth.publicReads = true;
+    }
+  });
+
+  it('should revoke API keys', async () => {
+    const response = await request(server).delete(`/api/keys/${reader.id}`).set(admin);
+    expect(response.status).toBe(200);
+    expect(response.body.revokedAt).not.toBeNull();
+
+    expect((await request(server).get('/api/articles').set('Authorization', `Bearer ${reader.key}`)).status).toBe(401);
+    expect((await request(server).delete('/api/keys/999999').set(admin)).status).toBe(404);
   });
 });
 
@@ -101,10 +961,219 @@ describe('A non-existent endpoint', () => {
   it('should return 404', async () => {
     const response = await request(server).get('/api/non-existent-endpoint');
     expect(response.status).toBe(404);
+    expect(response.type).toBe('application/problem+json');
+    expect(response.body.detail).toBe('There is no GET /api/non-existent-endpoint endpoint');
+  });
+});
+
+// Check that every error is sent as a problem document
+describe('Errors', () => {
+  it('should list every invalid parameter', async () => {
+    const response = await request(server).get('/api/articles').query({ limit: 0, sort: 'title' });
+    expect(response.status).toBe(422);
+    expect(response.type).toBe('application/problem+json');
+    expect(response.body).toMatchObject({ type: '/problems/validation-failed', status: 422, detail: 'The sort parameter must be either publicationDate or importDate' });
+    expect(response.body.errors).toEqual([
+      { name: 'sort', in: 'query', detail: 'The sort parameter must be either publicationDate or importDate' },
+      { name: 'limit', in: 'query', detail: 'The limit parameter must be an integer between 1 and 500' },
+    ]);
+  });
+
+  it('should return 400 when the body is not valid JSON', async () => {
+    const response = await request(server).post('/api/feeds').set(admin).set('Content-Type', 'application/json').send('{"url": ');
+    expect(response.status).toBe(400);
+    expect(response.body.detail).toBe('The request body is not valid JSON');
+  });
+
+  it('should return 404 when an ID in the path is not a number', async () => {
+    const response = await request(server).delete('/api/feeds/latest').set(admin);
+    expect(response.status).toBe(404);
+    expect(response.body.detail).toBe('Feed not found');
+  });
+
+  it('should send the authentication errors as problems', async () => {
+    const response = await request(server).post('/api/feeds').send({});
+    expect(response.status).toBe(401);
+    expect(response.type).toBe('application/problem+json');
+    expect(response.headers['www-authenticate']).toBe('Bearer realm="api"');
+    expect(response.body.title).toBe('Unauthorized');
+  });
+});
+
+// Check the probes and the metrics that the deployment relies on
+describe('Observability', () => {
+  it('should say that the API is alive', async () => {
+    const response = await request(server).get('/healthz');
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ status: 'ok' });
+  });
+
+  it('should give every request an ID, and reuse the one it was sent', async () => {
+    expect((await request(server).get('/healthz')).headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    expect((await request(server).get('/healthz').set('X-Request-Id', 'abc-123')).headers['x-request-id']).toBe('abc-123');
+    // An ID that doesn't look like one is replaced, since it ends up in the logs
+    expect((await request(server).get('/healthz').set('X-Request-Id', 'a b\tc')).headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should be ready once the migrations have been run', async () => {
+    const response = await request(server).get('/readyz');
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      status: 'ready',
+      checks: { database: { status: 'ok', error: null }, migrations: { status: 'ok', error: null, pending: [] } },
+    });
+  });
+
+  it('should not be ready while a migration is pending', async () => {
+    const pool = new pg.Pool(dbConfig);
+    const { rows } = await pool.query('DELETE FROM migrations WHERE id = 10 RETURNING *');
+
+    try {
+      const response = await request(server).get('/readyz');
+      expect(response.status).toBe(503);
+      expect(response.type).toBe('application/problem+json');
+      expect(response.body).toMatchObject({ type: '/problems/not-ready', detail: 'The migrations check(s) failed' });
+      expect(response.body.checks.migrations).toEqual({ status: 'failed', error: "1 migration(s) haven't been run", pending: ['10_create_api_keys_table.sql'] });
+    } finally {
+      await pool.query('INSERT INTO migrations (id, name, hash, executed_at) VALUES ($1, $2, $3, $4)', [rows[0].id, rows[0].name, rows[0].hash, rows[0].executed_at]);
+      await pool.end();
+    }
+  });
+
+  it('should expose the metrics in the Prometheus format', async () => {
+    const response = await request(server).get('/metrics');
+    expect(response.status).toBe(200);
+    expect(response.type).toBe('text/plain');
+    expect(response.headers['content-type']).toContain('version=0.0.4');
+
+    // The imports and requests of the tests above have been counted
+    expect(response.text).toContain('# TYPE http_request_duration_seconds histogram');
+    expect(response.text).toMatch(/^http_request_duration_seconds_count\{method="GET",route="\/api\/articles",status="200"\} \d+$/m);
+    expect(response.text).toMatch(/^http_request_duration_seconds_count\{method="GET",route="unmatched",status="404"\} \d+$/m);
+    expect(response.text).toMatch(/^rss_import_duration_seconds_count\{status="success"\} \d+$/m);
+    expect(response.text).toMatch(/^rss_import_items_count\{outcome="inserted"\} \d+$/m);
+    expect(response.text).toMatch(/^rss_fetch_errors_total\{feed="http:\/\/127\.0\.0\.1:\d+\/down\.xml"\} 2$/m);
+    expect(response.text).toContain(`db_pool_connections{state="max"} ${config.database.poolSize}`);
+  });
+
+  it('should require a key for the metrics when the reads are not public', async () => {
+    config.auth.publicReads = false;
+
+    try {
+      expect((await request(server).get('/metrics')).status).toBe(401);
+      expect((await request(server).get('/metrics').set(admin)).status).toBe(200);
+      // The probes are for the orchestrator, which doesn't have a key
+      expect((await request(server).get('/healthz')).status).toBe(200);
+      expect((await request(server).get('/readyz')).status).toBe(200);
+    } finally {
+      config.auth.publicReads = true;
+    }
+  });
+});
+
+// Check the real responses against the OpenAPI document, so that clients generated from it can rely on it. Any response that isn't documented, or doesn't match its schema, fails the test.
+describe('OpenAPI contract', () => {
+  const ajv = new Ajv2020({ strict: false, allErrors: true });
+  addFormats(ajv);
+  let spec: any;
+
+  // Escape a JSON pointer segment
+  const pointer = (segment: string) => segment.replace(/~/g, '~0').replace(/\//g, '~1');
+
+  const expectToMatchSpec = (response: request.Response, method: string, path: string) => {
+    const operation = spec.paths[path]?.[method];
+    expect(operation).toBeDefined();
+
+    const status = operation.responses[response.status] ? String(response.status) : 'default';
+    // Only the problems may fall back on the default response
+    expect(status !== 'default' || response.type === 'application/problem+json').toBe(true);
+
+    if (response.status === 204) {
+      return;
+    }
+
+    const validate = ajv.getSchema(`openapi#/paths/${pointer(path)}/${method}/responses/${status}/content/${pointer(response.type)}/schema`);
+    expect(validate).toBeDefined();
+
+    // supertest only parses the JSON bodies
+    if (!validate!(response.type.startsWith('text/') ? response.text : response.body)) {
+      throw new Error(`${method.toUpperCase()} ${path} sent a ${response.status} that doesn't match the OpenAPI document: ${ajv.errorsText(validate!.errors)}`);
+    }
+  };
+
+  beforeAll(async () => {
+    const response = await request(server).get('/openapi.json');
+    expect(response.status).toBe(200);
+    spec = response.body;
+    ajv.addSchema(spec, 'openapi');
+  });
+
+  it('should describe every route', async () => {
+    expect(spec.openapi).toBe('3.1.0');
+    expect(spec.paths['/api/feeds/{id}'].patch.parameters).toEqual([expect.objectContaining({ name: 'id', in: 'path', required: true })]);
+    expect(spec.paths['/api/articles/import'].post.requestBody.content['application/json'].schema.properties).toHaveProperty('siteRssUrl');
+    expect(spec.paths['/api/articles/import'].post.parameters).toEqual([expect.objectContaining({ name: 'siteRssUrl', in: 'query' })]);
+
+    // Every schema the responses refer to exists
+    for (const [path, operations] of Object.entries<any>(spec.paths)) {
+      for (const [method, operation] of Object.entries<any>(operations)) {
+        expect(operation.operationId).toBeDefined();
+
+        for (const [status, response] of Object.entries<any>(operation.responses)) {
+          for (const type of Object.keys(response.content ?? {})) {
+            expect(() => ajv.getSchema(`openapi#/paths/${pointer(path)}/${method}/responses/${status}/content/${pointer(type)}/schema`)).not.toThrow();
+          }
+        }
+      }
+    }
+  });
+
+  it('should derive the summary of the endpoints from the document', async () => {
+    const response = await request(server).get('/');
+    expectToMatchSpec(response, 'get', '/');
+    expect(response.body.documentation).toBe('/openapi.json');
+
+    const importEndpoint = response.body.endpoints.find((endpoint: any) => endpoint.endpoint === '/api/articles/import');
+    expect(importEndpoint).toMatchObject({ method: 'POST', role: 'admin' });
+    expect(importEndpoint.parameters.map((parameter: any) => parameter.in)).toEqual(['query', 'body']);
+  });
+
+  it('should match the responses of the reading endpoints', async () => {
+    expectToMatchSpec(await request(server).get('/api/articles').query({ limit: 5 }), 'get', '/api/articles');
+    expectToMatchSpec(await request(server).get('/api/articles').query({ limit: 0 }), 'get', '/api/articles');
+    expectToMatchSpec(await request(server).get('/api/articles/search').query({ q: 'snow' }), 'get', '/api/articles/search');
+    expectToMatchSpec(await request(server).get('/api/analytics/keywords').query({ from: '2022-01-01' }), 'get', '/api/analytics/keywords');
+    expectToMatchSpec(await request(server).get('/api/feeds'), 'get', '/api/feeds');
+    expectToMatchSpec(await request(server).get('/api/scheduler/status'), 'get', '/api/scheduler/status');
+
+    const imports = await request(server).get('/api/imports').query({ limit: 2 });
+    expectToMatchSpec(imports, 'get', '/api/imports');
+    expectToMatchSpec(await request(server).get(`/api/imports/${imports.body.data[0].id}`), 'get', '/api/imports/{id}');
+    expectToMatchSpec(await request(server).get('/api/imports/latest'), 'get', '/api/imports/{id}');
+    expectToMatchSpec(await request(server).get('/api/articles').query({ limit: 5, collapse: true }), 'get', '/api/articles');
+    expectToMatchSpec(await request(server).get('/api/stories'), 'get', '/api/stories');
+    expectToMatchSpec(await request(server).get('/healthz'), 'get', '/healthz');
+    expectToMatchSpec(await request(server).get('/readyz'), 'get', '/readyz');
+    expectToMatchSpec(await request(server).get('/metrics'), 'get', '/metrics');
+  });
+
+  it('should match the responses of the writing endpoints', async () => {
+    const created = await request(server).post('/api/feeds').set(admin).send({ url: 'http://localhost/contract/rss', name: 'Contract' });
+    expectToMatchSpec(created, 'post', '/api/feeds');
+    expectToMatchSpec(await request(server).post('/api/feeds').set(admin).send({ url: 'http://localhost/contract/rss', name: 'Contract' }), 'post', '/api/feeds');
+    expectToMatchSpec(await request(server).patch(`/api/feeds/${created.body.id}`).set(admin).send({ enabled: false }), 'patch', '/api/feeds/{id}');
+    expectToMatchSpec(await request(server).post('/api/articles/import').set(admin).send({ siteRssUrl: 'http://localhost/contract/rss' }), 'post', '/api/articles/import');
+    expectToMatchSpec(await request(server).delete(`/api/feeds/${created.body.id}`).set(admin), 'delete', '/api/feeds/{id}');
+    expectToMatchSpec(await request(server).post('/api/feeds').send({}), 'post', '/api/feeds');
+
+    const key = await request(server).post('/api/keys').set(admin).send({ name: 'Contract', role: 'reader' });
+    expectToMatchSpec(key, 'post', '/api/keys');
+    expectToMatchSpec(await request(server).get('/api/keys').set(admin), 'get', '/api/keys');
+    expectToMatchSpec(await request(server).delete(`/api/keys/${key.body.id}`).set(admin), 'delete', '/api/keys/{id}');
+    expectToMatchSpec(await request(server).post('/api/keys').set('Authorization', `Bearer ${key.body.key}`).send({}), 'post', '/api/keys');
   });
 });
 
 // Additional tests that could be useful:
 // - Check that the DB itself prevents duplicate articles (checking for unique-key)
 // - Unit test for the RSS class, for example to test that its constructor throws an error when an invalid URL is provided, etc.
-// - If we had authentication and authorization, we could test that the /api/articles/import endpoint is only accessible to authenticated users, and correctly returns 401 when no authentication is provided or 403 when the user is not authorized
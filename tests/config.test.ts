@@ -0,0 +1,108 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig } from '../src/config/config';
+
+// The config is loaded from a given set of environment variables rather than the real ones, and from files written to a temporary directory.
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+
+const writeFile = (name: string, content: string) => {
+  const file = path.join(directory, name);
+  fs.writeFileSync(file, content);
+  return file;
+};
+
+afterAll(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe('loadConfig', () => {
+  it('should fall back to the defaults', () => {
+    const config = loadConfig({});
+    expect(config.port).toBe(3001);
+    expect(config.database).toEqual({ host: 'localhost', port: 5432, name: 'postgres', user: 'postgres', password: 'postgres', poolSize: 10 });
+    expect(config.fetch).toEqual({ timeout: 10000, maxBodySize: 5 * 1024 * 1024, maxRedirects: 5, allowPrivateAddresses: false, allowedPorts: [80, 443, 8080, 8443] });
+    expect(config.polling).toEqual({ defaultInterval: 900, jitter: 0.1, maxBackoff: 21600, refreshInterval: 60 });
+    expect(config.auth).toEqual({ publicReads: true, adminKey: '' });
+    expect(config.log).toEqual({ level: 'info' });
+    expect(config.feeds.map((feed) => feed.url)).toContain('https://www.lemonde.fr/rss/une.xml');
+  });
+
+  it('should read the environment variables', () => {
+    const config = loadConfig({ PORT: '8080', DB_HOST: 'db.internal', DB_NAME: 'rss', DB_POOL_SIZE: '25', FETCH_TIMEOUT: '5000', POLL_JITTER: '0.25', AUTH_PUBLIC_READS: 'false' });
+    expect(config.port).toBe(8080);
+    expect(config.database).toMatchObject({ host: 'db.internal', name: 'rss', poolSize: 25 });
+    expect(config.fetch.timeout).toBe(5000);
+    expect(config.polling.jitter).toBe(0.25);
+    expect(config.auth.publicReads).toBe(false);
+  });
+
+  it('should read a YAML file, with the environment variables taking precedence', () => {
+    const file = writeFile('config.yaml', [
+      'port: 4000',
+      'database:',
+      '  name: staging',
+      '  password: secret',
+      'polling:',
+      '  defaultInterval: 300',
+      'feeds:',
+      '  - url: https://www.lemonde.fr/rss/une.xml',
+      '    name: Le Monde',
+      '    language: fr',
+      '    pollInterval: 600',
+    ].join('\n'));
+
+    const config = loadConfig({ CONFIG_FILE: file, DB_PASSWORD: 'from-env' });
+    expect(config.port).toBe(4000);
+    expect(config.database).toMatchObject({ name: 'staging', password: 'from-env', host: 'localhost' });
+    expect(config.polling.defaultInterval).toBe(300);
+    expect(config.feeds).toEqual([{ url: 'https://www.lemonde.fr/rss/une.xml', name: 'Le Monde', language: 'fr', pollInterval: 600 }]);
+  });
+
+  it('should read a JSON file', () => {
+    const file = writeFile('config.json', JSON.stringify({ fetch: { maxRedirects: 0 }, feeds: [] }));
+
+    const config = loadConfig({ CONFIG_FILE: file });
+    expect(config.fetch.maxRedirects).toBe(0);
+    expect(config.feeds).toEqual([]);
+  });
+
+  it('should list every invalid setting at once', () => {
+    const file = writeFile('invalid.yaml', [
+      'prot: 4000',
+      'database:',
+      '  poolsize: 5',
+      'polling:',
+      '  jitter: 2',
+      'feeds:',
+      '  - url: ftp://example.com/feed',
+      '  - url: https://example.com/feed',
+      '    name: Example',
+      '    pollInterval: 10',
+    ].join('\n'));
+
+    expect(() => loadConfig({ CONFIG_FILE: file, PORT: 'eighty', DB_POOL_SIZE: '0', POLL_MAX_BACKOFF: '31536000', AUTH_PUBLIC_READS: 'maybe', AUTH_ADMIN_KEY: 'secret', LOG_LEVEL: 'verbose' })).toThrow([
+      'The configuration is invalid:',
+      '- prot is not a setting',
+      '- database.poolsize is not a setting',
+      '- port (PORT) must be an integer',
+      '- database.poolSize (DB_POOL_SIZE) must be at least 1',
+      '- polling.jitter (POLL_JITTER) must be at most 1',
+      '- polling.maxBackoff (POLL_MAX_BACKOFF) must be at most 604800',
+      '- auth.publicReads (AUTH_PUBLIC_READS) must be true or false',
+      '- auth.adminKey (AUTH_ADMIN_KEY) must be at least 32 characters long',
+      '- log.level (LOG_LEVEL) must be one of debug, info, warn, error, silent',
+      '- feeds[0].url must be an http or https URL',
+      '- feeds[0].name must be a non-empty string',
+      '- feeds[1].pollInterval must be a number of seconds between 60 and 604800',
+    ].join('\n'));
+  });
+
+  it('should fail when the file is missing or malformed', () => {
+    expect(() => loadConfig({ CONFIG_FILE: path.join(directory, 'missing.json') })).toThrow('could not be read');
+    expect(() => loadConfig({ CONFIG_FILE: writeFile('broken.json', '{"port": ') })).toThrow('could not be read');
+    expect(() => loadConfig({ CONFIG_FILE: writeFile('config.toml', 'port = 4000') })).toThrow('must be a .json, .yaml or .yml file');
+    expect(() => loadConfig({ CONFIG_FILE: writeFile('list.yaml', '- port: 4000') })).toThrow('must contain an object');
+  });
+});
@@ -0,0 +1,152 @@
+import fs from 'fs';
+import path from 'path';
+import { FeedParser } from '../src/classes/FeedParser';
+import { parseDate } from '../src/utils/dates';
+
+// Each format is tested against a fixture, so that we know every adapter turns its format into the same shape. These tests don't need the database or the network.
+
+const fixture = (file: string) => fs.readFileSync(path.join(__dirname, 'fixtures', file)).toString();
+const parser = new FeedParser();
+
+describe('FeedParser', () => {
+  it('should parse an RSS feed', async () => {
+    const feed = await parser.parse(fixture('rss.xml'));
+
+    expect(feed).toMatchObject({ format: 'rss', title: 'Fixture News - Europe', link: 'https://news.example.com/europe', language: 'en-gb', image: null });
+    expect(feed.items).toEqual([
+      {
+        id: 'https://news.example.com/europe/energy-summit',
+        title: 'Leaders meet in Brussels to discuss energy prices',
+        link: 'https://news.example.com/europe/energy-summit',
+        description: 'European leaders gathered on Thursday for a summit on energy prices.',
+        publishedAt: new Date('2022-12-15T09:30:00Z'),
+        mainPicture: 'https://news.example.com/images/energy-summit.jpg',
+      },
+      {
+        id: 'https://news.example.com/europe/alps-snow',
+        title: 'Heavy snow disrupts travel across the Alps',
+        link: 'https://news.example.com/europe/alps-snow',
+        description: 'Roads and railways were closed after a night of heavy snowfall.',
+        publishedAt: new Date('2022-12-14T18:05:00Z'),
+        mainPicture: null,
+      },
+    ]);
+  });
+
+  it('should fall back on the link, other dates and other pictures in RSS feeds', async () => {
+    const feed = await parser.parse(fixture('rss-edge-cases.xml'));
+    const [noGuid, enclosure, podcast, nothing] = feed.items;
+
+    // The same link always gives the same ID
+    expect(noGuid.id).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect((await parser.parse(fixture('rss-edge-cases.xml'))).items[0].id).toBe(noGuid.id);
+    expect(noGuid.publishedAt).toEqual(new Date('2022-12-15T07:30:00Z'));
+    // The widest picture, skipping the video
+    expect(noGuid.mainPicture).toBe('https://edge.example.com/images/large.jpg');
+
+    expect(enclosure).toMatchObject({ id: 'edge-enclosure', publishedAt: new Date('2022-12-14T18:05:00Z'), mainPicture: 'https://edge.example.com/images/enclosure.png' });
+
+    // An audio enclosure isn't a picture, so the picture of the feed is used
+    expect(podcast).toMatchObject({ publishedAt: new Date('2022-12-13T13:00:00Z'), mainPicture: 'https://edge.example.com/logo.png' });
+
+    expect(nothing).toMatchObject({ id: null, link: null });
+  });
+
+  it('should use the primary key of the feed before the guid', async () => {
+    const feed = await parser.parse(fixture('rss.xml'), { primaryKey: 'title' });
+    expect(feed.items[0].id).toBe('Leaders meet in Brussels to discuss energy prices');
+  });
+
+  it('should parse an Atom feed', async () => {
+    const feed = await parser.parse(fixture('atom.xml'));
+
+    expect(feed).toMatchObject({ format: 'atom', title: 'Fixture Actualités', link: 'https://actu.example.com/', language: 'fr', image: 'https://actu.example.com/logo.png' });
+    expect(feed.items).toEqual([
+      {
+        id: 'tag:actu.example.com,2022:energie',
+        title: 'Les prix de l\'énergie au cœur du sommet de Bruxelles',
+        link: 'https://actu.example.com/energie',
+        description: 'Les dirigeants européens se sont réunis & ont parlé d’énergie.',
+        // The published date, rather than when it was last updated
+        publishedAt: new Date('2022-12-15T08:30:00Z'),
+        mainPicture: 'https://actu.example.com/images/energie-large.jpg',
+      },
+      {
+        id: 'tag:actu.example.com,2022:neige',
+        title: 'La neige perturbe les transports dans les Alpes',
+        link: 'https://actu.example.com/neige',
+        description: 'Routes et voies ferrées ont été fermées.',
+        publishedAt: new Date('2022-12-14T18:05:00Z'),
+        mainPicture: 'https://actu.example.com/images/neige.png',
+      },
+      // An unreadable date doesn't stop the rest of the feed from being parsed
+      {
+        id: 'tag:actu.example.com,2022:date',
+        title: 'Un article à la date illisible',
+        link: 'https://actu.example.com/date',
+        description: '',
+        publishedAt: null,
+        mainPicture: 'https://actu.example.com/logo.png',
+      },
+    ]);
+  });
+
+  it('should parse a JSON Feed', async () => {
+    const feed = await parser.parse(fixture('feed.json'));
+
+    expect(feed).toMatchObject({ format: 'json', title: 'Fixture Nachrichten', link: 'https://nachrichten.example.com/', language: 'de', image: 'https://nachrichten.example.com/icon.png' });
+    expect(feed.items).toEqual([
+      {
+        id: 'https://nachrichten.example.com/energie',
+        title: 'Energiepreise im Mittelpunkt des Gipfels in Brüssel',
+        link: 'https://nachrichten.example.com/energie',
+        description: 'Die europäischen Staats- und Regierungschefs trafen sich am Donnerstag.',
+        publishedAt: new Date('2022-12-15T08:30:00Z'),
+        mainPicture: 'https://nachrichten.example.com/images/energie.jpg',
+      },
+      {
+        id: '42',
+        title: 'Starker Schneefall behindert den Verkehr in den Alpen',
+        link: 'https://nachrichten.example.com/schnee',
+        description: 'Straßen und Bahnstrecken wurden gesperrt.',
+        publishedAt: new Date('2022-12-14T18:05:00Z'),
+        mainPicture: 'https://nachrichten.example.com/images/schnee.webp',
+      },
+      {
+        id: 'ohne-titel',
+        title: null,
+        link: 'https://nachrichten.example.com/ohne-titel',
+        description: 'Ein Beitrag ohne Titel.',
+        publishedAt: new Date('2022-12-13T08:00:00Z'),
+        mainPicture: 'https://nachrichten.example.com/icon.png',
+      },
+    ]);
+  });
+
+  it('should reject anything that is not a feed', async () => {
+    await expect(parser.parse('<html><body>Not a feed</body></html>')).rejects.toThrow('not an RSS, Atom or JSON feed');
+    await expect(parser.parse('{"title": "Not a feed"}')).rejects.toThrow('not a JSON Feed');
+    await expect(parser.parse('{"version": ')).rejects.toThrow('not valid JSON');
+  });
+});
+
+describe('parseDate', () => {
+  it('should parse the dates publishers actually use', () => {
+    expect(parseDate('Thu, 15 Dec 2022 09:30:00 GMT')).toEqual(new Date('2022-12-15T09:30:00Z'));
+    // The wrong weekday, a named European timezone and a two-digit year
+    expect(parseDate('Mon, 15 Dec 22 09:30:00 CET')).toEqual(new Date('2022-12-15T08:30:00Z'));
+    expect(parseDate('15 December 2022 09:30 +0530')).toEqual(new Date('2022-12-15T04:00:00Z'));
+    expect(parseDate('2022-12-15T09:30:00.123456-05:00')).toEqual(new Date('2022-12-15T14:30:00.123Z'));
+    // Without a timezone, dates are taken as UTC whatever the timezone of the server
+    expect(parseDate('2022-12-15 09:30:00')).toEqual(new Date('2022-12-15T09:30:00Z'));
+    expect(parseDate('Thu, 15 Dec 2022 09:30:00')).toEqual(new Date('2022-12-15T09:30:00Z'));
+  });
+
+  it('should return null for anything that is not a date', () => {
+    expect(parseDate('sometime in December')).toBeNull();
+    expect(parseDate('Thu, 15 Dec 2022 09:30:00 XYZ')).toBeNull();
+    expect(parseDate('2022-13-45')).toBeNull();
+    expect(parseDate('')).toBeNull();
+    expect(parseDate(undefined)).toBeNull();
+  });
+});
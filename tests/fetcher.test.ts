@@ -0,0 +1,155 @@
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { AddressInfo } from 'net';
+import dns from 'dns';
+import { FeedFetcher } from '../src/classes/FeedFetcher';
+
+// The fetcher is tested against a local HTTP server, so that we can control the status codes, headers and timing of the responses.
+
+const fixture = fs.readFileSync(path.join(__dirname, 'fixtures', 'rss.xml'));
+const etag = '"fixture-v1"';
+const lastModified = 'Thu, 15 Dec 2022 09:30:00 GMT';
+let baseUrl: string;
+
+const stub = http.createServer((req, res) => {
+  const url = new URL(req.url!, 'http://localhost');
+
+  switch (url.pathname) {
+    case '/feed.xml':
+      if (req.headers['if-none-match'] === etag || req.headers['if-modified-since'] === lastModified) {
+        res.statusCode = 304;
+        res.end();
+        return;
+      }
+
+      res.setHeader('ETag', etag);
+      res.setHeader('Last-Modified', lastModified);
+      res.setHeader('Content-Type', 'application/rss+xml; charset=utf-8');
+      res.end(fixture);
+      return;
+
+    case '/gzip.xml':
+      res.setHeader('Content-Encoding', 'gzip');
+      res.end(zlib.gzipSync(fixture));
+      return;
+
+    // Redirects the given number of times before serving the feed
+    case '/redirect':
+      const remaining = Number(url.searchParams.get('times'));
+      res.statusCode = 302;
+      res.setHeader('Location', remaining > 1 ? `/redirect?times=${remaining - 1}` : '/feed.xml');
+      res.end();
+      return;
+
+    // Redirects to the address where cloud providers serve the credentials of the machine
+    case '/metadata':
+      res.statusCode = 301;
+      res.setHeader('Location', 'http://169.254.169.254/latest/meta-data/');
+      res.end();
+      return;
+
+    case '/slow.xml':
+      setTimeout(() => res.end(fixture), 500);
+      return;
+
+    // A large body without a Content-Length, so that the size can only be found out by reading it
+    case '/huge.xml':
+      res.write('<rss>');
+      res.end('x'.repeat(2 * 1024 * 1024));
+      return;
+
+    default:
+      res.statusCode = 404;
+      res.end();
+  }
+});
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => stub.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => stub.close(resolve));
+});
+
+describe('FeedFetcher', () => {
+  const fetcher = new FeedFetcher({ timeout: 200, maxBodySize: 1024 * 1024, maxRedirects: 3, allowPrivateAddresses: true, allowedPorts: null });
+
+  it('should return the body and the cache validators', async () => {
+    const result = await fetcher.fetch(`${baseUrl}/feed.xml`);
+    expect(result.notModified).toBe(false);
+    expect(result.status).toBe(200);
+    expect(result.body).toBe(fixture.toString());
+    expect(result.etag).toBe(etag);
+    expect(result.lastModified).toBe(lastModified);
+  });
+
+  it('should return not modified when the ETag matches', async () => {
+    const result = await fetcher.fetch(`${baseUrl}/feed.xml`, { etag });
+    expect(result.notModified).toBe(true);
+    expect(result.body).toBe('');
+    // The server didn't repeat the validators, so the ones we sent are kept
+    expect(result.etag).toBe(etag);
+  });
+
+  it('should return not modified when the feed was not modified since the last fetch', async () => {
+    const result = await fetcher.fetch(`${baseUrl}/feed.xml`, { lastModified });
+    expect(result.notModified).toBe(true);
+  });
+
+  it('should download the feed again when the validators are outdated', async () => {
+    const result = await fetcher.fetch(`${baseUrl}/feed.xml`, { etag: '"fixture-v0"' });
+    expect(result.notModified).toBe(false);
+  });
+
+  it('should decompress the body', async () => {
+    const result = await fetcher.fetch(`${baseUrl}/gzip.xml`);
+    expect(result.body).toBe(fixture.toString());
+  });
+
+  it('should follow redirects up to the limit', async () => {
+    const result = await fetcher.fetch(`${baseUrl}/redirect?times=3`);
+    expect(result.url).toBe(`${baseUrl}/feed.xml`);
+    expect(result.body).toBe(fixture.toString());
+
+    await expect(fetcher.fetch(`${baseUrl}/redirect?times=4`)).rejects.toThrow('Too many redirects');
+  });
+
+  it('should give up when the feed takes too long', async () => {
+    await expect(fetcher.fetch(`${baseUrl}/slow.xml`)).rejects.toThrow('longer than 200ms');
+  });
+
+  it('should give up when looking up the host takes too long', async () => {
+    // The host is looked up before each request, so the timeout has to cover the lookup too
+    const original = dns.promises.lookup;
+    const lookup = jest.spyOn(dns.promises, 'lookup').mockImplementation(((...args: any[]) => new Promise((resolve) => setTimeout(resolve, 300)).then(() => (original as any)(...args))) as any);
+
+    try {
+      await expect(fetcher.fetch(baseUrl.replace('127.0.0.1', 'localhost') + '/slow.xml')).rejects.toThrow('longer than 200ms');
+    } finally {
+      lookup.mockRestore();
+    }
+  });
+
+  it('should give up when the feed is too large', async () => {
+    await expect(fetcher.fetch(`${baseUrl}/huge.xml`)).rejects.toThrow('larger than the limit');
+  });
+
+  it('should fail on error statuses', async () => {
+    await expect(fetcher.fetch(`${baseUrl}/missing.xml`)).rejects.toThrow('Status code 404');
+  });
+
+  it('should not follow redirects to addresses that are not allowed', async () => {
+    await expect(fetcher.fetch(`${baseUrl}/metadata`)).rejects.toThrow('The feed redirected to http://169.254.169.254/latest/meta-data/, which isn\'t allowed: The host 169.254.169.254 resolves to 169.254.169.254, which is a cloud metadata address');
+  });
+
+  it('should not fetch private addresses or other ports by default', async () => {
+    const strict = new FeedFetcher();
+    await expect(strict.fetch(`${baseUrl}/feed.xml`)).rejects.toThrow(/port \d+, but feeds can only be fetched from ports 80, 443, 8080, 8443/);
+    await expect(new FeedFetcher({ allowedPorts: null }).fetch(`${baseUrl}/feed.xml`)).rejects.toThrow('which is a loopback address');
+    await expect(strict.fetch('file:///etc/passwd')).rejects.toThrow('must use http or https, not file');
+  });
+});
@@ -0,0 +1,57 @@
+import { Logger } from '../src/classes/Logger';
+
+// The entries are written to an array rather than to stdout, so that they can be read back.
+
+const capture = (level: ConstructorParameters<typeof Logger>[0] = 'info') => {
+  const lines: string[] = [];
+  const logger = new Logger(level, { service: 'test' }, (line) => lines.push(line));
+  return { logger, entries: () => lines.map((line) => JSON.parse(line)) };
+};
+
+describe('Logger', () => {
+  it('should write each entry as one line of JSON', () => {
+    const { logger, entries } = capture();
+
+    logger.info('Imported the feed', { feedId: 1, inserted: 3 });
+
+    expect(entries()).toEqual([
+      { time: expect.any(String), level: 'info', message: 'Imported the feed', service: 'test', feedId: 1, inserted: 3 },
+    ]);
+    expect(new Date(entries()[0].time).toString()).not.toBe('Invalid Date');
+  });
+
+  it('should only write the entries of the level or above', () => {
+    const { logger, entries } = capture('warn');
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(entries().map((entry) => entry.level)).toEqual(['warn', 'error']);
+
+    const silent = capture('silent');
+    silent.logger.error('error');
+    expect(silent.entries()).toEqual([]);
+  });
+
+  it('should add the fields of a child to every entry', () => {
+    const { logger, entries } = capture();
+    const child = logger.child({ requestId: 'abc' }).child({ feedId: 2 });
+
+    child.info('Imported the feed');
+    logger.info('Server running');
+
+    expect(entries()[0]).toMatchObject({ service: 'test', requestId: 'abc', feedId: 2 });
+    expect(entries()[1]).not.toHaveProperty('requestId');
+  });
+
+  it('should write the errors with their message and stack', () => {
+    const { logger, entries } = capture();
+    const error = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+
+    logger.error('The request failed', { error });
+
+    expect(entries()[0].error).toEqual({ name: 'Error', message: 'connect ECONNREFUSED', stack: expect.stringContaining('connect ECONNREFUSED'), code: 'ECONNREFUSED' });
+  });
+});
@@ -0,0 +1,61 @@
+import { Counter, Gauge, Histogram, MetricsRegistry } from '../src/classes/Metrics';
+
+describe('MetricsRegistry', () => {
+  it('should write the counters in the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    const errors = registry.register(new Counter('fetch_errors_total', 'The fetch errors', ['feed']));
+
+    errors.inc({ feed: 'https://example.com/feed' });
+    errors.inc({ feed: 'https://example.com/feed' }, 2);
+    errors.inc({ feed: 'https://example.com/"quoted"\\feed' });
+
+    expect(registry.render()).toBe([
+      '# HELP fetch_errors_total The fetch errors',
+      '# TYPE fetch_errors_total counter',
+      'fetch_errors_total{feed="https://example.com/feed"} 3',
+      'fetch_errors_total{feed="https://example.com/\\"quoted\\"\\\\feed"} 1',
+      '',
+    ].join('\n'));
+  });
+
+  it('should keep the labels in their declared order, and ignore the undeclared ones', () => {
+    const counter = new Counter('requests_total', 'The requests', ['method', 'status']);
+
+    counter.inc({ status: 200, method: 'GET' });
+    counter.inc({ method: 'GET', status: 200, other: 'ignored' });
+
+    expect(counter.render()).toContain('requests_total{method="GET",status="200"} 2');
+  });
+
+  it('should write cumulative histogram buckets', () => {
+    const histogram = new Histogram('duration_seconds', 'The durations', ['route'], [0.1, 1]);
+
+    histogram.observe({ route: '/api/articles' }, 0.05);
+    histogram.observe({ route: '/api/articles' }, 0.5);
+    histogram.observe({ route: '/api/articles' }, 3);
+
+    expect(histogram.render().slice(2)).toEqual([
+      'duration_seconds_bucket{route="/api/articles",le="0.1"} 1',
+      'duration_seconds_bucket{route="/api/articles",le="1"} 2',
+      'duration_seconds_bucket{route="/api/articles",le="+Inf"} 3',
+      'duration_seconds_sum{route="/api/articles"} 3.55',
+      'duration_seconds_count{route="/api/articles"} 3',
+    ]);
+  });
+
+  it('should collect the gauges when they are written', () => {
+    let connections = 1;
+    const gauge = new Gauge('pool_connections', 'The connections', ['state'], (self) => self.set({ state: 'total' }, connections));
+
+    expect(gauge.render()).toContain('pool_connections{state="total"} 1');
+    connections = 4;
+    expect(gauge.render()).toContain('pool_connections{state="total"} 4');
+  });
+
+  it('should refuse two metrics with the same name', () => {
+    const registry = new MetricsRegistry();
+    registry.register(new Counter('requests_total', 'The requests'));
+
+    expect(() => registry.register(new Counter('requests_total', 'The requests'))).toThrow('already registered');
+  });
+});
@@ -0,0 +1,269 @@
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import Parser from 'rss-parser';
+import { AddressInfo } from 'net';
+import { Scheduler } from '../src/classes/Scheduler';
+import { Feed } from '../src/classes/FeedRegistry';
+import { Clock } from '../src/utils/clock';
+
+// These tests don't use the database: the registry is replaced by an in-memory list of feeds, and the feeds are served by a local HTTP server rather than the real publishers. The clock is fake as well, so that we can check hours of polling without waiting for them.
+
+/**
+ * A clock that only moves when told to
+ */
+class FakeClock implements Clock {
+  time = 0;
+  private timers = new Map<number, { at: number, callback: () => void }>();
+  private nextId = 1;
+
+  now = () => this.time;
+
+  setTimeout = (callback: () => void, ms: number) => {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + ms, callback });
+    return id;
+  };
+
+  clearTimeout = (handle: unknown) => {
+    this.timers.delete(handle as number);
+  };
+
+  /**
+   * Move the time forward, calling every timer that is due on the way, in order
+   */
+  advance = (ms: number) => {
+    const end = this.time + ms;
+
+    for (;;) {
+      const due = [...this.timers.entries()].filter(([, timer]) => timer.at <= end).sort(([, a], [, b]) => a.at - b.at)[0];
+
+      if (!due) {
+        break;
+      }
+
+      this.timers.delete(due[0]);
+      this.time = due[1].at;
+      due[1].callback();
+    }
+
+    this.time = end;
+  };
+}
+
+const fixture = fs.readFileSync(path.join(__dirname, 'fixtures', 'rss.xml'));
+const requests: Record<string, number> = {};
+let failing = true;
+let baseUrl: string;
+
+// Serves the fixture on any path, except /broken.xml which fails until told otherwise and /slow.xml which takes a while to respond
+const stub = http.createServer((req, res) => {
+  requests[req.url!] = (requests[req.url!] ?? 0) + 1;
+
+  if (req.url === '/broken.xml' && failing) {
+    res.statusCode = 500;
+    res.end();
+    return;
+  }
+
+  setTimeout(() => {
+    res.setHeader('Content-Type', 'application/rss+xml');
+    res.end(fixture);
+  }, req.url === '/slow.xml' ? 200 : 0);
+});
+
+const parser = new Parser();
+
+const makeFeed = (id: number, file: string, pollInterval: number | null = 60): Feed => ({
+  id,
+  url: `${baseUrl}/${file}`,
+  name: file,
+  primaryKey: 'guid',
+  enabled: true,
+  language: null,
+  pollInterval,
+  lastSuccessAt: null,
+  lastErrorAt: null,
+  lastError: null,
+  etag: null,
+  lastModified: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const makeScheduler = (feeds: Feed[], options: { random?: () => number, maxBackoff?: number } = {}) => {
+  const clock = new FakeClock();
+  const polls: Array<{ id: number, error: string | null }> = [];
+
+  const scheduler = new Scheduler({
+    registry: {
+      all: async () => feeds,
+      recordPoll: async (id: number, error: string | null) => { polls.push({ id, error }); },
+    },
+    // Fetch and parse the feed like the real import does, but without saving it
+    importFeed: (feed) => parser.parseURL(feed.url),
+    clock,
+    random: options.random ?? (() => 0.5),
+    maxBackoff: options.maxBackoff,
+  });
+
+  return { scheduler, clock, polls };
+};
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => stub.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => stub.close(resolve));
+});
+
+beforeEach(() => {
+  for (const key of Object.keys(requests)) {
+    delete requests[key];
+  }
+  failing = true;
+});
+
+describe('Scheduler', () => {
+  it('should stagger the first imports across the interval', async () => {
+    const randoms = [0.1, 0.5, 0.9];
+    const { scheduler, clock } = makeScheduler([makeFeed(1, 'a.xml'), makeFeed(2, 'b.xml'), makeFeed(3, 'c.xml')], { random: () => randoms.shift() ?? 0.5 });
+
+    await scheduler.start();
+
+    expect(scheduler.status().map((status) => status.nextRunAt!.getTime())).toEqual([6000, 30000, 54000]);
+
+    clock.advance(5000);
+    await scheduler.idle();
+    expect(requests).toEqual({});
+
+    clock.advance(25000);
+    await scheduler.idle();
+    expect(requests).toEqual({ '/a.xml': 1, '/b.xml': 1 });
+
+    clock.advance(25000);
+    await scheduler.idle();
+    expect(requests).toEqual({ '/a.xml': 1, '/b.xml': 1, '/c.xml': 1 });
+
+    await scheduler.stop();
+  });
+
+  it('should import a feed again after its interval, with jitter, and record the success', async () => {
+    const randoms = [0.5, 1, 0];
+    const { scheduler, clock, polls } = makeScheduler([makeFeed(1, 'a.xml', 100)], { random: () => randoms.shift() ?? 0.5 });
+
+    await scheduler.start();
+    clock.advance(50000);
+    await scheduler.idle();
+
+    // The random number 1 gives the largest jitter, 10% later than the interval
+    const [status] = scheduler.status();
+    expect(status.lastSuccessAt!.getTime()).toBe(50000);
+    expect(status.nextRunAt!.getTime()).toBe(50000 + 110000);
+    expect(polls).toEqual([{ id: 1, error: null }]);
+
+    clock.advance(110000);
+    await scheduler.idle();
+    expect(requests['/a.xml']).toBe(2);
+
+    // And the random number 0 gives the smallest, 10% sooner
+    expect(scheduler.status()[0].nextRunAt!.getTime()).toBe(160000 + 90000);
+
+    await scheduler.stop();
+  });
+
+  it('should back off exponentially while a feed keeps failing, and recover', async () => {
+    const { scheduler, clock, polls } = makeScheduler([makeFeed(1, 'broken.xml', 60)], { maxBackoff: 300 });
+
+    await scheduler.start();
+    clock.advance(30000);
+    await scheduler.idle();
+
+    let [status] = scheduler.status();
+    expect(status.consecutiveFailures).toBe(1);
+    expect(status.lastErrorAt!.getTime()).toBe(30000);
+    expect(status.lastError).toContain('500');
+    expect(status.nextRunAt!.getTime()).toBe(30000 + 120000);
+    expect(polls[0].error).toContain('500');
+
+    clock.advance(120000);
+    await scheduler.idle();
+    [status] = scheduler.status();
+    expect(status.consecutiveFailures).toBe(2);
+    expect(status.nextRunAt!.getTime()).toBe(150000 + 240000);
+
+    // The backoff is capped at the maximum
+    clock.advance(240000);
+    await scheduler.idle();
+    [status] = scheduler.status();
+    expect(status.consecutiveFailures).toBe(3);
+    expect(status.nextRunAt!.getTime()).toBe(390000 + 300000);
+
+    // Once the feed works again, it goes back to its normal interval
+    failing = false;
+    clock.advance(300000);
+    await scheduler.idle();
+    [status] = scheduler.status();
+    expect(status.consecutiveFailures).toBe(0);
+    expect(status.lastSuccessAt!.getTime()).toBe(690000);
+    expect(status.nextRunAt!.getTime()).toBe(690000 + 60000);
+    expect(requests['/broken.xml']).toBe(4);
+
+    await scheduler.stop();
+  });
+
+  it('should wait out intervals that are longer than a timer can wait', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const { scheduler, clock } = makeScheduler([makeFeed(1, 'a.xml', 60 * 24 * 60 * 60)]);
+    const setTimeout = jest.spyOn(clock, 'setTimeout');
+
+    await scheduler.start();
+    expect(scheduler.status()[0].nextRunAt!.getTime()).toBe(30 * day);
+
+    clock.advance(29 * day);
+    await scheduler.idle();
+    expect(requests).toEqual({});
+
+    clock.advance(day);
+    await scheduler.idle();
+    expect(requests).toEqual({ '/a.xml': 1 });
+    expect(Math.max(...setTimeout.mock.calls.map(([, ms]) => ms))).toBeLessThanOrEqual(2 ** 31 - 1);
+
+    await scheduler.stop();
+  });
+
+  it('should never import the same feed twice at the same time', async () => {
+    const { scheduler } = makeScheduler([makeFeed(1, 'slow.xml')]);
+
+    await scheduler.start();
+
+    // The second import is asked for while the first one is still running, so it waits for the first one instead
+    await Promise.all([scheduler.runNow(1), scheduler.runNow(1)]);
+
+    expect(requests['/slow.xml']).toBe(1);
+    expect(scheduler.status()[0].nextRunAt).not.toBeNull();
+
+    await scheduler.stop();
+  });
+
+  it('should stop polling feeds that are removed or disabled', async () => {
+    const feeds = [makeFeed(1, 'a.xml'), makeFeed(2, 'b.xml')];
+    const { scheduler, clock } = makeScheduler(feeds);
+
+    await scheduler.start();
+    expect(scheduler.status().length).toBe(2);
+
+    feeds[0].enabled = false;
+    feeds.pop();
+    await scheduler.refresh();
+    expect(scheduler.status()).toEqual([]);
+
+    clock.advance(120000);
+    await scheduler.idle();
+    expect(requests).toEqual({});
+
+    await scheduler.stop();
+  });
+});
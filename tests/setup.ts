@@ -0,0 +1,13 @@
+// The tests run against their own database, so that they can rebuild it from scratch without touching the development data. Set TEST_DB_NAME to use another one.
+process.env.DB_NAME = process.env.TEST_DB_NAME || 'rss_test';
+
+// The migrations store this admin key, which the tests send with every write. The reads are public unless a test says otherwise.
+process.env.AUTH_ADMIN_KEY = 'test-admin-key-0123456789abcdefghij';
+process.env.AUTH_PUBLIC_READS = 'true';
+
+// The tests serve their feeds from local servers on random ports, which the fetcher doesn't allow by default
+process.env.FETCH_ALLOW_PRIVATE_ADDRESSES = 'true';
+process.env.FETCH_ALLOWED_PORTS = '*';
+
+// The logs would bury the output of the tests. The tests that check the logs give their own logger.
+process.env.LOG_LEVEL = 'silent';
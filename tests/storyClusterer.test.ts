@@ -0,0 +1,72 @@
+import { StoryClusterer } from '../src/classes/StoryClusterer';
+
+const clusterer = new StoryClusterer();
+
+const snow = {
+  title: 'Heavy snow disrupts travel across the Alps',
+  description: 'Roads and railways were closed after a night of heavy snowfall.',
+  link: 'https://news.example.com/europe/alps-snow',
+};
+
+describe('StoryClusterer', () => {
+  it('should give a republished article the same fingerprint', () => {
+    const original = clusterer.fingerprint(snow, 'en');
+    const republished = clusterer.fingerprint({
+      title: '  Heavy snow disrupts  travel across the ALPS',
+      description: 'Roads and railways were closed after a night of heavy snowfall.',
+      link: 'http://news.example.com/europe/alps-snow/?utm_source=rss&xtor=RSS-3208#comments',
+    }, 'en');
+
+    expect(republished.canonicalLink).toBe('https://news.example.com/europe/alps-snow');
+    expect(republished.contentHash).toBe(original.contentHash);
+    expect(republished.signature).toEqual(original.signature);
+    expect(original.contentHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should not compare the articles with too few words', () => {
+    expect(clusterer.fingerprint({ title: 'Live', description: '', link: null }).signature).toBeNull();
+    expect(clusterer.fingerprint({ title: 'Live', description: '', link: null }).canonicalLink).toBeNull();
+    expect(clusterer.fingerprint(snow, 'en').signature).toHaveLength(clusterer.signatureSize);
+  });
+
+  it('should estimate how many words two articles share', () => {
+    const words = Array.from({ length: 150 }, (_, i) => `word${String.fromCharCode(97 + (i % 26))}${Math.floor(i / 26)}`);
+    // 50 shared words out of 150 in total, a Jaccard similarity of a third
+    const a = clusterer.signature(new Set(words.slice(0, 100)));
+    const b = clusterer.signature(new Set(words.slice(50, 150)));
+
+    expect(clusterer.similarity(a, a)).toBe(1);
+    expect(clusterer.similarity(a, b)).toBeGreaterThan(0.15);
+    expect(clusterer.similarity(a, b)).toBeLessThan(0.55);
+    expect(clusterer.similarity(a, clusterer.signature(new Set(['unrelated', 'other', 'words'])))).toBeLessThan(0.1);
+  });
+
+  it('should find the articles about the same story similar', () => {
+    const story = clusterer.fingerprint({
+      title: 'Alps snowfall disrupts travel as roads close',
+      description: 'Heavy snow closed roads and railways across the Alps after a night of snowfall.',
+      link: 'https://other.example.com/alps',
+    }, 'en');
+    const unrelated = clusterer.fingerprint({
+      title: 'Central bank raises interest rates again',
+      description: 'The bank raised its main rate by half a point to curb inflation.',
+      link: 'https://other.example.com/rates',
+    }, 'en');
+    const original = clusterer.fingerprint(snow, 'en');
+
+    expect(clusterer.similarity(original.signature!, story.signature!)).toBeGreaterThanOrEqual(clusterer.threshold);
+    expect(clusterer.similarity(original.signature!, unrelated.signature!)).toBeLessThan(clusterer.threshold);
+  });
+
+  it('should hash each band of a signature', () => {
+    const signature = clusterer.fingerprint(snow, 'en').signature!;
+    const bands = clusterer.bands(signature);
+
+    expect(bands).toHaveLength(clusterer.signatureSize / clusterer.bandSize);
+    expect(clusterer.bands([...signature])).toEqual(bands);
+    // A band only changes when one of its own hashes does
+    const changed = clusterer.bands([signature[0] + 1, ...signature.slice(1)]);
+    expect(changed[0]).not.toBe(bands[0]);
+    expect(changed.slice(1)).toEqual(bands.slice(1));
+  });
+});
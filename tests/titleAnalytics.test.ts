@@ -0,0 +1,60 @@
+import { TitleAnalytics } from '../src/classes/TitleAnalytics';
+
+// The analytics are pure functions of the text, so they are tested directly, without the database.
+
+const analytics = new TitleAnalytics();
+
+describe('TitleAnalytics', () => {
+  it('should split text into words without punctuation or elisions', () => {
+    expect(analytics.tokenize('L\'économie : « la France » s’inquiète, aujourd\'hui.', 'fr')).toEqual(['économie', 'la', 'France', 'inquiète', 'aujourd\'hui']);
+    expect(analytics.tokenize('Europe\'s well-known leaders (again)!', 'en-GB')).toEqual(['Europe', 'well-known', 'leaders', 'again']);
+    // A decomposed accent is the same word as a composed one
+    expect(analytics.tokenize('élection', 'fr')).toEqual(['élection']);
+  });
+
+  it('should count the vowels of the language, in any case and with accents', () => {
+    expect(analytics.countVowels('ÉLECTION', 'fr')).toBe(4);
+    expect(analytics.countVowels('cœur', 'fr')).toBe(2);
+    expect(analytics.countVowels('Übergrößen', 'de')).toBe(4);
+    expect(analytics.countVowels('Привет', 'ru')).toBe(2);
+    // Without a vowel set for the language, accented Latin vowels still count
+    expect(analytics.countVowels('Ñandú', null)).toBe(2);
+  });
+
+  it('should find the word with the most vowels', () => {
+    expect(analytics.wordWithMostVowels('Élection à Paris', 'fr')).toBe('Élection');
+    expect(analytics.wordWithMostVowels('AUDIO test', 'en')).toBe('AUDIO');
+    // Punctuation isn't part of the word, and on a tie the longer word wins
+    expect(analytics.wordWithMostVowels('Hello, big world!', 'en')).toBe('Hello');
+    expect(analytics.wordWithMostVowels('Привет мир', 'ru')).toBe('Привет');
+    expect(analytics.wordWithMostVowels('', 'en')).toBe('');
+  });
+
+  it('should find the keywords without stop words', () => {
+    expect(analytics.keywords('The cat and the hat: the cat\'s return in 2022', 'en')).toEqual(['cat', 'hat', 'return']);
+    expect(analytics.keywords('Les prix de l\'énergie au cœur du sommet\nLes dirigeants ont parlé d’énergie', 'fr')).toEqual(['énergie', 'prix', 'cœur', 'sommet', 'dirigeants']);
+  });
+
+  it('should compute the word count and reading time of an article', () => {
+    const description = Array.from({ length: 225 }, () => 'word').join(' ');
+    const result = analytics.analyze({ title: 'Five words in this title', description, language: 'en' });
+
+    expect(result.wordCount).toBe(230);
+    expect(result.readingTime).toBe(60);
+    expect(result.keywords).toEqual(['word', 'five', 'words', 'title']);
+    expect(result.wordWithMostVowels).toBe('title');
+  });
+
+  it('should count in how many articles each keyword appears', async () => {
+    async function* articles() {
+      yield { title: 'Snow in the Alps', description: 'Snow, snow and more snow', language: 'en' };
+      yield { title: 'Neige dans les Alpes', description: null, language: 'fr' };
+      yield { title: 'More snow expected', description: '', language: 'en' };
+    }
+
+    const result = await analytics.trending(articles(), 3);
+
+    expect(result.articleCount).toBe(3);
+    expect(result.keywords).toEqual([{ keyword: 'snow', count: 2 }, { keyword: 'alpes', count: 1 }, { keyword: 'alps', count: 1 }]);
+  });
+});
@@ -0,0 +1,75 @@
+import { canonicalLink, checkAddress, checkUrl, normalizeUrl } from '../src/utils/urls';
+
+// The checks only resolve localhost and IP addresses, so that they don't depend on the network.
+
+const strict = { allowPrivateAddresses: false, allowedPorts: [80, 443] };
+const local = { allowPrivateAddresses: true, allowedPorts: null };
+
+describe('normalizeUrl', () => {
+  it('should write the same URL the same way', () => {
+    expect(normalizeUrl('HTTPS://WWW.LeMonde.fr/rss/une.xml')).toBe('https://www.lemonde.fr/rss/une.xml');
+    expect(normalizeUrl('https://www.lemonde.fr:443/rss/une.xml#top')).toBe('https://www.lemonde.fr/rss/une.xml');
+    expect(normalizeUrl('https://example.com/feeds/news/')).toBe('https://example.com/feeds/news');
+    expect(normalizeUrl('https://example.com')).toBe('https://example.com/');
+    // The query is part of what identifies the feed
+    expect(normalizeUrl('https://example.com/feed?format=rss')).toBe('https://example.com/feed?format=rss');
+    expect(normalizeUrl('not a URL')).toBe('not a URL');
+  });
+});
+
+describe('canonicalLink', () => {
+  it('should remove what changes when an article is republished', () => {
+    expect(canonicalLink('http://www.lemonde.fr/international/article/2022/12/15/energie.html?xtor=RSS-3208')).toBe('https://www.lemonde.fr/international/article/2022/12/15/energie.html');
+    expect(canonicalLink('https://www.theguardian.com/world/2022/dec/15/energy?CMP=Share_iOSApp_Other&utm_source=rss#comments')).toBe('https://www.theguardian.com/world/2022/dec/15/energy');
+    // The rest of the query can identify the article
+    expect(canonicalLink('https://example.com/?utm_medium=feed&p=123&lang=en')).toBe('https://example.com/?lang=en&p=123');
+    expect(canonicalLink('not a URL')).toBe('not a URL');
+  });
+});
+
+describe('checkAddress', () => {
+  it('should reject the addresses of the server and its network', () => {
+    expect(checkAddress('127.0.0.1', strict)).toBe('a loopback address');
+    expect(checkAddress('::1', strict)).toBe('a loopback address');
+    expect(checkAddress('10.1.2.3', strict)).toBe('a private address');
+    expect(checkAddress('172.20.0.1', strict)).toBe('a private address');
+    expect(checkAddress('192.168.1.1', strict)).toBe('a private address');
+    expect(checkAddress('fd12:3456::1', strict)).toBe('a private address');
+    expect(checkAddress('::ffff:192.168.1.1', strict)).toBe('a private address');
+    expect(checkAddress('169.254.169.254', strict)).toBe('a cloud metadata address');
+    expect(checkAddress('fe80::1', strict)).toBe('a link-local address');
+    expect(checkAddress('0.0.0.0', strict)).toBe('a reserved address');
+    expect(checkAddress('93.184.216.34', strict)).toBe(true);
+    expect(checkAddress('2606:2800:220:1:248:1893:25c8:1946', strict)).toBe(true);
+  });
+
+  it('should only allow private addresses when configured to', () => {
+    expect(checkAddress('127.0.0.1', local)).toBe(true);
+    expect(checkAddress('10.1.2.3', local)).toBe(true);
+    // Never allowed, since they give access to the credentials of the machine
+    expect(checkAddress('169.254.169.254', local)).toBe('a cloud metadata address');
+    expect(checkAddress('fd00:ec2::254', local)).toBe('a cloud metadata address');
+  });
+});
+
+describe('checkUrl', () => {
+  it('should allow public http and https URLs', async () => {
+    expect(await checkUrl('https://93.184.216.34/feed.xml', strict)).toBe(true);
+    expect(await checkUrl('http://[2606:2800:220:1:248:1893:25c8:1946]/feed.xml', strict)).toBe(true);
+  });
+
+  it('should explain why a URL is rejected', async () => {
+    expect(await checkUrl('ftp://93.184.216.34/feed.xml', strict)).toBe('The URL must use http or https, not ftp');
+    expect(await checkUrl('http://93.184.216.34:22/feed.xml', strict)).toBe('The URL uses port 22, but feeds can only be fetched from ports 80, 443');
+    expect(await checkUrl('http://localhost/feed.xml', strict)).toBe('The host localhost resolves to 127.0.0.1, which is a loopback address that feeds can\'t be fetched from');
+    expect(await checkUrl('http://[::ffff:127.0.0.1]/feed.xml', strict)).toContain('which is a loopback address');
+    expect(await checkUrl('http://169.254.169.254/latest/meta-data/', local)).toContain('which is a cloud metadata address');
+    expect(await checkUrl('http://feed.invalid/rss', strict)).toBe('The host feed.invalid could not be found');
+  });
+
+  it('should not be fooled by other ways of writing an address', async () => {
+    expect(await checkUrl('http://2130706433/feed.xml', strict)).toContain('which is a loopback address');
+    expect(await checkUrl('http://0x7f.1/feed.xml', strict)).toContain('which is a loopback address');
+    expect(await checkUrl('http://0/feed.xml', strict)).toContain('which is a reserved address');
+  });
+});